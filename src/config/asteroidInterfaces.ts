@@ -120,5 +120,77 @@ export interface ICredentials {
   username?: string,
   email?: string,
   ldap?: boolean,
-  ldapOptions?: object
+  ldapOptions?: object,
+  totp?: ITotpOptions
+}
+
+/**
+ * Two-factor auth options, for login to accounts with TOTP enabled or enforced.
+ * The code is only requested if the server responds that it is required.
+ * @param code      A current code, e.g. entered by an operator
+ * @param secret    Base32 shared secret, to generate codes as needed
+ * @param callback  Function returning a code (or promise), e.g. from a prompt
+ */
+export interface ITotpOptions {
+  code?: string,
+  secret?: string,
+  callback?: () => string | Promise<string>
+}
+
+/**
+ * Credentials for login with a token instead of password.
+ * @param userId  ID of the token's user (required for personal access tokens)
+ * @param token   Personal access token, generated in the user's account
+ * @param resume  Resume token, e.g. the `authToken` of an exported session
+ */
+export interface ITokenCredentials {
+  userId?: string,
+  token?: string,
+  resume?: string
+}
+
+/**
+ * Credentials for login with an OAuth service's access token, e.g. obtained by
+ * the bot's own OAuth flow. The service must be configured in Rocket.Chat.
+ * @param serviceName  Name of the OAuth service, e.g. `google` or `github`
+ * @param accessToken  Access token issued by the service
+ */
+export interface IOAuthCredentials {
+  serviceName: string,
+  accessToken: string,
+  idToken?: string,
+  expiresIn?: number,
+  accessTokenSecret?: string
+}
+
+/**
+ * Credentials with a custom payload for the DDP `login` method, for login
+ * handlers without a built-in strategy, e.g. `{ saml: true, credentialToken }`
+ * for SAML or `{ cas: { credentialToken } }` for CAS.
+ */
+export interface ICustomCredentials {
+  payload: object
+}
+
+/** Any credentials accepted by login */
+export type IAnyCredentials = ICredentials |
+  ITokenCredentials |
+  IOAuthCredentials |
+  ICustomCredentials
+
+/**
+ * Session details from login, exported to reuse with another transport
+ * (e.g. the REST API after driver login) or later without logging in again.
+ */
+export interface ISession {
+  userId: string,
+  authToken: string,
+  tokenExpires?: Date
+}
+
+/** Result of the DDP `login` method */
+export interface ILoginResult {
+  id: string,
+  token: string,
+  tokenExpires?: any
 }
@@ -1,13 +1,46 @@
+import { MethodCache } from '../lib/methodCache'
+import { Scheduler } from '../lib/scheduler'
+import { Outbox } from '../lib/outbox'
+import { ReadTracker } from '../lib/catchup'
+import { IThreadFilter } from '../lib/threads'
+
 /**
  * Connection options type
  * @param host        Rocket.Chat instance Host URL:PORT (without protocol)
  * @param timeout     How long to wait (ms) before abandoning connection
+ * @param reconnect   Manage reconnect on disconnect, restoring login and subs
+ * @param reconnectDelay        Delay (ms) before first reconnect attempt
+ * @param reconnectMaxDelay     Longest delay (ms) between reconnect attempts
+ * @param reconnectFactor       Multiplies delay after each failed attempt
+ * @param reconnectMaxAttempts  Give up after this many attempts (0 for never)
  */
 export interface IConnectOptions {
   host?: string,
   useSsl?: boolean,
   timeout?: number,
-  integration?: string
+  integration?: string,
+  reconnect?: boolean,
+  reconnectDelay?: number,
+  reconnectMaxDelay?: number,
+  reconnectFactor?: number,
+  reconnectMaxAttempts?: number
+}
+
+/**
+ * Driver instance options type
+ * Connection options given here are defaults for the instance's `connect`
+ * @param cache       Method cache for the instance (creates its own if not given)
+ * @param scheduler   Scheduler for method calls (creates its own if not given)
+ * @param outbox      Queue for messages sent while disconnected (creates its
+ *                    own, kept in memory, if not given)
+ * @param reads       Read times by room, for catching up on missed messages
+ *                    (creates its own, kept in memory, if not given)
+ */
+export interface IDriverOptions extends IConnectOptions {
+  cache?: MethodCache,
+  scheduler?: Scheduler,
+  outbox?: Outbox,
+  reads?: ReadTracker
 }
 
 /**
@@ -17,13 +50,62 @@ export interface IConnectOptions {
  * @param dm          Respond to messages in DM / private chats
  * @param livechat    Respond to messages in livechat
  * @param edited      Respond to edited messages
+ * @param threads     Respond to `any` message, only thread `replies`, or only
+ *                    `top` level messages (not in threads)
+ * @param typing      Show the user as typing while an async callback runs
+ * @param markRead    Mark the room read after each message is handled
+ * @param catchUp     Replay messages missed while offline, after the last one
+ *                    read in each room, when started and after reconnecting
+ * @param allowTypes  Respond to only these types of system message, e.g. `uj`
+ *                    (all if not given, messages from users always pass)
+ * @param denyTypes   Ignore these types of system message, e.g. `ul`
  */
 export interface IRespondOptions {
   rooms?: string[],
   allPublic?: boolean,
   dm?: boolean,
   livechat?: boolean,
-  edited?: boolean
+  edited?: boolean,
+  threads?: IThreadFilter,
+  typing?: boolean,
+  markRead?: boolean,
+  catchUp?: boolean,
+  allowTypes?: string[],
+  denyTypes?: string[]
+}
+
+/**
+ * Result of toggling a reaction on a message
+ * @param emoji      The reaction emoji, e.g. `:thumbsup:`
+ * @param messageId  ID of the message reacted to
+ * @param reacted    True if the reaction was added, false if removed
+ */
+export interface IReactionResult {
+  emoji: string,
+  messageId: string,
+  reacted: boolean
+}
+
+/**
+ * Options for deleting the user's own messages in a room
+ * @param oldest  Start of time range (default all history)
+ * @param latest  End of time range (default now)
+ * @param limit   Most messages to delete (default no limit)
+ */
+export interface ICleanupOptions {
+  oldest?: Date,
+  latest?: Date,
+  limit?: number
+}
+
+/**
+ * Result of deleting the user's own messages in a room
+ * @param deleted  IDs of messages deleted
+ * @param failed   IDs of messages that could not be deleted
+ */
+export interface ICleanupResult {
+  deleted: string[],
+  failed: string[]
 }
 
 /**
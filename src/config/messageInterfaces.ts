@@ -18,6 +18,11 @@ export interface IMessage {
   u?: IUser                     // User that sent the message
   editedBy?: IUser              // User that edited the message
   editedAt?: Date               // When the message was edited
+  tmid?: string                 // ID of the thread's parent, for thread replies
+  tshow?: boolean               // Also show thread reply in the room
+  tcount?: number               // Count of replies, for thread parents
+  tlm?: Date                    // Time of the last reply, for thread parents
+  replies?: string[]            // IDs of users who replied, for thread parents
 }
 
 export interface IUser {
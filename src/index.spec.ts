@@ -7,7 +7,37 @@ describe('index:', () => {
       'driver',
       'methodCache',
       'api',
-      'settings'
+      'settings',
+      'auth',
+      'scheduler',
+      'outbox',
+      'router',
+      'dialogs',
+      'outgoing',
+      'catchup',
+      'Driver',
+      'MethodCache',
+      'ApiClient',
+      'Scheduler',
+      'Outbox',
+      'MemoryStore',
+      'FileStore',
+      'ReadTracker',
+      'MemoryReadStore',
+      'FileReadStore',
+      'CommandRouter',
+      'CommandUsageError',
+      'DialogManager',
+      'DialogEndedError',
+      'MemoryDialogStore',
+      'FileDialogStore',
+      'MessageVetoedError',
+      'TotpRequiredError',
+      'ApiError',
+      'AuthError',
+      'RateLimitError',
+      'ResponseError',
+      'RequestError'
     ])
   })
 })
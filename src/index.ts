@@ -2,9 +2,45 @@ import * as driver from './lib/driver'
 import * as methodCache from './lib/methodCache'
 import * as api from './lib/api'
 import * as settings from './lib/settings'
+import * as auth from './lib/auth'
+import * as scheduler from './lib/scheduler'
+import * as outbox from './lib/outbox'
+import * as router from './lib/router'
+import * as dialogs from './lib/dialogs'
+import * as outgoing from './lib/outgoing'
+import * as catchup from './lib/catchup'
 export {
   driver,
   methodCache,
   api,
-  settings
+  settings,
+  auth,
+  scheduler,
+  outbox,
+  router,
+  dialogs,
+  outgoing,
+  catchup
 }
+export { Driver } from './lib/driver'
+export { MethodCache } from './lib/methodCache'
+export { ApiClient } from './lib/api'
+export { Scheduler } from './lib/scheduler'
+export { Outbox, MemoryStore, FileStore } from './lib/outbox'
+export { ReadTracker, MemoryReadStore, FileReadStore } from './lib/catchup'
+export { CommandRouter, CommandUsageError } from './lib/router'
+export {
+  DialogManager,
+  DialogEndedError,
+  MemoryDialogStore,
+  FileDialogStore
+} from './lib/dialogs'
+export { MessageVetoedError } from './lib/outgoing'
+export { TotpRequiredError } from './lib/totp'
+export {
+  ApiError,
+  AuthError,
+  RateLimitError,
+  ResponseError,
+  RequestError
+} from './lib/errors'
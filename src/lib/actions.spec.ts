@@ -0,0 +1,50 @@
+import 'mocha'
+import sinon from 'sinon'
+import { expect } from 'chai'
+import { ActionRegistry, tagValue, parseAction } from './actions'
+
+describe('actions', () => {
+  describe('.tagValue', () => {
+    it('appends action ID to button value', () => {
+      expect(tagValue('Yes', 'AID')).to.equal('Yes [#AID]')
+    })
+  })
+  describe('.parseAction', () => {
+    it('returns action ID and value from tagged text', () => {
+      expect(parseAction('Yes please [#AID]')).to.eql({ id: 'AID', value: 'Yes please' })
+    })
+    it('returns null for other text', () => {
+      expect(parseAction('Yes [AID]')).to.equal(null)
+      expect(parseAction(undefined)).to.equal(null)
+    })
+  })
+  describe('ActionRegistry', () => {
+    it('adds, gets and removes actions by ID', () => {
+      const registry = new ActionRegistry()
+      const action = { id: 'AID', handler: () => null, source: { rid: 'RID' }, values: ['Yes [#AID]'], options: {} }
+      registry.add(action)
+      expect(registry.has('AID')).to.equal(true)
+      expect(registry.get('AID')).to.equal(action)
+      expect(registry.remove('AID')).to.equal(action)
+      expect(registry.has('AID')).to.equal(false)
+    })
+    it('accepts only values sent by buttons of the action', () => {
+      const registry = new ActionRegistry()
+      registry.add({ id: 'AID', handler: () => null, source: { rid: 'RID' }, values: ['Yes [#AID]'], options: {} })
+      expect(registry.accepts('AID', 'Yes')).to.equal(true)
+      expect(registry.accepts('AID', 'rm -rf')).to.equal(false)
+      expect(registry.accepts('OTHER', 'Yes')).to.equal(false)
+    })
+    it('clears expiry timer when removed', () => {
+      const clock = sinon.useFakeTimers()
+      const expire = sinon.spy()
+      const registry = new ActionRegistry()
+      const timer = setTimeout(expire, 100)
+      registry.add({ id: 'AID', handler: () => null, source: { rid: 'RID' }, values: [], options: { ttl: 100 }, timer })
+      registry.remove('AID')
+      clock.tick(100)
+      sinon.assert.notCalled(expire)
+      clock.restore()
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import { IMessage } from '../config/messageInterfaces'
+
+/**
+ * Button for an action, sent with `sendActions`.
+ * @param text   Label of the button
+ * @param value  Value given to the handler when clicked (default same as text)
+ */
+export interface IActionButton {
+  text: string,
+  value?: string
+}
+
+/**
+ * Action handling options.
+ * @param once  Expire the action after the first click is handled
+ * @param ttl   Expire the action after this time in ms, if not used
+ */
+export interface IActionOptions {
+  once?: boolean,
+  ttl?: number
+}
+
+/**
+ * A button click routed to an action handler.
+ * @param id       ID of the action (from `sendActions`)
+ * @param value    Value of the button clicked
+ * @param message  The message sent by the click, from the user
+ * @param meta     Meta of the click message, such as `roomType`
+ * @param source   The message with the buttons, as sent by the bot
+ * @param expire   Stop handling the action and remove the buttons, optionally
+ *                 replacing the message text
+ * @param edit     Edit the message with the buttons
+ */
+export interface IActionEvent {
+  id: string,
+  value: string,
+  message: any,
+  meta: any,
+  source: IMessage,
+  expire: (text?: string) => Promise<void>,
+  edit: (content: string | IMessage) => Promise<void>
+}
+
+/** Function called with a button click, may return a promise */
+export type IActionHandler = (event: IActionEvent) => any
+
+/**
+ * An action waiting for clicks, with the message its buttons were sent in and
+ * the tagged values of its buttons (only clicks sending one are handled).
+ */
+export interface IRegisteredAction {
+  id: string,
+  handler: IActionHandler,
+  source: IMessage,
+  values: string[],
+  options: IActionOptions,
+  timer?: NodeJS.Timer
+}
+
+/**
+ * Tag a button value with its action ID. The tag is part of the message sent
+ * by a click, so it can be linked back to the handler.
+ */
+export function tagValue (value: string, id: string): string {
+  return `${value} [#${id}]`
+}
+
+/** Get the action ID and button value from the text of a click message */
+export function parseAction (text?: string): { id: string, value: string } | null {
+  const match = (text) ? text.match(/^([\s\S]*) \[#(\w+)\]$/) : null
+  return (match) ? { id: match[2], value: match[1] } : null
+}
+
+/** Actions waiting for clicks, by ID */
+export class ActionRegistry {
+  actions: Map<string, IRegisteredAction> = new Map()
+
+  /** Add an action to route clicks to */
+  add (action: IRegisteredAction): void {
+    this.actions.set(action.id, action)
+  }
+
+  /** Check if an action is waiting for clicks */
+  has (id: string): boolean {
+    return this.actions.has(id)
+  }
+
+  /**
+   * Check if a value was sent by one of an action's buttons, so values typed
+   * by users with a tag from a real action aren't handled.
+   */
+  accepts (id: string, value: string): boolean {
+    const action = this.actions.get(id)
+    return !!action && action.values.indexOf(tagValue(value, id)) !== -1
+  }
+
+  /** Get an action by ID */
+  get (id: string): IRegisteredAction | undefined {
+    return this.actions.get(id)
+  }
+
+  /** Remove an action (clearing its expiry timer), returning it if found */
+  remove (id: string): IRegisteredAction | undefined {
+    const action = this.actions.get(id)
+    if (action) {
+      if (action.timer) clearTimeout(action.timer)
+      this.actions.delete(id)
+    }
+    return action
+  }
+}
@@ -69,6 +69,52 @@ describe('api', () => {
       expect(users).to.include(botUser.username, mockUser.username)
     })
   })
+  describe('.request', () => {
+    let client
+    const respond = (method, data, response = {}) => {
+      client.client[method] = sinon.spy((url, args, callback) => {
+        callback(data, response)
+        return { on: () => null }
+      })
+    }
+    beforeEach(() => client = new api.ApiClient())
+    it('resolves with successful result', async () => {
+      respond('get', { info: {}, success: true })
+      const result = await client.request('GET', 'info', {}, { foo: 'bar' })
+      expect(result).to.eql({ info: {}, success: true })
+      expect(client.client.get.args[0][0]).to.match(/\/api\/v1\/info\?foo=bar$/)
+    })
+    it('rejects with typed error for unsuccessful result', async () => {
+      respond('post', { success: false, error: 'Room not found', errorType: 'error-room-not-found' }, { statusCode: 400 })
+      const err = await client.request('POST', 'chat.postMessage', {}, {}).catch((err) => err)
+      expect(err.name).to.equal('ApiError')
+      expect(err).to.deep.include({ status: 400, errorType: 'error-room-not-found', endpoint: 'chat.postMessage' })
+    })
+    it('rejects with response error for non-JSON response', async () => {
+      respond('get', Buffer.from('<html>Bad Gateway</html>'), { statusCode: 502 })
+      const err = await client.request('GET', 'info', {}).catch((err) => err)
+      expect(err.name).to.equal('ResponseError')
+      expect(err.status).to.equal(502)
+      expect(err.body).to.equal('<html>Bad Gateway</html>')
+    })
+    it('rejects with request error if request fails', async () => {
+      client.client.get = () => ({ on: (event, handler) => handler(new Error('ECONNREFUSED')) })
+      const err = await client.request('GET', 'info', {}).catch((err) => err)
+      expect(err.name).to.equal('RequestError')
+      expect(err.cause.message).to.equal('ECONNREFUSED')
+    })
+    it('rejects from get and post', async () => {
+      respond('get', { success: false, error: 'Failed' })
+      const err = await client.get('info', {}, false).catch((err) => err)
+      expect(err.name).to.equal('ApiError')
+    })
+    it('resolves undefined from get and post in legacy mode', async () => {
+      client = new api.ApiClient({ legacyErrors: true })
+      respond('post', { success: false, error: 'Failed' })
+      const result = await client.post('info', {}, false)
+      expect(result).to.equal(undefined)
+    })
+  })
   describe('.login', () => {
     it('logs in with the default user without arguments', async () => {
       const login = await api.login()
@@ -91,6 +137,84 @@ describe('api', () => {
       expect(api.authHeaders['X-User-Id']).to.equal(driver.userId)
       expect(api.authHeaders['X-Auth-Token']).to.have.lengthOf(43)
     })
+    context('with two-factor auth (stubbed login request)', () => {
+      const loginResult = { status: 'success', data: { authToken: 'TOKEN', userId: 'ID' } }
+      const required = { status: 'error', error: 'totp-required', details: { method: 'totp' } }
+      let client
+      let loginRequest
+      beforeEach(() => {
+        client = new api.ApiClient()
+        loginRequest = sinon.stub(client, 'loginRequest')
+        loginRequest.onFirstCall().rejects(required)
+      })
+      it('sends code from given secret if required', async () => {
+        loginRequest.onSecondCall().resolves(loginResult)
+        const result = await client.login({
+          username: 'bot',
+          password: 'pass',
+          totp: { secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ' }
+        })
+        expect(result).to.eql(loginResult)
+        expect(loginRequest.secondCall.args[0].code).to.match(/^\d{6}$/)
+      })
+      it('rejects with two-factor error if no code given', async () => {
+        const err = await client.login({ username: 'bot', password: 'pass' })
+          .catch((err) => err)
+        expect(err.name).to.equal('TotpRequiredError')
+        expect(client.loggedIn()).to.equal(false)
+      })
+    })
+  })
+  describe('.loginWithToken', () => {
+    it('logs in with a resume token', async () => {
+      const session = await new api.ApiClient().login()
+      await api.loginWithToken({ resume: session.data.authToken })
+      expect(api.currentLogin.userId).to.equal(session.data.userId)
+    })
+    it('logs in with a token and user ID, using them as auth headers', async () => {
+      const client = new api.ApiClient()
+      const { data } = await client.login()
+      await api.loginWithToken({ userId: data.userId, token: data.authToken })
+      expect(api.authHeaders['X-User-Id']).to.equal(client.currentLogin.userId)
+      expect(api.authHeaders['X-Auth-Token']).to.equal(client.currentLogin.authToken)
+    })
+    it('does not invalidate the token on logout', async () => {
+      const client = new api.ApiClient()
+      await client.login()
+      await api.useSession(client.getSession())
+      await api.logout()
+      const me = await client.get('me')
+      expect(me._id).to.equal(client.currentLogin.userId)
+    })
+    it('clears all auth on logout, without a logout request', async () => {
+      const client = new api.ApiClient()
+      const request = client.request = sinon.stub().resolves({ _id: 'UID', username: 'bot' })
+      await client.loginWithToken({ userId: 'UID', token: 'TOKEN' })
+      await client.logout()
+      expect(client.currentLogin).to.equal(null)
+      expect(client.getSession()).to.equal(null)
+      expect(client.authHeaders).to.eql({})
+      sinon.assert.calledOnce(request)
+    })
+  })
+  describe('.getSession', () => {
+    it('returns null if not logged in', () => {
+      expect(new api.ApiClient().getSession()).to.equal(null)
+    })
+    it('returns user ID and auth token of current login', async () => {
+      const result = await api.login()
+      expect(api.getSession()).to.eql({
+        userId: result.data.userId,
+        authToken: result.data.authToken
+      })
+    })
+  })
+  describe('.useSession', () => {
+    it('calls endpoints with a session exported from the driver', async () => {
+      await api.useSession(driver.getSession())
+      const me = await api.get('me')
+      expect(me._id).to.equal(driver.userId)
+    })
   })
   describe('.logout', () => {
     it('resets auth headers and clears user ID', async () => {
@@ -120,4 +244,101 @@ describe('api', () => {
       })
     })
   })
+  describe('.upload', () => {
+    let client
+    beforeEach(() => {
+      client = new api.ApiClient()
+      client.setLogin('bot', { status: 'success', data: { authToken: 'TOKEN', userId: 'UID' } }, true)
+      client.requestRaw = sinon.stub().resolves({
+        status: 200,
+        headers: {},
+        body: Buffer.from(JSON.stringify({ success: true }))
+      })
+    })
+    it('posts file and options as multipart form to room', async () => {
+      const result = await client.upload('RID', Buffer.from('a,b\n1,2'), {
+        filename: 'report.csv',
+        description: 'Report',
+        tmid: 'TMID'
+      })
+      expect(result).to.eql({ success: true })
+      const [method, endpoint, headers, body] = client.requestRaw.firstCall.args
+      expect([method, endpoint]).to.eql(['POST', 'rooms.upload/RID'])
+      expect(headers['X-Auth-Token']).to.equal('TOKEN')
+      expect(headers['Content-Type']).to.match(/^multipart\/form-data; boundary=/)
+      const form = body.toString()
+      expect(form).to.contain('name="description"\r\n\r\nReport')
+      expect(form).to.contain('name="tmid"\r\n\r\nTMID')
+      expect(form).to.contain('filename="report.csv"\r\nContent-Type: text/csv\r\n\r\na,b\n1,2')
+      expect(form).to.not.contain('name="msg"')
+    })
+    it('rejects with typed error for unsuccessful result', async () => {
+      client.requestRaw.resolves({
+        status: 400,
+        headers: {},
+        body: Buffer.from(JSON.stringify({ success: false, error: 'File exceeds allowed size' }))
+      })
+      const err = await client.upload('RID', Buffer.from('')).catch((err) => err)
+      expect(err.name).to.equal('ApiError')
+      expect(err.status).to.equal(400)
+    })
+  })
+  describe('.download', () => {
+    let client
+    beforeEach(() => {
+      client = new api.ApiClient()
+      client.setLogin('bot', { status: 'success', data: { authToken: 'TOKEN', userId: 'UID' } }, true)
+      client.requestRaw = sinon.stub().resolves({ status: 200, headers: {}, body: Buffer.from('a,b') })
+    })
+    it('gets file with auth headers and cookies', async () => {
+      const file = await client.download('/file-upload/FID/report.csv')
+      expect(file.toString()).to.equal('a,b')
+      const [method, url, headers] = client.requestRaw.firstCall.args
+      expect([method, url]).to.eql(['GET', '/file-upload/FID/report.csv'])
+      expect(headers).to.include({ 'X-User-Id': 'UID', 'X-Auth-Token': 'TOKEN', Cookie: 'rc_uid=UID; rc_token=TOKEN' })
+    })
+    it('rejects if file not found', async () => {
+      client.requestRaw.resolves({ status: 404, headers: {}, body: Buffer.from('') })
+      const err = await client.download('/file-upload/FID/report.csv').catch((err) => err)
+      expect(err.status).to.equal(404)
+    })
+    it('gets file on the server by full URL with auth', async () => {
+      await client.download(`${client.url.replace(/\/api\/v1\/$/, '')}/file-upload/FID/report.csv`)
+      expect(client.requestRaw.firstCall.args[2]).to.include({ 'X-Auth-Token': 'TOKEN' })
+    })
+    it('gets file on another host without auth', async () => {
+      await client.downloadAttachment({ image_url: 'https://images.example.com/cat.png' })
+      const [url, headers] = client.requestRaw.firstCall.args.slice(1)
+      expect(url).to.equal('https://images.example.com/cat.png')
+      expect(headers).to.eql({})
+      await client.download('http://chat.example.com.evil.com/file-upload/FID/report.csv')
+      expect(client.requestRaw.secondCall.args[2]).to.eql({})
+    })
+    it('downloads attachment from title link', async () => {
+      await client.downloadAttachment({ title: 'report.csv', title_link: '/file-upload/FID/report.csv' })
+      expect(client.requestRaw.firstCall.args[1]).to.equal('/file-upload/FID/report.csv')
+    })
+  })
+  describe('ApiClient', () => {
+    it('uses the given host for its base URL', () => {
+      const client = new api.ApiClient({ host: 'https://chat.example.com' })
+      expect(client.url).to.equal('https://chat.example.com/api/v1/')
+    })
+    it('adds protocol to host without one', () => {
+      const client = new api.ApiClient({ host: 'chat.example.com' })
+      expect(client.url).to.equal('http://chat.example.com/api/v1/')
+    })
+    it('keeps login and headers separate from the default client', async () => {
+      const mockApi = new api.ApiClient({
+        username: mockUser.username,
+        password: mockUser.password
+      })
+      await mockApi.login()
+      await api.login()
+      expect(mockApi.currentLogin.userId).to.not.equal(api.currentLogin.userId)
+      expect(mockApi.authHeaders['X-User-Id']).to.not.equal(api.authHeaders['X-User-Id'])
+      await mockApi.logout()
+      expect(api.loggedIn()).to.equal(true)
+    })
+  })
 })
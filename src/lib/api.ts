@@ -1,7 +1,34 @@
 import { Client } from 'node-rest-client'
+import { parse } from 'url'
 import * as settings from './settings'
 import { logger } from './log'
-import { IUserAPI } from '../utils/interfaces'
+import {
+  IUserAPI,
+  IListQueryAPI,
+  IHistoryQueryAPI,
+  IMessageReceiptAPI,
+  IAttachmentAPI,
+  IUploadResultAPI
+} from '../utils/interfaces'
+import * as auth from './auth'
+import * as totp from './totp'
+import {
+  ChannelEndpoints,
+  GroupEndpoints,
+  ImEndpoints,
+  ChatEndpoints
+} from './endpoints'
+import * as pagination from './pagination'
+import * as errors from './errors'
+import * as scheduler from './scheduler'
+import * as files from './files'
+import {
+  IAnyCredentials,
+  ICredentials,
+  ITokenCredentials,
+  ISession
+} from '../config/asteroidInterfaces'
+import { exportLive } from '../utils/exports'
 
 /** Result object from an API login */
 export interface ILoginResultAPI {
@@ -14,29 +41,40 @@ export interface ILoginCredentials {
   username: string,
   password: string
 }
-export let currentLogin: {
+
+/** Details of the current API session */
+export interface ICurrentLogin {
   username: string,
   userId: string,
   authToken: string,
-  result: ILoginResultAPI
-} | null = null
-
-/** Check for existing login */
-export function loggedIn (): boolean {
-  return (currentLogin !== null)
+  result: ILoginResultAPI,
+  token?: boolean // logged in with token (will not logout on server)
 }
 
-/** Initialise client and configs */
-export const client = new Client()
-export const host = settings.host
-
 /**
- * Prepend protocol (or put back if removed from env settings for driver)
- * Hard code endpoint prefix, because all syntax depends on this version
+ * API client options type
+ * @param host        Rocket.Chat instance Host URL:PORT (protocol optional)
+ * @param username    Default username for login (and login before requests)
+ * @param password    Default password for login
+ * @param credentials Default credentials of any type (instead of the above)
+ * @param legacyErrors Log request errors and resolve undefined, instead of
+ *                    rejecting with typed errors
+ * @param scheduler   Scheduler for requests (creates its own if not given)
  */
-export const url = ((host.indexOf('http') === -1)
-  ? host.replace(/^(\/\/)?/, 'http://')
-  : host) + '/api/v1/'
+export interface IApiOptions {
+  host?: string,
+  username?: string,
+  password?: string,
+  credentials?: IAnyCredentials,
+  legacyErrors?: boolean,
+  scheduler?: scheduler.Scheduler
+}
+
+/** Auth headers, populated from login */
+export interface IAuthHeaders {
+  'X-Auth-Token'?: string,
+  'X-User-Id'?: string
+}
 
 /** Convert payload data to query string for GET requests */
 export function getQueryString (data: any) {
@@ -49,33 +87,14 @@ export function getQueryString (data: any) {
   }).join('&')
 }
 
-/** Setup default headers with empty auth for now */
-export const basicHeaders = { 'Content-Type': 'application/json' }
-export const authHeaders = { 'X-Auth-Token': '', 'X-User-Id': '' }
-
-/** Populate auth headers (from response data on login) */
-export function setAuth (authData: {authToken: string, userId: string}) {
-  authHeaders['X-Auth-Token'] = authData.authToken
-  authHeaders['X-User-Id'] = authData.userId
-}
-
-/** Join basic headers with auth headers if required */
-export function getHeaders (authRequired = false) {
-  if (!authRequired) return basicHeaders
-  if (
-    (!('X-Auth-Token' in authHeaders) || !('X-User-Id' in authHeaders)) ||
-    authHeaders['X-Auth-Token'] === '' ||
-    authHeaders['X-User-Id'] === ''
-  ) {
-    throw new Error('Auth required endpoint cannot be called before login')
-  }
-  return Object.assign({}, basicHeaders, authHeaders)
-}
-
-/** Clear headers so they can't be used without logging in again */
-export function clearHeaders () {
-  delete authHeaders['X-Auth-Token']
-  delete authHeaders['X-User-Id']
+/**
+ * Prepend protocol (or put back if removed from env settings for driver)
+ * Hard code endpoint prefix, because all syntax depends on this version
+ */
+export function getUrl (host: string) {
+  return ((host.indexOf('http') === -1)
+    ? host.replace(/^(\/\/)?/, 'http://')
+    : host) + '/api/v1/'
 }
 
 /** Check result data for success, allowing override to ignore some errors */
@@ -93,127 +112,680 @@ export function success (result: any, ignore?: RegExp) {
 }
 
 /**
- * Do a POST request to an API endpoint.
- * If it needs a token, login first (with defaults) to set auth headers.
- * @todo Look at why some errors return HTML (caught as buffer) instead of JSON
- * @param endpoint The API endpoint (including version) e.g. `chat.update`
- * @param data     Payload for POST request to endpoint
- * @param auth     Require auth headers for endpoint, default true
- * @param ignore   Allows certain matching error messages to not count as errors
+ * Check if a path or URL is on the host of a base URL (same protocol, host and
+ * port), so it can be sent auth for that host.
  */
-export async function post (
-  endpoint: string,
-  data: any,
-  auth: boolean = true,
-  ignore?: RegExp
-): Promise<any> {
-  try {
-    logger.debug(`[API] POST: ${endpoint}`, JSON.stringify(data))
-    if (auth && !loggedIn()) await login()
-    let headers = getHeaders(auth)
-    const result = await new Promise((resolve, reject) => {
-      client.post(url + endpoint, { headers, data }, (result: any) => {
-        if (Buffer.isBuffer(result)) reject('Result was buffer (HTML, not JSON)')
-        else if (!success(result, ignore)) reject(result)
-        else resolve(result)
-      }).on('error', (err: Error) => reject(err))
-    })
-    logger.debug('[API] POST result:', result)
-    return result
-  } catch (err) {
-    console.error(err)
-    logger.error(`[API] POST error (${endpoint}):`, err)
-  }
+function isOnHost (url: string, base: string): boolean {
+  if (!/^https?:\/\//.test(url)) return true // path on the host, as `requestRaw`
+  const target = parse(url)
+  const host = parse(base)
+  return target.protocol === host.protocol && target.host === host.host
 }
 
+/** Get username from login result, where the user's details are included */
+function getUsername (result: any): string {
+  return (result.data && result.data.me) ? result.data.me.username : ''
+}
+
+/** Defaults for user queries */
+export const userFields = { name: 1, username: 1, status: 1, type: 1 }
+
 /**
- * Do a GET request to an API endpoint
- * @param endpoint   The API endpoint (including version) e.g. `users.info`
- * @param data       Object to serialise for GET request query string
- * @param auth       Require auth headers for endpoint, default true
- * @param ignore     Allows certain matching error messages to not count as errors
+ * Client for the Rocket.Chat REST API.
+ * Each instance has its own base URL, credentials, headers and login, so a
+ * process can call more than one server, or act as more than one user.
+ * @example
+ *  import { ApiClient } from '@rocket.chat/sdk'
+ *  const admin = new ApiClient({ username: 'admin', password: 'pass' })
+ *  const info = await admin.get('users.info', { username: 'bot' })
  */
-export async function get (
-  endpoint: string,
-  data?: any,
-  auth: boolean = true,
-  ignore?: RegExp
-): Promise<any> {
-  try {
-    logger.debug(`[API] GET: ${endpoint}`, data)
-    if (auth && !loggedIn()) await login()
-    let headers = getHeaders(auth)
-    const query = getQueryString(data)
-    const result = await new Promise((resolve, reject) => {
-      client.get(url + endpoint + query, { headers }, (result: any) => {
-        if (Buffer.isBuffer(result)) reject('Result was buffer (HTML, not JSON)')
-        else if (!success(result, ignore)) reject(result)
-        else resolve(result)
-      }).on('error', (err: Error) => reject(err))
+export class ApiClient {
+  /** Rocket.Chat instance host, as given or from settings */
+  host: string
+
+  /** Base URL for all endpoints, with protocol and API version prefix */
+  url: string
+
+  /** Default credentials, used when login is required before a request */
+  credentials: IAnyCredentials
+
+  /** Resolve undefined on request errors instead of rejecting (deprecated) */
+  legacyErrors: boolean
+
+  /** Scheduler for requests, to stay within rate limits */
+  scheduler: scheduler.Scheduler
+
+  /** Details of the current login, null until logged in */
+  currentLogin: ICurrentLogin | null = null
+
+  /** The REST client instance making requests */
+  client = new Client()
+
+  /** Setup default headers with empty auth for now */
+  basicHeaders = { 'Content-Type': 'application/json' }
+  authHeaders: IAuthHeaders = { 'X-Auth-Token': '', 'X-User-Id': '' }
+
+  /** Query helpers for user collection requests (all pages of results) */
+  users: any = {
+    iterate: (query: IListQueryAPI = {}, options?: pagination.IPageOptions) => this.paginate<IUserAPI>('users.list', 'users', query, options),
+    all: (fields: any = userFields) => pagination.getAll<IUserAPI>(this, 'users.list', 'users', { fields }),
+    allNames: () => pagination.getAll<IUserAPI>(this, 'users.list', 'users', { fields: { 'username': 1 } }).then((users) => users.map((u: IUserAPI) => u.username)),
+    allIDs: () => pagination.getAll<IUserAPI>(this, 'users.list', 'users', { fields: { '_id': 1 } }).then((users) => users.map((u: IUserAPI) => u._id)),
+    online: (fields: any = userFields) => pagination.getAll<IUserAPI>(this, 'users.list', 'users', { fields, query: { 'status': { $ne: 'offline' } } }),
+    onlineNames: () => pagination.getAll<IUserAPI>(this, 'users.list', 'users', { fields: { 'username': 1 }, query: { 'status': { $ne: 'offline' } } }).then((users) => users.map((u: IUserAPI) => u.username)),
+    onlineIds: () => pagination.getAll<IUserAPI>(this, 'users.list', 'users', { fields: { '_id': 1 }, query: { 'status': { $ne: 'offline' } } }).then((users) => users.map((u: IUserAPI) => u._id))
+  }
+
+  /** Typed requests for channel, group, direct message and chat endpoints */
+  channels = new ChannelEndpoints(this)
+  groups = new GroupEndpoints(this)
+  im = new ImEndpoints(this)
+  chat = new ChatEndpoints(this)
+
+  constructor (options: IApiOptions = {}) {
+    this.host = options.host || settings.host
+    this.url = getUrl(this.host)
+    this.legacyErrors = (typeof options.legacyErrors !== 'undefined')
+      ? options.legacyErrors
+      : settings.legacyErrors
+    this.scheduler = options.scheduler || new scheduler.Scheduler()
+    if (options.credentials) {
+      this.credentials = options.credentials
+    } else if (!options.username && settings.authToken) {
+      this.credentials = { userId: settings.userId, token: settings.authToken }
+    } else {
+      this.credentials = {
+        username: options.username || settings.username,
+        password: options.password || settings.password,
+        ldap: settings.ldap,
+        totp: (settings.totpSecret) ? { secret: settings.totpSecret } : undefined
+      }
+    }
+  }
+
+  /** Check for existing login */
+  loggedIn (): boolean {
+    return (this.currentLogin !== null)
+  }
+
+  /** Populate auth headers (from response data on login) */
+  setAuth (authData: { authToken: string, userId: string }) {
+    this.authHeaders['X-Auth-Token'] = authData.authToken
+    this.authHeaders['X-User-Id'] = authData.userId
+  }
+
+  /** Join basic headers with auth headers if required */
+  getHeaders (authRequired = false) {
+    if (!authRequired) return this.basicHeaders
+    if (
+      (!('X-Auth-Token' in this.authHeaders) || !('X-User-Id' in this.authHeaders)) ||
+      this.authHeaders['X-Auth-Token'] === '' ||
+      this.authHeaders['X-User-Id'] === ''
+    ) {
+      throw new Error('Auth required endpoint cannot be called before login')
+    }
+    return Object.assign({}, this.basicHeaders, this.authHeaders)
+  }
+
+  /** Clear headers so they can't be used without logging in again */
+  clearHeaders () {
+    delete this.authHeaders['X-Auth-Token']
+    delete this.authHeaders['X-User-Id']
+  }
+
+  /**
+   * Do a POST request to an API endpoint.
+   * If it needs a token, login first (with defaults) to set auth headers.
+   * Rejects with a typed error (see `errors` module) unless in legacy mode.
+   * @param endpoint The API endpoint (including version) e.g. `chat.update`
+   * @param data     Payload for POST request to endpoint
+   * @param auth     Require auth headers for endpoint, default true
+   * @param ignore   Allows certain matching error messages to not count as errors
+   */
+  async post (
+    endpoint: string,
+    data: any,
+    auth: boolean = true,
+    ignore?: RegExp
+  ): Promise<any> {
+    try {
+      logger.debug(`[API] POST: ${endpoint}`, JSON.stringify(data))
+      if (auth && !this.loggedIn()) await this.login()
+      let headers = this.getHeaders(auth)
+      const result = await this.request('POST', endpoint, headers, data, ignore)
+      logger.debug('[API] POST result:', result)
+      return result
+    } catch (err) {
+      logger.error(`[API] POST error (${endpoint}):`, err)
+      if (!this.legacyErrors) throw err
+    }
+  }
+
+  /**
+   * Do a GET request to an API endpoint
+   * Rejects with a typed error (see `errors` module) unless in legacy mode.
+   * @param endpoint   The API endpoint (including version) e.g. `users.info`
+   * @param data       Object to serialise for GET request query string
+   * @param auth       Require auth headers for endpoint, default true
+   * @param ignore     Allows certain matching error messages to not count as errors
+   */
+  async get (
+    endpoint: string,
+    data?: any,
+    auth: boolean = true,
+    ignore?: RegExp
+  ): Promise<any> {
+    try {
+      logger.debug(`[API] GET: ${endpoint}`, data)
+      if (auth && !this.loggedIn()) await this.login()
+      let headers = this.getHeaders(auth)
+      const result = await this.request('GET', endpoint, headers, data, ignore)
+      logger.debug('[API] GET result:', result)
+      return result
+    } catch (err) {
+      logger.error(`[API] GET error (${endpoint}):`, err)
+      if (!this.legacyErrors) throw err
+    }
+  }
+
+  /**
+   * Send a request with the REST client, resolving with the result data, or
+   * rejecting with a typed error for unsuccessful results, non-JSON responses
+   * (e.g. HTML error pages) and failed requests.
+   * Requests are scheduled within any limits for the endpoint, and requeued if
+   * the server's rate limiter refuses them (see `scheduler` module).
+   * @param method   HTTP method, data is sent as query string for GET
+   * @param endpoint The API endpoint (including version) e.g. `users.info`
+   * @param headers  Request headers, e.g. from `getHeaders`
+   * @param data     Payload or query data for request
+   * @param ignore   Allows certain matching error messages to not count as errors
+   */
+  request (
+    method: 'GET' | 'POST',
+    endpoint: string,
+    headers: object,
+    data?: any,
+    ignore?: RegExp
+  ): Promise<any> {
+    return this.scheduler.schedule(endpoint, () => new Promise((resolve, reject) => {
+      const details = { method, endpoint }
+      const callback = (result: any, response: any = {}) => {
+        if (Buffer.isBuffer(result) || typeof result !== 'object' || result === null) {
+          const body = (result) ? result.toString() : ''
+          reject(new errors.ResponseError(`[API] ${method} ${endpoint} result was not JSON`, Object.assign({
+            status: response.statusCode
+          }, details), body))
+        } else if (!success(result, ignore)) {
+          reject(errors.fromResult(method, endpoint, result, response))
+        } else {
+          resolve(result)
+        }
+      }
+      const onError = (err: Error) => reject(new errors.RequestError(
+        `[API] ${method} ${endpoint} request failed: ${err.message}`, details, err
+      ))
+      if (method === 'GET') {
+        this.client.get(this.url + endpoint + getQueryString(data), { headers }, callback)
+          .on('error', onError)
+      } else {
+        this.client.post(this.url + endpoint, { headers, data }, callback)
+          .on('error', onError)
+      }
+    }))
+  }
+
+  /**
+   * Send a request with a raw body and resolve with the raw response, for
+   * requests that aren't JSON (file uploads and downloads). Scheduled the same
+   * as other requests, rejecting with a typed error if no response is received.
+   * @param method   HTTP method
+   * @param endpoint The API endpoint, or a path or URL on the host
+   * @param headers  Request headers
+   * @param body     Request body, if any
+   */
+  requestRaw (
+    method: 'GET' | 'POST',
+    endpoint: string,
+    headers: object,
+    body?: Buffer
+  ): Promise<files.IRawResponse> {
+    const url = (/^https?:\/\//.test(endpoint))
+      ? endpoint
+      : (endpoint.indexOf('/') === 0)
+        ? this.url.replace(/\/api\/v1\/$/, '') + endpoint
+        : this.url + endpoint
+    return this.scheduler.schedule(endpoint.split('/')[0], () => (
+      files.sendRaw(method, url, headers, body).catch((err: Error) => {
+        throw new errors.RequestError(`[API] ${method} ${endpoint} request failed: ${err.message}`, {
+          method,
+          endpoint
+        }, err)
+      })
+    ))
+  }
+
+  /**
+   * Upload a file to a room with the `rooms.upload` endpoint, as a message
+   * from the user. Accepts a Buffer, a readable stream or a file path.
+   * Rejects with a typed error (see `errors` module), even in legacy mode.
+   * @param roomId   ID of the room to upload to
+   * @param file     The file, as a Buffer, readable stream or file path
+   * @param options  Message text, description, thread and file name or type
+   * @example
+   *  await api.upload(roomId, './report.csv', { description: 'Weekly report' })
+   */
+  async upload (
+    roomId: string,
+    file: files.IFileSource,
+    options: files.IUploadOptions = {}
+  ): Promise<IUploadResultAPI> {
+    const endpoint = `rooms.upload/${roomId}`
+    try {
+      logger.debug(`[API] POST: ${endpoint}`)
+      if (!this.loggedIn()) await this.login()
+      const { data, filename } = await files.readSource(file, options.filename)
+      const form = files.encodeForm({
+        msg: options.msg,
+        description: options.description,
+        tmid: options.tmid
+      }, {
+        name: 'file',
+        filename,
+        contentType: options.contentType || files.getContentType(filename),
+        data
+      })
+      const headers = Object.assign({}, this.getHeaders(true), {
+        'Content-Type': form.contentType,
+        'Content-Length': form.body.length
+      })
+      const response = await this.requestRaw('POST', endpoint, headers, form.body)
+      let result: any
+      try {
+        result = JSON.parse(response.body.toString())
+      } catch (err) {
+        throw new errors.ResponseError(`[API] POST ${endpoint} result was not JSON`, {
+          method: 'POST',
+          endpoint,
+          status: response.status
+        }, response.body.toString())
+      }
+      if (!success(result)) {
+        throw errors.fromResult('POST', endpoint, result, { statusCode: response.status, headers: response.headers })
+      }
+      logger.debug('[API] POST result:', result)
+      return result
+    } catch (err) {
+      logger.error(`[API] POST error (${endpoint}):`, err)
+      throw err
+    }
+  }
+
+  /**
+   * Download a file from the server (e.g. a message attachment's link), with
+   * the auth of the current login. Resolves with the file contents.
+   * URLs on other hosts (e.g. external media in attachments) are fetched
+   * without auth, so the login is never sent outside the server.
+   * Rejects with a typed error (see `errors` module), even in legacy mode.
+   * @param url  Path on the host (e.g. `/file-upload/ID/name.csv`) or full URL
+   */
+  async download (url: string): Promise<Buffer> {
+    try {
+      logger.debug(`[API] GET: ${url}`)
+      let headers: { [name: string]: any } = {}
+      if (isOnHost(url, this.url)) {
+        if (!this.loggedIn()) await this.login()
+        headers = Object.assign({}, this.getHeaders(true), {
+          Cookie: `rc_uid=${this.authHeaders['X-User-Id']}; rc_token=${this.authHeaders['X-Auth-Token']}`
+        })
+        delete headers['Content-Type']
+      }
+      const response = await this.requestRaw('GET', url, headers)
+      if (response.status >= 400) {
+        throw errors.fromResult('GET', url, {
+          error: `Download failed: ${response.body.toString() || response.status}`
+        }, { statusCode: response.status, headers: response.headers })
+      }
+      return response.body
+    } catch (err) {
+      logger.error(`[API] GET error (${url}):`, err)
+      throw err
+    }
+  }
+
+  /**
+   * Download the file of a message attachment, from its title link (uploads)
+   * or media URL.
+   */
+  downloadAttachment (attachment: IAttachmentAPI): Promise<Buffer> {
+    const url = attachment.title_link || attachment.image_url || attachment.audio_url || attachment.video_url
+    if (!url) return Promise.reject(new Error('[API] Attachment has no file to download'))
+    return this.download(url)
+  }
+
+  /**
+   * Iterate all items from a `count`/`offset` list endpoint, requesting a page
+   * at a time as the items are consumed (see `pagination` module).
+   * @param endpoint  The list endpoint, e.g. `users.list`
+   * @param key       Key of the item array in results, e.g. `users`
+   * @param query     Other query params, e.g. `fields`, `sort` or `query`
+   * @param options   Page size and limit
+   */
+  paginate<T = any> (
+    endpoint: string,
+    key: string,
+    query?: object,
+    options?: pagination.IPageOptions
+  ): AsyncIterableIterator<T> {
+    return pagination.paginate<T>(this, endpoint, key, query, options)
+  }
+
+  /**
+   * Iterate all messages from a `latest`/`oldest` history endpoint (newest
+   * first), requesting a page at a time as the messages are consumed.
+   * @param endpoint  The history endpoint, e.g. `channels.history`
+   * @param query     Room ID and optional time range
+   * @param options   Page size and limit
+   */
+  paginateHistory (
+    endpoint: string,
+    query: IHistoryQueryAPI,
+    options?: pagination.IPageOptions
+  ): AsyncIterableIterator<IMessageReceiptAPI> {
+    return pagination.paginateHistory(this, endpoint, query, options)
+  }
+
+  /**
+   * Login a user for further API calls
+   * Result should come back with a token, to authorise following requests.
+   * Use instance default credentials, unless overridden by login arguments.
+   * Credentials are converted to the login payload by the first login strategy
+   * to accept them (see `auth` module), the same as for driver login.
+   * If the server requires a two-factor code, login is attempted again with a
+   * code from the `totp` options, or rejects with `TotpRequiredError`.
+   */
+  async login (
+    user: IAnyCredentials = this.credentials
+  ): Promise<ILoginResultAPI> {
+    if (auth.isTokenCredentials(user)) return this.loginWithToken(user)
+    const strategy = auth.getStrategy(user)
+    if (!strategy) throw new Error('[API] No login strategy accepts the credentials')
+    const username = (user as ICredentials).username || (user as ICredentials).email || ''
+    logger.info(`[API] Logging in ${username} (${strategy.name})`)
+    if (this.currentLogin !== null) {
+      logger.debug(`[API] Already logged in`)
+      if (username && this.currentLogin.username === username) {
+        return this.currentLogin.result
+      } else {
+        await this.logout()
+      }
+    }
+    const payload = (strategy.restPayload)
+      ? strategy.restPayload(user)
+      : strategy.payload(user)
+    const result = await totp.loginWithCode((code) => this.loginRequest(
+      (code) ? totp.restPayload(payload, code) : payload
+    ), (user as ICredentials).totp).catch((err) => {
+      logger.error(`[API] Login error:`, err)
+      throw err
     })
-    logger.debug('[API] GET result:', result)
-    return result
-  } catch (err) {
-    logger.error(`[API] GET error (${endpoint}):`, err)
+    if (result && result.data && result.data.authToken) {
+      return this.setLogin(username || getUsername(result), result)
+    } else {
+      throw new errors.AuthError(`[API] Login failed for ${username || strategy.name}`, {
+        method: 'POST',
+        endpoint: 'login',
+        result
+      })
+    }
   }
-}
 
-/**
- * Login a user for further API calls
- * Result should come back with a token, to authorise following requests.
- * Use env default credentials, unless overridden by login arguments.
- */
-export async function login (user: ILoginCredentials = {
-  username: settings.username,
-  password: settings.password
-}): Promise<ILoginResultAPI> {
-  logger.info(`[API] Logging in ${user.username}`)
-  if (currentLogin !== null) {
-    logger.debug(`[API] Already logged in`)
-    if (currentLogin.username === user.username) {
-      return currentLogin.result
+  /**
+   * POST credentials to the login endpoint, rejecting with a typed error that
+   * has the server's error details, so a two-factor code can be given if
+   * required.
+   */
+  loginRequest (data: object): Promise<any> {
+    logger.debug(`[API] POST: login`)
+    return this.request('POST', 'login', this.basicHeaders, data)
+  }
+
+  /**
+   * Login with a personal access token (with user ID) or a resume token.
+   * Personal access tokens are used directly as auth headers, confirmed by a
+   * request for the user's details. Resume tokens are exchanged for a new auth
+   * token from the login endpoint.
+   */
+  async loginWithToken (credentials: ITokenCredentials): Promise<ILoginResultAPI> {
+    if (this.currentLogin !== null) await this.logout()
+    if (credentials.token) {
+      if (!credentials.userId) {
+        throw new Error('[API] Personal access token login requires user ID')
+      }
+      logger.info(`[API] Logging in ID ${credentials.userId} with personal access token`)
+      const authData = { authToken: credentials.token, userId: credentials.userId }
+      this.setAuth(authData)
+      const me = await this.request('GET', 'me', this.getHeaders(true)).catch((err) => {
+        this.clearHeaders()
+        throw err
+      })
+      if (me._id !== credentials.userId) {
+        this.clearHeaders()
+        throw new errors.AuthError(`[API] Login failed for ID ${credentials.userId}`, {
+          method: 'GET',
+          endpoint: 'me',
+          result: me
+        })
+      }
+      return this.setLogin(me.username, { status: 'success', data: authData }, true)
+    }
+    logger.info(`[API] Logging in with resume token`)
+    const result = await this.loginRequest(auth.resumeStrategy.payload(credentials))
+    if (result && result.data && result.data.authToken) {
+      return this.setLogin(getUsername(result), result, true)
     } else {
-      await logout()
+      throw new errors.AuthError(`[API] Login failed with resume token`, {
+        method: 'POST',
+        endpoint: 'login',
+        result
+      })
     }
   }
-  const result = await post('login', user, false)
-  if (result && result.data && result.data.authToken) {
-    currentLogin = {
+
+  /** Keep details of a successful login and set auth headers for requests */
+  setLogin (username: string, result: ILoginResultAPI, token = false) {
+    this.currentLogin = {
       result: result, // keep to return if login requested again for same user
-      username: user.username, // keep to compare with following login attempt
+      username: username, // keep to compare with following login attempt
       authToken: result.data.authToken,
-      userId: result.data.userId
+      userId: result.data.userId,
+      token
     }
-    setAuth(currentLogin)
-    logger.info(`[API] Logged in ID ${ currentLogin.userId }`)
+    this.setAuth(this.currentLogin)
+    logger.info(`[API] Logged in ID ${ this.currentLogin.userId }`)
     return result
-  } else {
-    throw new Error(`[API] Login failed for ${user.username}`)
   }
-}
 
-/** Logout a user at end of API calls */
-export function logout () {
-  if (currentLogin === null) {
-    logger.debug(`[API] Already logged out`)
-    return Promise.resolve()
+  /**
+   * Get details of the current login, to reuse the session with another
+   * transport (e.g. `driver.useSession(api.getSession())`) or after restart.
+   * Returns null if not logged in.
+   */
+  getSession (): ISession | null {
+    if (this.currentLogin === null) return null
+    return {
+      userId: this.currentLogin.userId,
+      authToken: this.currentLogin.authToken
+    }
+  }
+
+  /**
+   * Use a session exported from the driver or another client, without login.
+   * The session's auth token is used directly as auth headers.
+   */
+  useSession (session: ISession): Promise<ILoginResultAPI> {
+    return this.loginWithToken({ userId: session.userId, token: session.authToken })
+  }
+
+  /**
+   * Logout a user at end of API calls.
+   * If logged in with a token, auth is only cleared locally, because logout on
+   * the server would destroy the token for any later use.
+   */
+  logout () {
+    if (this.currentLogin === null) {
+      logger.debug(`[API] Already logged out`)
+      return Promise.resolve()
+    }
+    if (this.currentLogin.token) {
+      logger.info(`[API] Clearing token login (token remains valid)`)
+      this.clearHeaders()
+      this.currentLogin = null
+      return Promise.resolve()
+    }
+    logger.info(`[API] Logging out ${ this.currentLogin.username }`)
+    const clear = () => {
+      this.clearHeaders()
+      this.currentLogin = null
+    }
+    return this.get('logout', null, true).then(clear, (err) => {
+      clear() // still clear auth, it can't be used if logout failed on server
+      throw err
+    })
   }
-  logger.info(`[API] Logging out ${ currentLogin.username }`)
-  return get('logout', null, true).then(() => {
-    clearHeaders()
-    currentLogin = null
-  })
 }
 
-/** Defaults for user queries */
-export const userFields = { name: 1, username: 1, status: 1, type: 1 }
+// DEFAULT INSTANCE
+// -----------------------------------------------------------------------------
+
+/**
+ * Default client, used by the module methods below.
+ * Uses host and credentials from env settings, and the default scheduler (the
+ * same as the default driver).
+ */
+export const defaultApi = new ApiClient({ scheduler: scheduler.defaultScheduler })
+
+/** Details of the current API session (default client) */
+export declare let currentLogin: ICurrentLogin | null
+
+exportLive(exports, defaultApi, ['currentLogin'])
+
+/** Initialise client and configs (of the default client) */
+export const client = defaultApi.client
+export const host = defaultApi.host
+export const url = defaultApi.url
 
-/** Query helpers for user collection requests */
-export const users: any = {
-  all: (fields: any = userFields) => get('users.list', { fields }).then((r) => r.users),
-  allNames: () => get('users.list', { fields: { 'username': 1 } }).then((r) => r.users.map((u: IUserAPI) => u.username)),
-  allIDs: () => get('users.list', { fields: { '_id': 1 } }).then((r) => r.users.map((u: IUserAPI) => u._id)),
-  online: (fields: any = userFields) => get('users.list', { fields, query: { 'status': { $ne: 'offline' } } }).then((r) => r.users),
-  onlineNames: () => get('users.list', { fields: { 'username': 1 }, query: { 'status': { $ne: 'offline' } } }).then((r) => r.users.map((u: IUserAPI) => u.username)),
-  onlineIds: () => get('users.list', { fields: { '_id': 1 }, query: { 'status': { $ne: 'offline' } } }).then((r) => r.users.map((u: IUserAPI) => u._id))
+/** Default headers (of the default client) */
+export const basicHeaders = defaultApi.basicHeaders
+export const authHeaders = defaultApi.authHeaders
+
+/** Query helpers for user collection requests (default client) */
+export const users = defaultApi.users
+
+/** Typed requests for channel, group, IM and chat endpoints (default client) */
+export const channels = defaultApi.channels
+export const groups = defaultApi.groups
+export const im = defaultApi.im
+export const chat = defaultApi.chat
+
+/** Check for existing login */
+export function loggedIn (): boolean {
+  return defaultApi.loggedIn()
+}
+
+/** Populate auth headers (from response data on login) */
+export function setAuth (authData: { authToken: string, userId: string }) {
+  return defaultApi.setAuth(authData)
+}
+
+/** Join basic headers with auth headers if required */
+export function getHeaders (authRequired = false) {
+  return defaultApi.getHeaders(authRequired)
+}
+
+/** Clear headers so they can't be used without logging in again */
+export function clearHeaders () {
+  return defaultApi.clearHeaders()
+}
+
+/** Iterate all items from a list endpoint (default client) */
+export function paginate<T = any> (
+  endpoint: string,
+  key: string,
+  query?: object,
+  options?: pagination.IPageOptions
+): AsyncIterableIterator<T> {
+  return defaultApi.paginate<T>(endpoint, key, query, options)
+}
+
+/** Iterate all messages from a history endpoint (default client) */
+export function paginateHistory (
+  endpoint: string,
+  query: IHistoryQueryAPI,
+  options?: pagination.IPageOptions
+): AsyncIterableIterator<IMessageReceiptAPI> {
+  return defaultApi.paginateHistory(endpoint, query, options)
+}
+
+/** Upload a file to a room (default client) */
+export function upload (
+  roomId: string,
+  file: files.IFileSource,
+  options?: files.IUploadOptions
+): Promise<IUploadResultAPI> {
+  return defaultApi.upload(roomId, file, options)
+}
+
+/** Download a file from the server (default client) */
+export function download (url: string): Promise<Buffer> {
+  return defaultApi.download(url)
+}
+
+/** Download the file of a message attachment (default client) */
+export function downloadAttachment (attachment: IAttachmentAPI): Promise<Buffer> {
+  return defaultApi.downloadAttachment(attachment)
+}
+
+/** Do a POST request to an API endpoint. */
+export function post (
+  endpoint: string,
+  data: any,
+  auth: boolean = true,
+  ignore?: RegExp
+): Promise<any> {
+  return defaultApi.post(endpoint, data, auth, ignore)
+}
+
+/** Do a GET request to an API endpoint */
+export function get (
+  endpoint: string,
+  data?: any,
+  auth: boolean = true,
+  ignore?: RegExp
+): Promise<any> {
+  return defaultApi.get(endpoint, data, auth, ignore)
+}
+
+/** Login a user for further API calls */
+export function login (user?: IAnyCredentials): Promise<ILoginResultAPI> {
+  return defaultApi.login(user)
+}
+
+/** Login with a personal access token (with user ID) or a resume token */
+export function loginWithToken (credentials: ITokenCredentials): Promise<ILoginResultAPI> {
+  return defaultApi.loginWithToken(credentials)
+}
+
+/** Get details of the current login, to reuse the session */
+export function getSession (): ISession | null {
+  return defaultApi.getSession()
+}
+
+/** Use a session exported from the driver or another client, without login */
+export function useSession (session: ISession): Promise<ILoginResultAPI> {
+  return defaultApi.useSession(session)
+}
+
+/** Logout a user at end of API calls */
+export function logout () {
+  return defaultApi.logout()
 }
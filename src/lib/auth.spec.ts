@@ -0,0 +1,130 @@
+import 'mocha'
+import { expect } from 'chai'
+import { createHash } from 'crypto'
+import * as auth from './auth'
+
+const sha256 = (text) => createHash('sha256').update(text).digest('hex')
+const defaultStrategies = auth.strategies.slice()
+
+describe('auth', () => {
+  afterEach(() => auth.strategies.splice(0, auth.strategies.length, ...defaultStrategies))
+  describe('.isTokenCredentials', () => {
+    it('returns true for personal access or resume tokens', () => {
+      expect(auth.isTokenCredentials({ userId: 'test', token: 'test' })).to.equal(true)
+      expect(auth.isTokenCredentials({ resume: 'test' })).to.equal(true)
+    })
+    it('returns false for username and password', () => {
+      expect(auth.isTokenCredentials({ username: 'test', password: 'test' })).to.equal(false)
+    })
+  })
+  describe('.getStrategy', () => {
+    it('returns password strategy for username and password', () => {
+      const strategy = auth.getStrategy({ username: 'bot', password: 'pass' })
+      expect(strategy).to.equal(auth.passwordStrategy)
+    })
+    it('returns password strategy if LDAP is not enabled', () => {
+      const strategy = auth.getStrategy({ username: 'bot', password: 'pass', ldap: false })
+      expect(strategy).to.equal(auth.passwordStrategy)
+    })
+    it('returns LDAP strategy if LDAP is enabled', () => {
+      const strategy = auth.getStrategy({ username: 'bot', password: 'pass', ldap: true })
+      expect(strategy).to.equal(auth.ldapStrategy)
+    })
+    it('returns resume strategy for tokens', () => {
+      expect(auth.getStrategy({ userId: 'id', token: 'token' })).to.equal(auth.resumeStrategy)
+      expect(auth.getStrategy({ resume: 'token' })).to.equal(auth.resumeStrategy)
+    })
+    it('returns OAuth strategy for service and access token', () => {
+      const strategy = auth.getStrategy({ serviceName: 'google', accessToken: 'token' })
+      expect(strategy).to.equal(auth.oauthStrategy)
+    })
+    it('returns custom strategy for credentials with payload', () => {
+      const strategy = auth.getStrategy({ payload: { cas: { credentialToken: 'token' } } })
+      expect(strategy).to.equal(auth.customStrategy)
+    })
+    it('returns undefined if no strategy accepts credentials', () => {
+      expect(auth.getStrategy({ username: 'bot' } as any)).to.equal(undefined)
+    })
+  })
+  describe('.useStrategy', () => {
+    const samlStrategy = {
+      name: 'saml',
+      accepts: (credentials) => !!credentials.credentialToken,
+      payload: (credentials) => ({ saml: true, credentialToken: credentials.credentialToken })
+    }
+    it('adds strategy taking precedence over others', () => {
+      auth.useStrategy(samlStrategy)
+      expect(auth.strategies[0]).to.equal(samlStrategy)
+      expect(auth.getStrategy({ credentialToken: 'token' } as any)).to.equal(samlStrategy)
+    })
+    it('replaces existing strategy with the same name', () => {
+      auth.useStrategy(samlStrategy)
+      auth.useStrategy(Object.assign({}, samlStrategy))
+      const named = auth.strategies.filter((strategy) => strategy.name === 'saml')
+      expect(named).to.have.lengthOf(1)
+    })
+  })
+  describe('.removeStrategy', () => {
+    it('removes strategy by name', () => {
+      auth.removeStrategy('oauth')
+      expect(auth.getStrategy({ serviceName: 'google', accessToken: 'token' })).to.equal(undefined)
+    })
+  })
+  describe('.passwordStrategy', () => {
+    it('hashes password for DDP login with username', () => {
+      expect(auth.passwordStrategy.payload({ username: 'bot', password: 'pass' })).to.eql({
+        user: { username: 'bot' },
+        password: { digest: sha256('pass'), algorithm: 'sha-256' }
+      })
+    })
+    it('uses email instead of username if given', () => {
+      const payload: any = auth.passwordStrategy.payload({ email: 'bot@localhost', password: 'pass' })
+      expect(payload.user).to.eql({ email: 'bot@localhost' })
+    })
+    it('sends password as given for REST login', () => {
+      expect(auth.passwordStrategy.restPayload({ username: 'bot', password: 'pass' })).to.eql({
+        username: 'bot',
+        password: 'pass'
+      })
+    })
+  })
+  describe('.ldapStrategy', () => {
+    it('sends LDAP username, password and options', () => {
+      expect(auth.ldapStrategy.payload({
+        username: 'bot',
+        password: 'pass',
+        ldap: true,
+        ldapOptions: { domain: 'example' }
+      })).to.eql({
+        ldap: true,
+        username: 'bot',
+        ldapPass: 'pass',
+        ldapOptions: { domain: 'example' }
+      })
+    })
+    it('defaults to empty LDAP options', () => {
+      const payload: any = auth.ldapStrategy.payload({ username: 'bot', password: 'pass', ldap: true })
+      expect(payload.ldapOptions).to.eql({})
+    })
+  })
+  describe('.oauthStrategy', () => {
+    it('sends service name and access token', () => {
+      const payload: any = auth.oauthStrategy.payload({ serviceName: 'github', accessToken: 'token' })
+      expect(payload.oauth).to.include({ serviceName: 'github', accessToken: 'token' })
+    })
+  })
+  describe('.resumeStrategy', () => {
+    it('sends personal access token as resume token', () => {
+      expect(auth.resumeStrategy.payload({ userId: 'id', token: 'token' })).to.eql({ resume: 'token' })
+    })
+    it('sends resume token', () => {
+      expect(auth.resumeStrategy.payload({ resume: 'token' })).to.eql({ resume: 'token' })
+    })
+  })
+  describe('.customStrategy', () => {
+    it('sends the payload as given', () => {
+      const payload = { saml: true, credentialToken: 'token' }
+      expect(auth.customStrategy.payload({ payload })).to.equal(payload)
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import { createHash } from 'crypto'
+import {
+  IAnyCredentials,
+  ICredentials,
+  ITokenCredentials,
+  IOAuthCredentials,
+  ICustomCredentials
+} from '../config/asteroidInterfaces'
+
+/**
+ * Login strategy type, converting credentials to login method parameters.
+ * @param name        Identifies the strategy in logs
+ * @param accepts     Check if the strategy can login with the credentials
+ * @param payload     Get parameters for the DDP `login` method
+ * @param restPayload Get body for the REST `login` endpoint (if different)
+ */
+export interface ILoginStrategy {
+  name: string,
+  accepts: (credentials: any) => boolean,
+  payload: (credentials: any) => object,
+  restPayload?: (credentials: any) => object
+}
+
+/** Check if credentials are for login with a token instead of password */
+export function isTokenCredentials (credentials: object): credentials is ITokenCredentials {
+  return (
+    typeof (credentials as ITokenCredentials).token !== 'undefined' ||
+    typeof (credentials as ITokenCredentials).resume !== 'undefined'
+  )
+}
+
+/** Login with a personal access token or resume token (both sent as resume) */
+export const resumeStrategy: ILoginStrategy = {
+  name: 'resume',
+  accepts: (credentials: object) => isTokenCredentials(credentials),
+  payload: (credentials: ITokenCredentials) => ({
+    resume: credentials.token || credentials.resume
+  })
+}
+
+/** Login with a custom payload, passed to the login method as given */
+export const customStrategy: ILoginStrategy = {
+  name: 'custom',
+  accepts: (credentials: { payload?: any }) => (
+    !!credentials.payload && typeof credentials.payload === 'object'
+  ),
+  payload: (credentials: ICustomCredentials) => credentials.payload
+}
+
+/** Login with an OAuth service access token */
+export const oauthStrategy: ILoginStrategy = {
+  name: 'oauth',
+  accepts: (credentials: IOAuthCredentials) => (
+    !!credentials.serviceName && !!credentials.accessToken
+  ),
+  payload: (credentials: IOAuthCredentials) => ({
+    oauth: {
+      serviceName: credentials.serviceName,
+      accessToken: credentials.accessToken,
+      idToken: credentials.idToken,
+      expiresIn: credentials.expiresIn,
+      accessTokenSecret: credentials.accessTokenSecret
+    }
+  })
+}
+
+/** Login with LDAP username (or email) and password, if LDAP enabled */
+export const ldapStrategy: ILoginStrategy = {
+  name: 'ldap',
+  accepts: (credentials: ICredentials) => (
+    !!credentials.ldap && !!credentials.password
+  ),
+  payload: (credentials: ICredentials) => ({
+    ldap: true,
+    username: credentials.email || credentials.username,
+    ldapPass: credentials.password,
+    ldapOptions: credentials.ldapOptions || {}
+  })
+}
+
+/**
+ * Login with username (or email) and password.
+ * Password is hashed for the DDP method, the REST endpoint takes it as given.
+ */
+export const passwordStrategy: ILoginStrategy = {
+  name: 'password',
+  accepts: (credentials: ICredentials) => (
+    !!(credentials.username || credentials.email) && !!credentials.password
+  ),
+  payload: (credentials: ICredentials) => ({
+    user: (credentials.email)
+      ? { email: credentials.email }
+      : { username: credentials.username },
+    password: {
+      digest: createHash('sha256').update(credentials.password).digest('hex'),
+      algorithm: 'sha-256'
+    }
+  }),
+  restPayload: (credentials: ICredentials) => (credentials.email)
+    ? { user: credentials.email, password: credentials.password }
+    : { username: credentials.username, password: credentials.password }
+}
+
+/** Strategies in order of precedence, the first to accept credentials is used */
+export const strategies: ILoginStrategy[] = [
+  resumeStrategy,
+  customStrategy,
+  oauthStrategy,
+  ldapStrategy,
+  passwordStrategy
+]
+
+/**
+ * Add a login strategy, taking precedence over existing strategies.
+ * Replaces any existing strategy with the same name.
+ * @param strategy Strategy to add
+ */
+export function useStrategy (strategy: ILoginStrategy): void {
+  removeStrategy(strategy.name)
+  strategies.unshift(strategy)
+}
+
+/**
+ * Remove a login strategy by name.
+ * @param name Name of the strategy to remove
+ */
+export function removeStrategy (name: string): void {
+  const index = strategies.findIndex((strategy) => strategy.name === name)
+  if (index !== -1) strategies.splice(index, 1)
+}
+
+/**
+ * Get the first strategy accepting the credentials, if any.
+ * @param credentials Credentials given to login
+ */
+export function getStrategy (credentials: IAnyCredentials): ILoginStrategy | undefined {
+  return strategies.find((strategy) => strategy.accepts(credentials))
+}
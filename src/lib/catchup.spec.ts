@@ -0,0 +1,58 @@
+import 'mocha'
+import { expect } from 'chai'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { unlink } from 'fs'
+import { silence } from './log'
+import * as catchup from './catchup'
+
+silence() // suppress log during tests (disable this while developing tests)
+
+describe('catchup', () => {
+  describe('FileReadStore', () => {
+    const path = join(tmpdir(), `reads-${process.pid}.json`)
+    afterEach((done) => unlink(path, () => done()))
+    it('loads empty read times if no file', async () => {
+      expect(await new catchup.FileReadStore(path).load()).to.eql({})
+    })
+    it('saves and loads read times', async () => {
+      await new catchup.FileReadStore(path).save({ RID: { time: 1000, roomType: 'c' } })
+      expect(await new catchup.FileReadStore(path).load()).to.eql({ RID: { time: 1000, roomType: 'c' } })
+    })
+  })
+  describe('ReadTracker', () => {
+    it('marks read times by room, only moving forward', async () => {
+      const reads = new catchup.ReadTracker()
+      await reads.mark('RID', new Date(2000), 'c')
+      await reads.mark('RID', new Date(1000))
+      expect(reads.get('RID')).to.equal(2000)
+      expect(reads.get('OTHER')).to.equal(undefined)
+      expect(reads.roomIds()).to.eql(['RID'])
+    })
+    it('saves to the store and restores, keeping later times', async () => {
+      const store = new catchup.MemoryReadStore()
+      store.states = { RID: { time: 1000, roomType: 'c' }, OTHER: { time: 3000 } }
+      const reads = new catchup.ReadTracker(store)
+      await reads.mark('OTHER', new Date(2000))
+      await reads.restore()
+      expect(reads.get('RID')).to.equal(1000)
+      expect(reads.get('OTHER')).to.equal(3000)
+      await reads.mark('RID', new Date(4000))
+      expect(store.states.RID).to.eql({ time: 4000, roomType: 'c' })
+    })
+    it('holds a room until a task is done', async () => {
+      const reads = new catchup.ReadTracker()
+      const calls: string[] = []
+      let finish = () => undefined
+      reads.hold('RID', () => new Promise<void>((resolve) => {
+        finish = () => resolve()
+      }).then(() => { calls.push('task') }))
+      const ready = reads.ready('RID').then(() => { calls.push('ready') })
+      await reads.ready('OTHER')
+      expect(calls).to.eql([])
+      finish()
+      await ready
+      expect(calls).to.eql(['task', 'ready'])
+    })
+  })
+})
@@ -0,0 +1,141 @@
+import { readJson, writeJson } from '../utils/json'
+import { logger } from './log'
+
+/**
+ * Last processed message in a room, to catch up on messages after it.
+ * @param time      Time (ms) of the last message processed (or edit)
+ * @param roomType  Type of the room, given as meta to missed messages
+ */
+export interface IReadState {
+  time: number,
+  roomType?: string
+}
+
+/** Last processed message by room ID */
+export interface IReadStates {
+  [roomId: string]: IReadState
+}
+
+/**
+ * Persistence backend for read times. All rooms are saved on each change, then
+ * loaded once when first used.
+ */
+export interface IReadStore {
+  load: () => Promise<IReadStates>,
+  save: (states: IReadStates) => Promise<void>
+}
+
+/** Keeps read times in memory only (lost when the process exits) */
+export class MemoryReadStore implements IReadStore {
+  states: IReadStates = {}
+  load (): Promise<IReadStates> {
+    return Promise.resolve(Object.assign({}, this.states))
+  }
+  save (states: IReadStates): Promise<void> {
+    this.states = Object.assign({}, states)
+    return Promise.resolve()
+  }
+}
+
+/**
+ * Keeps read times in a JSON file, so missed messages can be caught up after
+ * a process restart.
+ * @param path  Location of the file, created when first saved
+ */
+export class FileReadStore implements IReadStore {
+  path: string
+  constructor (path: string) {
+    this.path = path
+  }
+  load (): Promise<IReadStates> {
+    return readJson(this.path, {})
+  }
+  save (states: IReadStates): Promise<void> {
+    return writeJson(this.path, states)
+  }
+}
+
+/**
+ * Tracks the last message processed in each room, saved to a store, so
+ * messages missed while offline can be fetched and replayed after it. Rooms
+ * can be held while catching up, so new messages wait until missed ones are
+ * done (keeping them in order).
+ * @example
+ *  const reads = new ReadTracker(new FileReadStore('./reads.json'))
+ *  const driver = new Driver({ reads })
+ */
+export class ReadTracker {
+  store: IReadStore
+  states: IReadStates = {}
+  private restored?: Promise<void>
+  private saving: Promise<void> = Promise.resolve()
+  private saveQueued = false
+  private holds: Map<string, Promise<void>> = new Map()
+
+  constructor (store: IReadStore = new MemoryReadStore()) {
+    this.store = store
+  }
+
+  /** Load read times from the store, once, keeping any later ones since */
+  restore (): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.store.load()
+        .then((states) => {
+          for (let roomId in states) {
+            const current = this.states[roomId]
+            if (!current || current.time < states[roomId].time) this.states[roomId] = states[roomId]
+          }
+        })
+        .catch((err: Error) => logger.error(`[catchup] Failed to restore read times: ${err.message}`))
+    }
+    return this.restored
+  }
+
+  /** Get time (ms) of the last message processed in a room, if any */
+  get (roomId: string): number | undefined {
+    const state = this.states[roomId]
+    return (state) ? state.time : undefined
+  }
+
+  /** Get IDs of rooms with a read time */
+  roomIds (): string[] {
+    return Object.keys(this.states)
+  }
+
+  /** Record a message processed in a room, if later than the last, and save */
+  mark (roomId: string, time: Date, roomType?: string): Promise<void> {
+    const current = this.states[roomId]
+    if (current && current.time >= time.getTime()) return this.saving
+    this.states[roomId] = { time: time.getTime(), roomType: roomType || (current && current.roomType) }
+    return this.save()
+  }
+
+  /** Hold new messages in a room while a task runs (e.g. catching up) */
+  hold (roomId: string, task: () => Promise<void>): Promise<void> {
+    const held = (this.holds.get(roomId) || Promise.resolve()).then(task)
+    const done = held.catch(() => null).then(() => {
+      if (this.holds.get(roomId) === done) this.holds.delete(roomId)
+    })
+    this.holds.set(roomId, done)
+    return held
+  }
+
+  /** Resolves when read times are restored and a room is not held */
+  ready (roomId: string): Promise<void> {
+    return this.restore().then(() => this.holds.get(roomId))
+  }
+
+  /** Save all read times after any save in progress, once for queued changes */
+  private save (): Promise<void> {
+    if (this.saveQueued) return this.saving
+    this.saveQueued = true
+    this.saving = this.saving
+      .catch(() => null)
+      .then(() => this.restore())
+      .then(() => {
+        this.saveQueued = false
+        return this.store.save(Object.assign({}, this.states))
+      })
+    return this.saving
+  }
+}
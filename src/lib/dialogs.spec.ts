@@ -0,0 +1,142 @@
+import 'mocha'
+import sinon from 'sinon'
+import { expect } from 'chai'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { unlink } from 'fs'
+import { silence } from './log'
+import * as dialogs from './dialogs'
+
+silence() // suppress log during tests (disable this while developing tests)
+
+const message = (msg, tmid?) => ({ _id: 'MID', rid: 'RID', msg, tmid, u: { _id: 'UID', username: 'user' } })
+const tick = () => new Promise((resolve) => setImmediate(resolve))
+
+describe('dialogs', () => {
+  describe('.matchReply', () => {
+    it('matches any reply without match option', () => {
+      expect(dialogs.matchReply('anything')).to.eql({ matched: true })
+    })
+    it('matches patterns, choices and functions', () => {
+      expect(dialogs.matchReply('v1.2', /^v(\d+)/)).to.have.property('matched', true)
+      expect(dialogs.matchReply('Staging', ['staging', 'production'])).to.eql({ matched: true })
+      expect(dialogs.matchReply('dev', ['staging', 'production'])).to.eql({ matched: false })
+      expect(dialogs.matchReply('12', (text) => !isNaN(Number(text)))).to.eql({ matched: true })
+    })
+  })
+  describe('.getDialogKey', () => {
+    it('joins room, user and thread IDs', () => {
+      expect(dialogs.getDialogKey('RID', 'UID')).to.equal('RID/UID')
+      expect(dialogs.getDialogKey('RID', 'UID', 'TMID')).to.equal('RID/UID/TMID')
+    })
+  })
+  describe('FileDialogStore', () => {
+    const path = join(tmpdir(), `dialogs-${process.pid}.json`)
+    afterEach((done) => unlink(path, () => done()))
+    it('loads empty states if no file', async () => {
+      expect(await new dialogs.FileDialogStore(path).load()).to.eql({})
+    })
+    it('saves and loads states', async () => {
+      await new dialogs.FileDialogStore(path).save({ 'RID/UID': { env: 'staging' } })
+      expect(await new dialogs.FileDialogStore(path).load()).to.eql({ 'RID/UID': { env: 'staging' } })
+    })
+  })
+  describe('DialogManager', () => {
+    let driver
+    let manager
+    beforeEach(() => {
+      driver = {
+        sendToRoomId: sinon.stub().resolves({}),
+        respondToMessages: sinon.stub().resolves()
+      }
+      manager = new dialogs.DialogManager(driver, { timeout: 1000 })
+    })
+    it('resolves prompts with the next reply from the user', async () => {
+      const result = manager.start(message('deploy'), async (dialog) => {
+        const env = await dialog.ask('Which environment?')
+        return env.text
+      })
+      await tick()
+      expect(manager.handle(message('staging'))).to.equal(true)
+      expect(await result).to.equal('staging')
+      sinon.assert.calledWithExactly(driver.sendToRoomId, 'Which environment?', 'RID', undefined)
+    })
+    it('answers replies that do not match with retry message', async () => {
+      const result = manager.start(message('deploy'), (dialog) => dialog.ask('Which?', { match: ['a', 'b'] }))
+      await tick()
+      manager.handle(message('c'))
+      manager.handle(message('B'))
+      expect((await result).text).to.equal('B')
+      expect(driver.sendToRoomId.secondCall.args[0]).to.equal('Please answer one of: a, b')
+    })
+    it('confirms yes or no', async () => {
+      const result = manager.start(message('deploy'), (dialog) => dialog.confirm('Sure?'))
+      await tick()
+      manager.handle(message('no'))
+      expect(await result).to.equal(false)
+    })
+    it('ignores messages from other users, rooms and threads', async () => {
+      manager.start(message('deploy'), (dialog) => dialog.ask('Which?'))
+      await tick()
+      expect(manager.handle(Object.assign(message('a'), { u: { _id: 'OTHER' } }))).to.equal(false)
+      expect(manager.handle(Object.assign(message('a'), { rid: 'OTHER' }))).to.equal(false)
+      expect(manager.handle(message('a', 'TMID'))).to.equal(false)
+    })
+    it('keeps dialogs in threads separate and replies in thread', async () => {
+      const result = manager.start(message('deploy', 'TMID'), (dialog) => dialog.ask('Which?'))
+      await tick()
+      expect(manager.handle(message('a'))).to.equal(false)
+      expect(manager.handle(message('a', 'TMID'))).to.equal(true)
+      await result
+      sinon.assert.calledWithExactly(driver.sendToRoomId, 'Which?', 'RID', 'TMID')
+    })
+    it('cancels with a cancel word', async () => {
+      const flow = sinon.spy()
+      const result = manager.start(message('deploy'), async (dialog) => {
+        await dialog.ask('Which?')
+        flow()
+      })
+      await tick()
+      manager.handle(message('Cancel'))
+      expect(await result).to.equal(undefined)
+      sinon.assert.notCalled(flow)
+      sinon.assert.calledWith(driver.sendToRoomId, 'Cancelled')
+      expect(manager.dialogs.size).to.equal(0)
+    })
+    it('times out waiting for a reply', async () => {
+      const clock = sinon.useFakeTimers(0)
+      const result = manager.start(message('deploy'), (dialog) => dialog.ask('Which?'))
+      await Promise.resolve() // let flow start
+      await Promise.resolve()
+      await Promise.resolve()
+      clock.tick(1000)
+      clock.restore()
+      expect(await result).to.equal(undefined)
+      sinon.assert.calledWith(driver.sendToRoomId, 'Sorry, I stopped waiting for a reply')
+    })
+    it('replaces an active dialog with the same user', async () => {
+      const first = manager.start(message('deploy'), (dialog) => dialog.ask('Which?'))
+      await tick()
+      manager.start(message('deploy'), (dialog) => dialog.ask('Which?'))
+      expect(await first).to.equal(undefined)
+    })
+    it('keeps state in the store', async () => {
+      const store = new dialogs.MemoryDialogStore()
+      manager = new dialogs.DialogManager(driver, { store })
+      await manager.start(message('deploy'), (dialog) => dialog.setState({ env: 'staging' }))
+      await manager.start(message('deploy'), (dialog) => expect(dialog.state).to.eql({ env: 'staging' }))
+      expect(await store.load()).to.eql({ 'RID/UID': { env: 'staging' } })
+    })
+    it('.listen calls back with messages not used in dialogs', async () => {
+      const callback = sinon.spy()
+      await manager.listen(callback, { dm: true })
+      const respond = driver.respondToMessages.firstCall.args[0]
+      manager.start(message('deploy'), (dialog) => dialog.ask('Which?'))
+      await tick()
+      respond(null, message('a'), {})
+      respond(null, message('hello', 'TMID'), {})
+      sinon.assert.calledOnce(callback)
+      sinon.assert.calledWithMatch(driver.respondToMessages, sinon.match.func, { dm: true })
+    })
+  })
+})
@@ -0,0 +1,407 @@
+import { IMessage } from '../config/messageInterfaces'
+import { IRespondOptions, ICallback } from '../config/driverInterfaces'
+import { IMessageReceiptAPI } from '../utils/interfaces'
+import { Driver, defaultDriver } from './driver'
+import { readJson, writeJson } from '../utils/json'
+import { logger } from './log'
+import * as settings from './settings'
+
+/** State of dialogs by key, e.g. answers kept between prompts */
+export interface IDialogStates {
+  [key: string]: { [name: string]: any }
+}
+
+/**
+ * Persistence backend for dialog state. All states are saved on each change,
+ * then loaded once when the first dialog starts.
+ */
+export interface IDialogStore {
+  load: () => Promise<IDialogStates>,
+  save: (states: IDialogStates) => Promise<void>
+}
+
+/** Keeps dialog state in memory only (lost when the process exits) */
+export class MemoryDialogStore implements IDialogStore {
+  states: IDialogStates = {}
+  load (): Promise<IDialogStates> {
+    return Promise.resolve(Object.assign({}, this.states))
+  }
+  save (states: IDialogStates): Promise<void> {
+    this.states = Object.assign({}, states)
+    return Promise.resolve()
+  }
+}
+
+/**
+ * Keeps dialog state in a JSON file, so it survives a process restart.
+ * @param path  Location of the file, created when first saved
+ */
+export class FileDialogStore implements IDialogStore {
+  path: string
+  constructor (path: string) {
+    this.path = path
+  }
+  load (): Promise<IDialogStates> {
+    return readJson(this.path, {})
+  }
+  save (states: IDialogStates): Promise<void> {
+    return writeJson(this.path, states)
+  }
+}
+
+/**
+ * Dialog options.
+ * @param store        Backend for dialog state (default in memory)
+ * @param timeout      Time in ms to wait for a reply to a prompt
+ * @param cancelWords  Replies that cancel a dialog, e.g. `cancel`
+ * @param byThread     Keep separate dialogs in each thread (default true)
+ * @param cancelText   Message sent when a dialog is cancelled
+ * @param timeoutText  Message sent when a prompt times out
+ */
+export interface IDialogOptions {
+  store?: IDialogStore,
+  timeout?: number,
+  cancelWords?: string[],
+  byThread?: boolean,
+  cancelText?: string,
+  timeoutText?: string
+}
+
+/**
+ * Prompt options.
+ * @param match    Replies to accept: a pattern, a list of choices (case
+ *                 insensitive) or a function (default any reply)
+ * @param retry    Message sent for replies that don't match
+ * @param timeout  Time in ms to wait for a reply (default from dialog options)
+ */
+export interface IPromptOptions {
+  match?: RegExp | string[] | ((text: string) => boolean),
+  retry?: string,
+  timeout?: number
+}
+
+/**
+ * Reply to a prompt.
+ * @param text     Text of the reply (trimmed)
+ * @param match    Result of matching the prompt's pattern, if any
+ * @param message  The reply message
+ */
+export interface IDialogReply {
+  text: string,
+  match?: RegExpMatchArray,
+  message: IMessage
+}
+
+/** Prompt waiting for a reply */
+interface IPrompt {
+  options: IPromptOptions,
+  resolve: (reply: IDialogReply) => void,
+  reject: (err: any) => void,
+  timer: NodeJS.Timer
+}
+
+/**
+ * Dialog ended before a prompt was answered.
+ * @param reason  `cancelled` by the user, `timeout` waiting for a reply,
+ *                `replaced` by a new dialog or `ended` by the bot
+ */
+export class DialogEndedError extends Error {
+  reason: string
+  constructor (reason: string) {
+    super(`[dialogs] Dialog ${reason}`)
+    this.name = 'DialogEndedError'
+    this.reason = reason
+  }
+}
+
+/** Get the key of a dialog with a user in a room (and thread) */
+export function getDialogKey (roomId: string, userId: string, threadId?: string): string {
+  return [roomId, userId].concat(threadId ? [threadId] : []).join('/')
+}
+
+/** Check a reply against a prompt's match option */
+export function matchReply (
+  text: string,
+  match?: RegExp | string[] | ((text: string) => boolean)
+): { matched: boolean, match?: RegExpMatchArray } {
+  if (!match) return { matched: true }
+  if (match instanceof RegExp) {
+    const result = text.match(match)
+    return (result) ? { matched: true, match: result } : { matched: false }
+  }
+  if (Array.isArray(match)) {
+    return { matched: match.some((choice) => choice.toLowerCase() === text.toLowerCase()) }
+  }
+  return { matched: !!match(text) }
+}
+
+/**
+ * A conversation with a user in a room (and thread), with prompts that wait
+ * for their next reply, and state kept in the manager's store.
+ */
+export class Dialog {
+  key: string
+  roomId: string
+  userId: string
+  threadId?: string
+  manager: DialogManager
+
+  /** State of the dialog, saved with `setState` */
+  state: { [name: string]: any }
+
+  /** Prompt waiting for a reply, if any */
+  prompt?: IPrompt
+
+  /** Flag for the dialog ended, so no more prompts are sent */
+  ended = false
+
+  constructor (
+    manager: DialogManager,
+    message: IMessage,
+    threadId?: string,
+    state: { [name: string]: any } = {}
+  ) {
+    this.manager = manager
+    this.roomId = message.rid!
+    this.userId = message.u!._id
+    this.threadId = threadId
+    this.key = getDialogKey(this.roomId, this.userId, threadId)
+    this.state = state
+  }
+
+  /** Send a message to the user in the dialog's room (and thread) */
+  say (content: string | string[] | IMessage): Promise<IMessageReceiptAPI[] | IMessageReceiptAPI> {
+    return this.manager.driver.sendToRoomId(content, this.roomId, this.threadId)
+  }
+
+  /**
+   * Send a question and wait for the user's next reply that matches. Replies
+   * that don't match are answered with the retry message. Rejects with
+   * `DialogEndedError` if cancelled or timed out.
+   */
+  async ask (question: string | IMessage, options: IPromptOptions = {}): Promise<IDialogReply> {
+    if (this.ended) throw new DialogEndedError('ended')
+    await this.say(question)
+    return this.waitForReply(options)
+  }
+
+  /** Ask a yes or no question, resolving true for yes */
+  async confirm (question: string | IMessage, options: IPromptOptions = {}): Promise<boolean> {
+    const reply = await this.ask(question, Object.assign({
+      match: /^(y|yes|yep|ok|sure|confirm|n|no|nope)$/i,
+      retry: 'Please answer yes or no'
+    }, options))
+    return !/^n/i.test(reply.text)
+  }
+
+  /** Wait for the user's next reply that matches, without a question */
+  waitForReply (options: IPromptOptions = {}): Promise<IDialogReply> {
+    if (this.ended) return Promise.reject(new DialogEndedError('ended'))
+    if (this.prompt) this.prompt.reject(new DialogEndedError('replaced'))
+    const timeout = options.timeout || this.manager.options.timeout!
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => this.end('timeout'), timeout)
+      this.prompt = { options, resolve, reject, timer }
+    })
+  }
+
+  /**
+   * Give a reply to the waiting prompt, resolving it if the reply matches.
+   * Returns false if no prompt is waiting.
+   */
+  receive (message: IMessage): boolean {
+    const prompt = this.prompt
+    if (!prompt) return false
+    const text = (message.msg || '').trim()
+    const result = matchReply(text, prompt.options.match)
+    if (!result.matched) {
+      const choices = prompt.options.match
+      const retry = prompt.options.retry || ((Array.isArray(choices))
+        ? `Please answer one of: ${choices.join(', ')}`
+        : 'Sorry, I didn\'t understand that')
+      this.say(retry).catch((err) => logger.error(`[dialogs] Failed to send retry: ${err.message}`))
+      return true
+    }
+    clearTimeout(prompt.timer)
+    this.prompt = undefined
+    prompt.resolve({ text, match: result.match, message })
+    return true
+  }
+
+  /** Update and save the dialog's state */
+  setState (values: { [name: string]: any }): Promise<void> {
+    Object.assign(this.state, values)
+    return this.manager.saveState(this.key, this.state)
+  }
+
+  /** Clear the dialog's saved state */
+  clearState (): Promise<void> {
+    this.state = {}
+    return this.manager.saveState(this.key, undefined)
+  }
+
+  /** End the dialog, rejecting a waiting prompt with the reason */
+  end (reason = 'ended'): void {
+    if (this.ended) return
+    this.ended = true
+    if (this.prompt) {
+      clearTimeout(this.prompt.timer)
+      this.prompt.reject(new DialogEndedError(reason))
+      this.prompt = undefined
+    }
+  }
+}
+
+/** Function running a dialog, may return a promise */
+export type IDialogFlow = (dialog: Dialog) => any
+
+/**
+ * Runs dialogs, routing replies to their prompts, on top of the driver's
+ * message callbacks and send helpers. Dialogs are kept by room and user (and
+ * thread), so the same user can have separate dialogs in each.
+ * @example
+ *  const dialogs = new DialogManager(driver)
+ *  router.add({ name: 'deploy', handler: ({ message }) => dialogs.start(message, async (dialog) => {
+ *    const env = await dialog.ask('Which environment?', { match: ['staging', 'production'] })
+ *    if (await dialog.confirm(`Deploy to ${env.text}?`)) await dialog.say(await deploy(env.text))
+ *  }) })
+ *  await dialogs.listen((err, message, meta) => router.handle(message, meta))
+ */
+export class DialogManager {
+  /** Active dialogs by key */
+  dialogs: Map<string, Dialog> = new Map()
+
+  /** Driver to receive replies from and send with */
+  driver: Driver
+
+  /** Dialog options, with defaults */
+  options: IDialogOptions
+
+  /** Backend for dialog state */
+  store: IDialogStore
+
+  /** States of all dialogs, once loaded from the store */
+  states?: IDialogStates
+
+  /** Last save of states, so saves are written in order */
+  saving: Promise<void> = Promise.resolve()
+
+  constructor (driver: Driver = defaultDriver, options: IDialogOptions = {}) {
+    this.driver = driver
+    this.store = options.store || new MemoryDialogStore()
+    this.options = Object.assign({
+      timeout: settings.dialogTimeout,
+      cancelWords: settings.dialogCancelWords,
+      byThread: true,
+      cancelText: 'Cancelled',
+      timeoutText: 'Sorry, I stopped waiting for a reply'
+    }, options)
+  }
+
+  /** Get the active dialog for a message's room and user (and thread) */
+  get (message: IMessage): Dialog | undefined {
+    return this.dialogs.get(getDialogKey(message.rid!, message.u!._id, this.getThreadId(message)))
+  }
+
+  /**
+   * Start a dialog with the sender of a message, replacing any active dialog
+   * with them in the same room (and thread). Resolves with the result of the
+   * flow, or undefined if the dialog was cancelled or timed out.
+   */
+  async start (message: IMessage, flow: IDialogFlow): Promise<any> {
+    const threadId = this.getThreadId(message)
+    const previous = this.get(message)
+    if (previous) previous.end('replaced')
+    const states = await this.loadStates()
+    const key = getDialogKey(message.rid!, message.u!._id, threadId)
+    const dialog = new Dialog(this, message, threadId, states[key])
+    this.dialogs.set(key, dialog)
+    logger.info(`[dialogs] Started dialog ${key}`)
+    try {
+      return await flow(dialog)
+    } catch (err) {
+      if (!(err instanceof DialogEndedError)) throw err
+      logger.info(`[dialogs] Dialog ${key} ${err.reason}`)
+      if (err.reason === 'cancelled') await dialog.say(this.options.cancelText!)
+      if (err.reason === 'timeout') await dialog.say(this.options.timeoutText!)
+      return undefined
+    } finally {
+      dialog.end()
+      if (this.dialogs.get(key) === dialog) this.dialogs.delete(key)
+    }
+  }
+
+  /**
+   * Handle a message as a reply in an active dialog, cancelling it if the
+   * message is a cancel word. Returns true if the message was used.
+   */
+  handle (message: IMessage): boolean {
+    const dialog = this.get(message)
+    if (!dialog) return false
+    const text = (message.msg || '').trim().toLowerCase()
+    if (this.options.cancelWords!.some((word) => word.toLowerCase() === text)) {
+      dialog.end('cancelled')
+      return true
+    }
+    return dialog.receive(message)
+  }
+
+  /**
+   * Handle replies in dialogs, calling back with other messages, with filters
+   * for `respondToMessages`.
+   */
+  listen (callback?: ICallback, options?: IRespondOptions): Promise<void | void[]> {
+    return this.driver.respondToMessages((err, message, meta) => {
+      if (!err && this.handle(message)) return
+      if (callback) return callback(err, message, meta)
+    }, options)
+  }
+
+  /** Get saved state by dialog key (e.g. from `getDialogKey`) */
+  async getState (key: string): Promise<{ [name: string]: any } | undefined> {
+    const states = await this.loadStates()
+    return states[key]
+  }
+
+  /** Save state by dialog key, or remove it if undefined */
+  saveState (key: string, state?: { [name: string]: any }): Promise<void> {
+    this.saving = this.saving
+      .catch(() => null)
+      .then(() => this.loadStates())
+      .then((states) => {
+        if (state) states[key] = state
+        else delete states[key]
+        return this.store.save(states)
+      })
+    return this.saving
+  }
+
+  /** Load states from the store, once */
+  async loadStates (): Promise<IDialogStates> {
+    if (!this.states) this.states = await this.store.load()
+    return this.states
+  }
+
+  /** Get the thread to keep a message's dialog in, if any */
+  private getThreadId (message: IMessage): string | undefined {
+    return (this.options.byThread) ? message.tmid : undefined
+  }
+}
+
+/** Dialog manager for the default driver */
+export const defaultDialogs = new DialogManager()
+
+/** Start a dialog with the sender of a message (default driver). */
+export function start (message: IMessage, flow: IDialogFlow): Promise<any> {
+  return defaultDialogs.start(message, flow)
+}
+
+/** Handle a message as a reply in an active dialog (default driver). */
+export function handle (message: IMessage): boolean {
+  return defaultDialogs.handle(message)
+}
+
+/** Handle replies in dialogs, calling back with other messages (default driver). */
+export function listen (callback?: ICallback, options?: IRespondOptions): Promise<void | void[]> {
+  return defaultDialogs.listen(callback, options)
+}
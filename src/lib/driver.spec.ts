@@ -1,12 +1,15 @@
 import 'mocha'
+import { EventEmitter } from 'events'
 import sinon from 'sinon'
 import { expect } from 'chai'
-import { silence } from './log'
+import { silence, replaceLog } from './log'
 import { botUser, mockUser, apiUser } from '../utils/config'
 import * as api from './api'
 import * as utils from '../utils/testing'
 import * as driver from './driver'
 import * as methodCache from './methodCache'
+import * as auth from './auth'
+import { splitMessages } from './outgoing'
 
 const delay = (ms) => new Promise((resolve, reject) => setTimeout(resolve, ms))
 let clock
@@ -124,6 +127,45 @@ describe('driver', () => {
       expect(result.user.status).to.equal('online')
     })
   })
+  describe('.loginWithToken', () => {
+    it('logs in with a resume token from another session', async () => {
+      await driver.connect()
+      await driver.login()
+      const instance = new driver.Driver()
+      await instance.connect()
+      await instance.login({ resume: driver.getSession().authToken })
+      expect(instance.userId).to.equal(driver.userId)
+    })
+    it('rejects if token does not belong to given user ID', async () => {
+      await driver.connect()
+      await driver.login()
+      const instance = new driver.Driver()
+      await instance.connect()
+      const result = await instance.loginWithToken({
+        userId: 'not-the-bot',
+        resume: driver.getSession().authToken
+      }).catch((err) => err)
+      expect(result).to.be.an('error')
+    })
+  })
+  describe('.getSession', () => {
+    it('returns user ID and auth token after login', async () => {
+      await driver.connect()
+      const userId = await driver.login()
+      const session = driver.getSession()
+      expect(session.userId).to.equal(userId)
+      expect(session.authToken).to.be.a('string')
+    })
+  })
+  describe('.useSession', () => {
+    it('logs in with a session exported from the API', async () => {
+      const instance = new driver.Driver()
+      await instance.connect()
+      await api.login()
+      await instance.useSession(api.getSession())
+      expect(instance.userId).to.equal(api.currentLogin.userId)
+    })
+  })
   describe('.subscribeToMessages', () => {
     it('resolves with subscription object', async () => {
       await driver.connect()
@@ -455,4 +497,760 @@ describe('driver', () => {
       expect(driver.joinedIds).to.have.members(['GENERAL', tId])
     })
   })
+  describe('Driver', () => {
+    it('connects and logs in independently of the default driver', async () => {
+      const instance = new driver.Driver()
+      const asteroid = await instance.connect()
+      await instance.login()
+      expect(asteroid).to.not.equal(driver.asteroid)
+      expect(instance.methodCache.instance).to.equal(asteroid)
+      expect(instance.userId).to.be.a('string')
+      await instance.disconnect()
+    })
+  })
+  describe('.resume', () => {
+    it('restores login, rooms and subscriptions on a new connection', async () => {
+      const instance = new driver.Driver()
+      const resumed = sinon.spy()
+      instance.events.on('resumed', resumed)
+      const previous = await instance.connect()
+      await instance.login()
+      await instance.joinRooms([tName])
+      await instance.subscribeToMessages()
+      instance.reactToMessages(() => null)
+      await instance.resume()
+      expect(instance.asteroid).to.not.equal(previous)
+      expect(instance.joinedIds).to.eql([tId])
+      expect(instance.subscriptions).to.have.lengthOf(2) // messages and tracked rooms
+      expect(instance.userId).to.be.a('string')
+      sinon.assert.calledOnce(resumed)
+      await instance.disconnect()
+    })
+  })
+})
+
+describe('Driver', () => { // offline, with stubbed asteroid
+  it('creates instances with their own state', () => {
+    const driverA = new driver.Driver()
+    const driverB = new driver.Driver()
+    expect(driverA.methodCache).to.not.equal(driverB.methodCache)
+    expect(driverA.subscriptions).to.not.equal(driverB.subscriptions)
+    expect(driverA.joinedIds).to.not.equal(driverB.joinedIds)
+    expect(driverA.events).to.not.equal(driverB.events)
+    expect(driverA.scheduler).to.not.equal(driverB.scheduler)
+  })
+  it('schedules method calls by method name', async () => {
+    const instance: any = new driver.Driver()
+    const schedule = sinon.spy(instance.scheduler, 'schedule')
+    instance.asteroid = { apply: sinon.stub().returns({ result: Promise.resolve('ok') }) }
+    const result = await instance.asyncCall('getServerInfo', [])
+    expect(result).to.equal('ok')
+    sinon.assert.calledWith(schedule, 'getServerInfo')
+  })
+  describe('.login', () => {
+    context('with login strategies', () => {
+      let instance
+      let apply
+      const loginPayload = (payload) => sinon.match.has('0', sinon.match(payload)) // params of login call
+      beforeEach(() => {
+        instance = new driver.Driver()
+        apply = sinon.stub().returns({
+          result: Promise.resolve({ id: 'BOT_ID', token: 'TOKEN' })
+        })
+        instance.asteroid = { apply }
+      })
+      it('sends hashed password with username', async () => {
+        await instance.login({ username: 'bot', password: 'pass' })
+        sinon.assert.calledWithMatch(apply, 'login', loginPayload({
+          user: { username: 'bot' },
+          password: { algorithm: 'sha-256' }
+        }))
+      })
+      it('sends LDAP payload if LDAP enabled', async () => {
+        await instance.login({ username: 'bot', password: 'pass', ldap: true, ldapOptions: { a: 1 } })
+        sinon.assert.calledWithExactly(apply, 'login', [{
+          ldap: true,
+          username: 'bot',
+          ldapPass: 'pass',
+          ldapOptions: { a: 1 }
+        }])
+      })
+      it('sends OAuth service and access token', async () => {
+        await instance.login({ serviceName: 'github', accessToken: 'token' })
+        sinon.assert.calledWithMatch(apply, 'login', loginPayload({
+          oauth: { serviceName: 'github', accessToken: 'token' }
+        }))
+      })
+      it('sends resume token', async () => {
+        await instance.login({ resume: 'token' })
+        sinon.assert.calledWithExactly(apply, 'login', [{ resume: 'token' }])
+      })
+      it('sends custom payload as given', async () => {
+        await instance.login({ payload: { cas: { credentialToken: 'token' } } })
+        sinon.assert.calledWithExactly(apply, 'login', [{ cas: { credentialToken: 'token' } }])
+      })
+      it('uses added strategies', async () => {
+        auth.useStrategy({
+          name: 'saml',
+          accepts: (credentials) => !!credentials.credentialToken,
+          payload: (credentials) => ({ saml: true, credentialToken: credentials.credentialToken })
+        })
+        await instance.login({ credentialToken: 'token' })
+        auth.removeStrategy('saml')
+        sinon.assert.calledWithExactly(apply, 'login', [{ saml: true, credentialToken: 'token' }])
+      })
+      it('resolves with user ID and keeps auth token', async () => {
+        const userId = await instance.login({ username: 'bot', password: 'pass' })
+        expect(userId).to.equal('BOT_ID')
+        expect(instance.userId).to.equal('BOT_ID')
+        expect(instance.authToken).to.equal('TOKEN')
+      })
+      it('sends two-factor code with login payload if required', async () => {
+        apply.onFirstCall().returns({ result: Promise.reject({ error: 'totp-required' }) })
+        await instance.login({ username: 'bot', password: 'pass', totp: { code: '123456' } })
+        expect(apply.args.filter((args) => args[0] === 'login')).to.have.lengthOf(2)
+        sinon.assert.calledWithMatch(apply.secondCall, 'login', loginPayload({
+          totp: { code: '123456', login: { user: { username: 'bot' } } }
+        }))
+      })
+      it('gets two-factor code from callback if required', async () => {
+        const callback = sinon.stub().resolves('654321')
+        apply.onFirstCall().returns({ result: Promise.reject({ error: 'totp-required' }) })
+        await instance.login({ username: 'bot', password: 'pass', totp: { callback } })
+        sinon.assert.calledOnce(callback)
+        sinon.assert.calledWithMatch(apply.secondCall, 'login', loginPayload({ totp: { code: '654321' } }))
+      })
+      it('rejects with two-factor error if no code given', async () => {
+        apply.returns({ result: Promise.reject({ error: 'totp-required' }) })
+        const result = await instance.login({ username: 'bot', password: 'pass' })
+          .catch((err) => err)
+        expect(result.name).to.equal('TotpRequiredError')
+        expect(result.error).to.equal('totp-required')
+      })
+      it('rejects if no strategy accepts the credentials', async () => {
+        const result = await instance.login({ username: 'bot' }).catch((err) => err)
+        expect(result).to.be.an('error')
+        sinon.assert.notCalled(apply)
+      })
+    })
+  })
+  describe('.getSession', () => {
+    it('returns null before login', () => {
+      expect(new driver.Driver().getSession()).to.equal(null)
+    })
+  })
+  describe('.logout', () => {
+    context('after token login', () => {
+      let instance
+      let asteroid
+      let query
+      beforeEach(async () => {
+        instance = new driver.Driver()
+        query = { on: sinon.stub() }
+        asteroid = {
+          apply: sinon.stub().returns({ result: Promise.resolve({ id: 'BOT_ID', token: 'TOKEN' }) }),
+          logout: sinon.stub().resolves(null),
+          disconnect: sinon.stub().resolves(),
+          removeAllListeners: sinon.stub(),
+          subscribe: sinon.stub().returns({ ready: Promise.resolve('SID') }),
+          getCollection: sinon.stub().returns({ reactiveQuery: () => query })
+        }
+        instance.asteroid = asteroid
+        instance.connect = sinon.stub().resolves()
+        await instance.loginWithToken({ userId: 'BOT_ID', token: 'TOKEN' })
+      })
+      it('clears user ID and session', async () => {
+        await instance.logout()
+        expect(instance.userId).to.not.be.ok
+        expect(instance.getSession()).to.equal(null)
+        expect(instance.credentials).to.equal(undefined)
+      })
+      it('ends the DDP session by connecting again, keeping the token valid', async () => {
+        await instance.logout()
+        sinon.assert.calledOnce(asteroid.disconnect)
+        sinon.assert.calledOnce(instance.connect)
+        sinon.assert.notCalled(asteroid.logout)
+      })
+      it('tracks rooms again when logged in again, after subscriptions ended', async () => {
+        await instance.logout()
+        expect(instance.subscriptions).to.eql([])
+        await instance.loginWithToken({ userId: 'BOT_ID', token: 'TOKEN' })
+        sinon.assert.calledTwice(asteroid.subscribe)
+        sinon.assert.calledTwice(query.on)
+        expect(instance.subscriptions).to.have.lengthOf(1)
+      })
+    })
+  })
+  describe('.getBackoffDelay', () => {
+    const config = { reconnectDelay: 100, reconnectFactor: 2, reconnectMaxDelay: 1000 }
+    it('increases delay exponentially with each attempt', () => {
+      expect(driver.getBackoffDelay(1, config)).to.equal(100)
+      expect(driver.getBackoffDelay(2, config)).to.equal(200)
+      expect(driver.getBackoffDelay(4, config)).to.equal(800)
+    })
+    it('does not exceed the max delay', () => {
+      expect(driver.getBackoffDelay(10, config)).to.equal(1000)
+    })
+  })
+  describe('managed reconnect', () => {
+    let instance
+    beforeEach(() => {
+      instance = new driver.Driver()
+      instance.config = { reconnect: true, reconnectDelay: 100, reconnectFactor: 2 }
+      clock = sinon.useFakeTimers(0)
+    })
+    afterEach(() => clock.restore())
+    it('emits disconnected and reconnecting when connection is lost', () => {
+      const disconnected = sinon.spy()
+      const reconnecting = sinon.spy()
+      sinon.stub(instance, 'resume').resolves()
+      instance.events.on('disconnected', disconnected)
+      instance.events.on('reconnecting', reconnecting)
+      instance.handleDisconnect()
+      sinon.assert.calledOnce(disconnected)
+      sinon.assert.calledWithExactly(reconnecting, 1, 100)
+    })
+    it('attempts resume after the backoff delay', () => {
+      const resume = sinon.stub(instance, 'resume').resolves()
+      instance.handleDisconnect()
+      clock.tick(99)
+      sinon.assert.notCalled(resume)
+      clock.tick(1)
+      sinon.assert.calledOnce(resume)
+    })
+    it('retries with increased delay if resume fails', async () => {
+      const reconnecting = sinon.spy()
+      const resume = sinon.stub(instance, 'resume')
+      resume.onCall(0).rejects(new Error('failed'))
+      resume.onCall(1).resolves()
+      instance.events.on('reconnecting', reconnecting)
+      instance.handleDisconnect()
+      clock.tick(100)
+      await Promise.resolve() // let rejection handler run
+      await Promise.resolve()
+      sinon.assert.calledWithExactly(reconnecting, 2, 200)
+      clock.tick(200)
+      sinon.assert.calledTwice(resume)
+    })
+    it('does not reconnect unless configured', () => {
+      const resume = sinon.stub(instance, 'resume').resolves()
+      instance.config = { reconnect: false }
+      instance.handleDisconnect()
+      clock.tick(60000)
+      sinon.assert.notCalled(resume)
+    })
+    it('does not reconnect after disconnect is called', () => {
+      const disconnected = sinon.spy()
+      instance.closing = true
+      instance.events.on('disconnected', disconnected)
+      instance.handleDisconnect()
+      sinon.assert.notCalled(disconnected)
+    })
+  })
+  describe('outbox', () => {
+    let instance
+    let apply
+    beforeEach(() => {
+      instance = new driver.Driver()
+      apply = sinon.stub().returns({ result: Promise.resolve({ _id: 'MID' }) })
+      instance.asteroid = { apply }
+    })
+    it('queues messages while disconnected', async () => {
+      instance.connected = false
+      instance.sendMessage({ rid: 'RID', msg: 'hello' })
+      await instance.outbox.restore()
+      sinon.assert.notCalled(apply)
+      expect(instance.outbox.pending()).to.equal(1)
+    })
+    it('gives messages a client generated ID', async () => {
+      instance.connected = true
+      const message = { rid: 'RID', msg: 'hello' }
+      await instance.sendMessage(message)
+      expect(message).to.have.property('_id').with.lengthOf(17)
+      expect(apply.firstCall.args[1][0]._id).to.equal(message['_id'])
+    })
+    it('sends queued messages in order with the same IDs when flushed', async () => {
+      instance.connected = false
+      const first = instance.sendMessage({ _id: 'one', rid: 'RID', msg: 'one' })
+      const second = instance.sendMessage({ _id: 'two', rid: 'RID', msg: 'two' })
+      instance.connected = true
+      await instance.flushOutbox()
+      await Promise.all([first, second])
+      expect(apply.args.map((args) => args[1][0]._id)).to.eql(['one', 'two'])
+    })
+    it('queues message if connection is lost while sending', async () => {
+      instance.connected = true
+      apply.returns({ result: new Promise(() => null) }) // never settles
+      const sent = instance.sendMessage({ _id: 'one', rid: 'RID', msg: 'hello' })
+      await Promise.resolve()
+      instance.connected = false
+      instance.events.emit('disconnected')
+      await instance.outbox.restore()
+      await delay(10)
+      expect(instance.outbox.queue[0].message._id).to.equal('one')
+      apply.returns({ result: Promise.resolve({ _id: 'one' }) })
+      instance.connected = true
+      await instance.flushOutbox()
+      expect(await sent).to.eql({ _id: 'one' })
+    })
+    it('rejects delivery while not connected, without sending', async () => {
+      instance.connected = false
+      const err = await instance.deliverMessage({ _id: 'one', rid: 'RID', msg: 'hello' }).catch((err) => err)
+      expect(err).to.be.an('error')
+      sinon.assert.notCalled(apply)
+    })
+    it('rejects sending if the socket closes during reconnect', async () => {
+      instance.connected = true
+      instance.reconnectTimer = setTimeout(() => null, 1000) // `disconnected` is not emitted again
+      instance.asteroid.ddp = new EventEmitter()
+      apply.returns({ result: new Promise(() => null) }) // never settles
+      const sent = instance.deliverMessage({ _id: 'one', rid: 'RID', msg: 'hello' })
+      instance.asteroid.ddp.emit('socket_close')
+      expect(await sent.catch((err) => err)).to.be.an('error')
+      clearTimeout(instance.reconnectTimer)
+    })
+    it('does not send again if delivered by an earlier attempt', async () => {
+      const internalError = { isClientSafe: true, error: 500, reason: 'Internal server error', message: 'Internal server error [500]', errorType: 'Meteor.Error' }
+      instance.connected = false
+      const sent = instance.sendMessage({ _id: 'one', rid: 'RID', msg: 'hello' })
+      await instance.outbox.restore()
+      apply.callsFake((method) => ({
+        result: (method === 'sendMessage') ? Promise.reject(internalError) : Promise.resolve({ _id: 'one', msg: 'hello' })
+      }))
+      instance.connected = true
+      await instance.flushOutbox()
+      expect(await sent).to.eql({ _id: 'one', msg: 'hello' })
+      expect(apply.args.map((args) => args[0])).to.eql(['sendMessage', 'getSingleMessage'])
+      expect(instance.outbox.pending()).to.equal(0)
+    })
+    it('rejects with the send error if the message is not found', async () => {
+      instance.connected = false
+      const sent = instance.sendMessage({ _id: 'one', rid: 'RID', msg: 'hello' })
+      await instance.outbox.restore()
+      apply.callsFake((method) => ({
+        result: (method === 'sendMessage') ? Promise.reject(new Error('error-not-allowed')) : Promise.resolve(undefined)
+      }))
+      instance.connected = true
+      await instance.flushOutbox()
+      expect((await sent.catch((err) => err)).message).to.equal('error-not-allowed')
+    })
+  })
+  describe('outgoing hooks', () => {
+    let instance
+    let apply
+    beforeEach(() => {
+      instance = new driver.Driver()
+      instance.connected = true
+      apply = sinon.stub().callsFake((method, [message]) => ({ result: Promise.resolve({ _id: message._id }) }))
+      instance.asteroid = { apply }
+    })
+    it('sends parts of long messages in order, resolving with the last', async () => {
+      instance.outgoing.replace('split', splitMessages(9))
+      const sent = await instance.sendMessage({ _id: 'MID', rid: 'RID', msg: 'one\ntwo\nthree' })
+      expect(apply.args.map((args) => args[1][0].msg)).to.eql(['one\ntwo', 'three'])
+      expect(sent).to.eql({ _id: 'MID' })
+    })
+    it('rejects messages vetoed by a hook, without sending', async () => {
+      instance.outgoing.use('quiet', () => null)
+      const err = await instance.sendMessage({ rid: 'RID', msg: 'hello' }).catch((err) => err)
+      expect(err.name).to.equal('MessageVetoedError')
+      sinon.assert.notCalled(apply)
+    })
+    it('passes edits through hooks', async () => {
+      instance.outgoing.use('shout', (message) => Object.assign(message, { msg: message.msg.toUpperCase() }))
+      await instance.editMessage({ _id: 'MID', rid: 'RID', msg: 'edited' })
+      expect(apply.firstCall.args[1][0]).to.include({ _id: 'MID', msg: 'EDITED' })
+    })
+  })
+  describe('catch up', () => {
+    let instance
+    let apply
+    const history = (times) => ({ messages: times.map((time) => ({ _id: `M${time}`, rid: 'RID', ts: { $date: time } })) })
+    beforeEach(() => {
+      instance = new driver.Driver()
+      apply = sinon.stub().returns({ result: Promise.resolve(history([5000, 4000, 3000, 2000])) })
+      instance.asteroid = { apply }
+    })
+    it('.getMissedMessages gets messages after a time, oldest first', async () => {
+      const missed = await instance.getMissedMessages('RID', new Date(2000))
+      expect(missed.map((message) => message._id)).to.eql(['M3000', 'M4000', 'M5000'])
+      expect(apply.firstCall.args[0]).to.equal('loadHistory')
+    })
+    it('.getMissedMessages keeps only the latest within limit', async () => {
+      const missed = await instance.getMissedMessages('RID', new Date(0), 2)
+      expect(missed.map((message) => message._id)).to.eql(['M4000', 'M5000'])
+    })
+    it('.catchUp replays missed messages in rooms read before, with meta', async () => {
+      await instance.reads.mark('RID', new Date(3000), 'p')
+      const handler = sinon.stub().resolves()
+      expect(await instance.catchUp(handler)).to.equal(2)
+      expect(handler.args.map((args) => args[0]._id)).to.eql(['M4000', 'M5000'])
+      expect(handler.firstCall.args[1]).to.eql({ roomType: 'p', roomParticipant: true, missed: true })
+    })
+    it('.catchUp holds new messages in the room until done', async () => {
+      await instance.reads.mark('RID', new Date(3000))
+      const calls: string[] = []
+      const caughtUp = instance.catchUp(async (message) => { calls.push(message._id) })
+      await Promise.resolve()
+      await instance.reads.ready('RID').then(() => calls.push('new'))
+      await caughtUp
+      expect(calls).to.eql(['M4000', 'M5000', 'new'])
+    })
+    it('catches up once on resume, however often respondToMessages is called', async () => {
+      instance.reactToMessages = sinon.stub()
+      instance.catchUp = sinon.stub().resolves(0)
+      await instance.respondToMessages(() => null, { rooms: [], catchUp: true })
+      await instance.respondToMessages(() => null, { rooms: [], catchUp: true })
+      instance.catchUp.resetHistory()
+      instance.events.emit('resumed')
+      await delay(10)
+      sinon.assert.calledOnce(instance.catchUp)
+      expect(instance.events.listenerCount('resumed')).to.equal(1)
+    })
+    it('logs errors receiving messages while caught up', async () => {
+      let receive
+      const error = sinon.spy()
+      replaceLog({ debug: () => null, info: () => null, warn: () => null, warning: () => null, error })
+      sinon.stub(instance, 'reactToMessages').callsFake((callback) => receive = callback)
+      await instance.respondToMessages(() => null, { rooms: [], catchUp: true })
+      instance.reads.ready = sinon.stub().rejects(new Error('oops'))
+      receive(null, { _id: 'MID', rid: 'RID', msg: 'hi', u: { _id: 'UID' } }, {})
+      await new Promise((resolve) => setImmediate(resolve))
+      silence()
+      sinon.assert.calledWithMatch(error, /Failed to receive message MID: oops/)
+    })
+    it('gives missed messages to each respondToMessages callback on resume', async () => {
+      const message = { _id: 'M5000', rid: 'RID', msg: 'hi', u: { _id: 'UID', username: 'user' }, ts: { $date: 5000 } }
+      apply.returns({ result: Promise.resolve({ messages: [message] }) })
+      instance.reactToMessages = sinon.stub()
+      const callbacks = [sinon.stub(), sinon.stub()]
+      for (let callback of callbacks) await instance.respondToMessages(callback, { rooms: [], catchUp: true })
+      await instance.reads.mark('RID', new Date(4000))
+      await instance.catchUpAll()
+      callbacks.forEach((callback) => expect(callback.args.map((args) => args[1]._id)).to.eql(['M5000']))
+      expect(instance.reads.get('RID')).to.equal(5000)
+    })
+  })
+  describe('rooms', () => {
+    let instance
+    let apply
+    const subscriptions = [
+      { rid: 'GENERAL', name: 'general', t: 'c', roles: ['owner'] },
+      { rid: 'RID', name: 'announcements', t: 'c', ro: true }
+    ]
+    beforeEach(() => {
+      instance = new driver.Driver()
+      instance.userId = 'BOT'
+      apply = sinon.stub().returns({ result: Promise.resolve() })
+      apply.withArgs('subscriptions/get').returns({ result: Promise.resolve(subscriptions) })
+      instance.asteroid = {
+        apply,
+        subscribe: sinon.stub().returns({ ready: Promise.resolve('SUBID') }),
+        getCollection: () => ({ name: 'stream-notify-user', reactiveQuery: () => ({ on: () => null }) })
+      }
+      sinon.stub(instance, 'getRoomId').callsFake((room) => Promise.resolve((room === 'release') ? 'REL' : room))
+    })
+    it('.trackRooms loads rooms from subscriptions and subscribes to changes', async () => {
+      await instance.trackRooms()
+      expect(instance.rooms.get('GENERAL')).to.eql({ id: 'GENERAL', name: 'general', type: 'c', readOnly: false, role: 'owner' })
+      expect(instance.rooms.get('RID')).to.include({ readOnly: true, role: 'member' })
+      sinon.assert.calledWith(instance.asteroid.subscribe, 'stream-notify-user', 'BOT/subscriptions-changed')
+    })
+    it('updates rooms from subscription changes', async () => {
+      await instance.trackRooms()
+      instance.events.emit('subscriptionChanged', { action: 'removed', data: { rid: 'RID' } })
+      instance.events.emit('subscriptionChanged', { action: 'inserted', data: { rid: 'REL', name: 'release', t: 'p' } })
+      expect(instance.rooms.ids()).to.eql(['GENERAL', 'REL'])
+    })
+    it('.joinRoom joins by name, keeping the ID once', async () => {
+      await instance.joinRoom('release')
+      await instance.joinRoom('release')
+      expect(instance.joinedIds).to.eql(['REL'])
+      sinon.assert.calledOnce(apply.withArgs('joinRoom'))
+    })
+    it('.joinRoom does not join rooms the user is in already', async () => {
+      await instance.trackRooms()
+      await instance.joinRoom('GENERAL')
+      sinon.assert.notCalled(apply.withArgs('joinRoom'))
+      expect(instance.joinedIds).to.eql(['GENERAL'])
+    })
+    it('.leaveRoom leaves by name, removing the room without gaps', async () => {
+      await instance.trackRooms()
+      await instance.joinRooms(['GENERAL', 'release', 'RID'])
+      await instance.leaveRoom('release')
+      expect(instance.joinedIds).to.eql(['GENERAL', 'RID'])
+      expect(instance.rooms.has('REL')).to.equal(false)
+      sinon.assert.calledWith(apply, 'leaveRoom', ['REL'])
+    })
+  })
+  describe('actions', () => {
+    let instance
+    let apply
+    beforeEach(() => {
+      instance = new driver.Driver()
+      instance.connected = true
+      instance.userId = 'BOT'
+      instance.lastReadTime = new Date(0)
+      apply = sinon.stub().returns({ result: Promise.resolve({}) })
+      instance.asteroid = { apply }
+    })
+    it('.sendActions sends buttons tagged with action ID', async () => {
+      const id = await instance.sendActions('Deploy?', 'RID', [{ text: 'Yes' }, { text: 'No', value: 'no' }], () => null)
+      const sent = apply.firstCall.args[1][0]
+      expect(sent.attachments[0].actions.map((action) => action.msg)).to.eql([`Yes [#${id}]`, `no [#${id}]`])
+      expect(instance.actions.has(id)).to.equal(true)
+    })
+    it('.handleAction calls handler with click and source message', async () => {
+      const handler = sinon.spy()
+      const id = await instance.sendActions('Deploy?', 'RID', [{ text: 'Yes' }], handler)
+      const click = { _id: 'MID', msg: `Yes [#${id}]`, u: { _id: 'UID', username: 'user' } }
+      await instance.handleAction(id, 'Yes', click, { roomType: 'c' })
+      expect(handler.firstCall.args[0]).to.include({ id, value: 'Yes', message: click })
+      expect(handler.firstCall.args[0].source.msg).to.equal('Deploy?')
+    })
+    it('.handleAction ignores values not sent by the buttons', async () => {
+      const handler = sinon.spy()
+      const id = await instance.sendActions('Deploy?', 'RID', [{ text: 'Yes' }], handler)
+      const typed = { _id: 'MID', msg: `deploy prod [#${id}]`, u: { _id: 'UID', username: 'user' } }
+      await instance.handleAction(id, 'deploy prod', typed, { roomType: 'c' })
+      sinon.assert.notCalled(handler)
+      expect(instance.actions.has(id)).to.equal(true)
+    })
+    it('.expireAction removes action and edits buttons out of message', async () => {
+      const id = await instance.sendActions('Deploy?', 'RID', [{ text: 'Yes' }], () => null)
+      await instance.expireAction(id, 'Deployed')
+      expect(instance.actions.has(id)).to.equal(false)
+      expect(apply.secondCall.args[0]).to.equal('updateMessage')
+      expect(apply.secondCall.args[1][0]).to.include({ rid: 'RID', msg: 'Deployed' })
+      expect(apply.secondCall.args[1][0].attachments).to.eql([])
+    })
+    it('expires action after first click if once', async () => {
+      const id = await instance.sendActions('Deploy?', 'RID', [{ text: 'Yes' }], () => null, { once: true })
+      await instance.handleAction(id, 'Yes', { u: { username: 'user' } }, {})
+      expect(instance.actions.has(id)).to.equal(false)
+    })
+  })
+  describe('threads', () => {
+    let instance
+    let apply
+    beforeEach(() => {
+      instance = new driver.Driver()
+      instance.connected = true
+      apply = sinon.stub().returns({ result: Promise.resolve({}) })
+      instance.asteroid = { apply }
+    })
+    it('.prepareMessage addresses message to thread', () => {
+      const message = instance.prepareMessage('hello', 'RID', 'TMID')
+      expect(message).to.include({ rid: 'RID', tmid: 'TMID' })
+    })
+    it('.replyInThread sends to thread of a reply', async () => {
+      await instance.replyInThread('hello', { _id: 'MID', rid: 'RID', tmid: 'TMID' })
+      expect(apply.firstCall.args[1][0]).to.include({ rid: 'RID', tmid: 'TMID', msg: 'hello' })
+    })
+    it('.replyInThread starts thread from a top-level message', async () => {
+      await instance.replyInThread('hello', { _id: 'MID', rid: 'RID' })
+      expect(apply.firstCall.args[1][0]).to.include({ rid: 'RID', tmid: 'MID' })
+    })
+    it('.getThreadMessages calls method with thread ID and options', async () => {
+      await instance.getThreadMessages('TMID', { limit: 10 })
+      expect(apply.firstCall.args).to.eql(['getThreadMessages', [{ tmid: 'TMID', limit: 10 }]])
+    })
+  })
+  describe('message operations', () => {
+    let instance
+    let apply
+    const respond = (results) => {
+      apply = sinon.spy((method, params) => ({ result: Promise.resolve(results[method]) }))
+      instance.asteroid = { apply }
+    }
+    beforeEach(() => {
+      instance = new driver.Driver()
+      instance.userId = 'BOT'
+      respond({})
+    })
+    it('.deleteMessage calls method with message ID', async () => {
+      await instance.deleteMessage('MID')
+      expect(apply.firstCall.args).to.eql(['deleteMessage', [{ _id: 'MID' }]])
+    })
+    it('.pinMessage, .unpinMessage call methods with message and room IDs', async () => {
+      await instance.pinMessage({ _id: 'MID', rid: 'RID', msg: 'pin me' })
+      await instance.unpinMessage({ _id: 'MID', rid: 'RID' })
+      expect(apply.args).to.eql([
+        ['pinMessage', [{ _id: 'MID', rid: 'RID' }]],
+        ['unpinMessage', [{ _id: 'MID', rid: 'RID' }]]
+      ])
+    })
+    it('.starMessage, .unstarMessage call method with starred status', async () => {
+      await instance.starMessage({ _id: 'MID', rid: 'RID' })
+      await instance.unstarMessage({ _id: 'MID', rid: 'RID' })
+      expect(apply.args.map((args) => args[1][0].starred)).to.eql([true, false])
+    })
+    it('.toggleReaction resolves reacted if the user has the reaction after', async () => {
+      instance.credentials = { username: 'bot', password: 'pass' }
+      respond({ getSingleMessage: { _id: 'MID', reactions: { ':thumbsup:': { usernames: ['user', 'bot'] } } } })
+      const result = await instance.toggleReaction('thumbsup', 'MID')
+      expect(result).to.eql({ emoji: ':thumbsup:', messageId: 'MID', reacted: true })
+      expect(apply.firstCall.args).to.eql(['setReaction', [':thumbsup:', 'MID']])
+    })
+    it('.toggleReaction resolves not reacted if only others have the reaction', async () => {
+      instance.credentials = { username: 'bot', password: 'pass' }
+      respond({ getSingleMessage: { _id: 'MID', reactions: { ':thumbsup:': { usernames: ['user', 'other'] } } } })
+      const result = await instance.toggleReaction(':thumbsup:', 'MID')
+      expect(result.reacted).to.equal(false)
+    })
+    it('calls error-first callback with result or error', async () => {
+      const callback = sinon.spy()
+      await instance.deleteMessage('MID', callback)
+      sinon.assert.calledWithExactly(callback, null, undefined)
+      respond({})
+      apply = sinon.stub().returns({ result: Promise.reject(new Error('error-action-not-allowed')) })
+      instance.asteroid = { apply }
+      await instance.deleteMessage('MID', callback)
+      expect(callback.secondCall.args[0].message).to.equal('error-action-not-allowed')
+    })
+    it('.deleteOwnMessages deletes own messages in time range', async () => {
+      respond({
+        loadHistory: { messages: [
+          { _id: 'new', ts: { $date: 3000 }, u: { _id: 'BOT' } },
+          { _id: 'other', ts: { $date: 2500 }, u: { _id: 'UID' } },
+          { _id: 'joined', t: 'uj', ts: { $date: 2200 }, u: { _id: 'BOT' } },
+          { _id: 'mid', ts: { $date: 2000 }, u: { _id: 'BOT' } },
+          { _id: 'old', ts: { $date: 1000 }, u: { _id: 'BOT' } }
+        ] }
+      })
+      const result = await instance.deleteOwnMessages('RID', { oldest: new Date(1500), latest: new Date(4000) })
+      expect(result).to.eql({ deleted: ['new', 'mid'], failed: [] })
+      expect(apply.firstCall.args).to.eql(['loadHistory', ['RID', new Date(4000), 100, null]])
+    })
+  })
+  describe('stream events', () => {
+    let instance
+    let collection
+    let subscribe
+    beforeEach(() => {
+      instance = new driver.Driver()
+      instance.userId = 'BOT'
+      const handlers = []
+      collection = {
+        items: {},
+        reactiveQuery: (selector) => (selector._id)
+          ? { result: [collection.items[selector._id]] }
+          : { on: (event, handler) => handlers.push(handler), result: [] },
+        change: (fields) => {
+          collection.items.id = fields
+          handlers.forEach((handler) => handler('id'))
+        }
+      }
+      subscribe = sinon.stub().returns({ ready: Promise.resolve('SUBID') })
+      instance.asteroid = { subscribe, getCollection: () => collection }
+    })
+    it('.subscribeToRoomEvents subscribes to typing and deleted messages', async () => {
+      const subscriptions = await instance.subscribeToRoomEvents('RID')
+      expect(subscriptions).to.have.lengthOf(2)
+      expect(subscribe.args).to.eql([
+        ['stream-notify-room', 'RID/typing', true],
+        ['stream-notify-room', 'RID/deleteMessage', true]
+      ])
+    })
+    it('.subscribeToUserEvents subscribes to events for the user', async () => {
+      await instance.subscribeToUserEvents()
+      expect(subscribe.args.map((args) => args[1])).to.eql([
+        'BOT/rooms-changed',
+        'BOT/subscriptions-changed',
+        'BOT/notification'
+      ])
+    })
+    it('.subscribeToUserEvents rejects without login', async () => {
+      instance.userId = undefined
+      const error = await instance.subscribeToUserEvents().catch((err) => err)
+      expect(error).to.be.instanceof(Error)
+    })
+    it('emits events from stream changes', async () => {
+      const typing = sinon.spy()
+      instance.events.on('typing', typing)
+      await instance.subscribeToRoomEvents('RID')
+      collection.change({ eventName: 'RID/typing', args: ['user', true] })
+      sinon.assert.calledWithExactly(typing, { roomId: 'RID', username: 'user', typing: true })
+    })
+    it('attaches to each stream once', async () => {
+      const typing = sinon.spy()
+      instance.events.on('typing', typing)
+      await instance.subscribeToRoomEvents('RID')
+      await instance.subscribeToRoomEvents('RID2')
+      collection.change({ eventName: 'RID2/typing', args: ['user', false] })
+      sinon.assert.calledOnce(typing)
+    })
+  })
+  describe('typing and read receipts', () => {
+    let instance
+    let apply
+    beforeEach(() => {
+      instance = new driver.Driver()
+      instance.userId = 'BOT'
+      instance.credentials = { username: 'bot', password: 'pass' }
+      apply = sinon.stub().returns({ result: Promise.resolve() })
+      instance.asteroid = { apply }
+    })
+    it('.startTyping, .stopTyping notify room with username', async () => {
+      await instance.startTyping('RID')
+      await instance.stopTyping('RID')
+      expect(apply.args).to.eql([
+        ['stream-notify-room', ['RID/typing', 'bot', true]],
+        ['stream-notify-room', ['RID/typing', 'bot', false]]
+      ])
+    })
+    it('.startTyping takes username from published user after token login', async () => {
+      instance.credentials = { userId: 'BOT', token: 'TOKEN' }
+      instance.asteroid.getCollection = () => ({
+        reactiveQuery: () => ({ result: [{ _id: 'BOT', username: 'token-bot' }] })
+      })
+      await instance.startTyping('RID')
+      expect(apply.firstCall.args[1][1]).to.equal('token-bot')
+    })
+    it('.whileTyping sends typing until promise settles', async () => {
+      let finish
+      const task = new Promise((resolve) => finish = resolve)
+      clock = sinon.useFakeTimers(0)
+      const typing = instance.whileTyping('RID', task)
+      clock.tick(10000)
+      clock.restore()
+      finish('done')
+      expect(await typing).to.equal('done')
+      expect(apply.args.map((args) => args[1][2])).to.eql([true, true, false])
+    })
+    it('.whileTyping stops typing after max duration, if promise never settles', async () => {
+      clock = sinon.useFakeTimers(0)
+      instance.whileTyping('RID', new Promise(() => null))
+      clock.tick(120000)
+      clock.tick(120000)
+      clock.restore()
+      await Promise.resolve()
+      const typing = apply.args.map((args) => args[1][2])
+      expect(typing).to.have.lengthOf(14) // start, every 10s for 2 minutes, then stop
+      expect(typing[13]).to.equal(false)
+    })
+    it('.markRoomRead calls method with room ID', async () => {
+      await instance.markRoomRead('RID')
+      expect(apply.firstCall.args).to.eql(['readMessages', ['RID']])
+    })
+    it('.respondToMessages shows typing and marks read if configured to', async () => {
+      let receive
+      sinon.stub(instance, 'reactToMessages').callsFake((callback) => receive = callback)
+      await instance.respondToMessages(() => Promise.resolve(), { dm: true, typing: true, markRead: true })
+      receive(null, { _id: 'MID', rid: 'RID', msg: 'hi', u: { _id: 'UID' }, ts: { $date: Date.now() + 1 } }, { roomType: 'd' })
+      await new Promise((resolve) => setImmediate(resolve))
+      expect(apply.args.map((args) => args[0])).to.eql(['stream-notify-room', 'stream-notify-room', 'readMessages'])
+    })
+    it('.respondToMessages logs callback rejections, without mark read', async () => {
+      let receive
+      const error = sinon.spy()
+      replaceLog({ debug: () => null, info: () => null, warn: () => null, warning: () => null, error })
+      sinon.stub(instance, 'reactToMessages').callsFake((callback) => receive = callback)
+      await instance.respondToMessages(() => Promise.reject(new Error('oops')), { dm: true })
+      receive(null, { _id: 'MID', rid: 'RID', msg: 'hi', u: { _id: 'UID' }, ts: { $date: Date.now() + 1 } }, { roomType: 'd' })
+      await new Promise((resolve) => setImmediate(resolve))
+      silence()
+      sinon.assert.calledWithMatch(error, /Failed to handle message MID: oops/)
+    })
+  })
 })
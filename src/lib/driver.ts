@@ -2,567 +2,1878 @@ import { EventEmitter } from 'events'
 import Asteroid from 'asteroid'
 import * as settings from './settings'
 import * as methodCache from './methodCache'
+import * as scheduler from './scheduler'
+import * as outbox from './outbox'
+import * as actions from './actions'
+import * as threads from './threads'
+import * as streams from './streams'
+import { Pipeline, defaultMiddleware, markRead } from './middleware'
+import { OutgoingHooks, defaultHooks } from './outgoing'
+import { ReadTracker } from './catchup'
+import { RoomTracker, IRoom } from './rooms'
 import { Message } from './message'
 import {
   IConnectOptions,
+  IDriverOptions,
   IRespondOptions,
   ICallback,
-  ILogger
+  ILogger,
+  IReactionResult,
+  ICleanupOptions,
+  ICleanupResult
 } from '../config/driverInterfaces'
 import {
   IAsteroid,
+  IAnyCredentials,
   ICredentials,
+  ITokenCredentials,
+  ISession,
+  ILoginResult,
   ISubscription,
   ICollection
 } from '../config/asteroidInterfaces'
 import { IMessage } from '../config/messageInterfaces'
 import { logger, replaceLog } from './log'
+import * as auth from './auth'
+import * as totp from './totp'
 import { IMessageReceiptAPI } from '../utils/interfaces'
+import { exportLive } from '../utils/exports'
+import { getTime } from '../utils/time'
 
 /** Collection names */
 const _messageCollectionName = 'stream-room-messages'
 const _messageStreamName = '__my_messages__'
 
-// CONNECTION SETUP AND CONFIGURE
-// -----------------------------------------------------------------------------
-
-/** Internal for comparing message update timestamps */
-export let lastReadTime: Date
+/** Count of messages to load at a time, when searching room history */
+const _historyPageSize = 100
 
 /**
- * The integration property is applied as an ID on sent messages `bot.i` param
- * Should be replaced when connection is invoked by a package using the SDK
- * e.g. The Hubot adapter would pass its integration ID with credentials, like:
+ * Allow override of default logging with adapter's log instance
  */
-export const integrationId = settings.integrationId
+export function useLog (externalLog: ILogger) {
+  replaceLog(externalLog)
+}
 
 /**
- * Event Emitter for listening to connection.
+ * Driver for a single connection and login to a Rocket.Chat server.
+ * Each instance keeps its own Asteroid connection, user, method cache and
+ * subscriptions, so one process can run many bots (or servers) at once.
  * @example
- *  import { driver } from '@rocket.chat/sdk'
- *  driver.connect()
- *  driver.events.on('connected', () => console.log('driver connected'))
+ *  import { Driver } from '@rocket.chat/sdk'
+ *  const staging = new Driver({ host: 'staging.example.com' })
+ *  const production = new Driver({ host: 'chat.example.com', useSsl: true })
+ *  await staging.connect()
+ *  await production.connect()
  */
-export const events = new EventEmitter()
+export class Driver {
+  /** Internal for comparing message update timestamps */
+  lastReadTime!: Date
 
-/**
- * An Asteroid instance for interacting with Rocket.Chat.
- * Variable not initialised until `connect` called.
- */
-export let asteroid: IAsteroid
+  /**
+   * The integration property is applied as an ID on sent messages `bot.i` param
+   * Should be replaced when connection is invoked by a package using the SDK
+   * e.g. The Hubot adapter would pass its integration ID with credentials.
+   */
+  integrationId: string
 
-/**
- * Asteroid subscriptions, exported for direct polling by adapters
- * Variable not initialised until `prepMeteorSubscriptions` called.
- */
-export let subscriptions: ISubscription[] = []
+  /**
+   * Event Emitter for listening to connection.
+   * @example
+   *  import { driver } from '@rocket.chat/sdk'
+   *  driver.connect()
+   *  driver.events.on('connected', () => console.log('driver connected'))
+   */
+  events = new EventEmitter()
 
-/**
- * Current user object populated from resolved login
- */
-export let userId: string
+  /**
+   * An Asteroid instance for interacting with Rocket.Chat.
+   * Variable not initialised until `connect` called.
+   */
+  asteroid!: IAsteroid
 
-/**
- * Array of joined room IDs (for reactive queries)
- */
-export let joinedIds: string[] = []
+  /**
+   * Asteroid subscriptions, exported for direct polling by adapters
+   * Variable not initialised until `prepMeteorSubscriptions` called.
+   */
+  subscriptions: ISubscription[] = []
+
+  /**
+   * Current user object populated from resolved login
+   */
+  userId!: string
+
+  /**
+   * Array of room IDs joined by `joinRoom`, to rejoin on reconnect
+   * (see `rooms` for all rooms the user is in)
+   */
+  joinedIds: string[] = []
+
+  /** Rooms the user is in, loaded on login and updated from the user stream */
+  rooms = new RoomTracker()
+
+  /**
+   * Array of messages received from reactive collection
+   */
+  messages!: ICollection
+
+  /** Cache for method call results, used by `cacheCall` */
+  methodCache: methodCache.MethodCache
+
+  /** Scheduler for method calls, to stay within rate limits */
+  scheduler: scheduler.Scheduler
+
+  /** Queue for messages sent while disconnected, flushed on reconnect */
+  outbox: outbox.Outbox
+
+  /** Last message read in each room, to catch up on missed messages */
+  reads: ReadTracker
+
+  /** Actions sent with buttons, to route clicks to their handlers */
+  actions = new actions.ActionRegistry()
+
+  /** Middleware for messages given to `respondToMessages` callbacks */
+  middleware: Pipeline
+
+  /** Hooks for messages sent or edited, to change, split or veto them */
+  outgoing: OutgoingHooks
+
+  /** Connection defaults for the instance, overridden by `connect` options */
+  options: IConnectOptions
+
+  /** Config used for the last connection, kept for managed reconnect */
+  config: IConnectOptions = {}
+
+  /** Credentials from the last successful login, to restore auth */
+  credentials?: IAnyCredentials
+
+  /** Auth (resume) token from the last login, for session export */
+  authToken?: string
+
+  /** Expiry of the auth token, if given by the server */
+  tokenExpires?: Date
+
+  /** Topic and params of current subscriptions, to restore on reconnect */
+  subscriptionParams: Map<ISubscription, [string, string]> = new Map()
+
+  /** Streams with events emitted on `events`, to re-attach on reconnect */
+  streamQueries: Set<string> = new Set()
+
+  /** Callbacks attached with `reactToMessages`, to re-attach on reconnect */
+  reactCallbacks: ICallback[] = []
+
+  /** Handlers from `respondToMessages` with `catchUp`, to catch up on resume */
+  catchUpHandlers: Array<(message: IMessage, meta: any) => Promise<any>> = []
+
+  /** Count of reconnect attempts since connection was lost */
+  reconnectAttempts = 0
+
+  /** Timer for the next reconnect attempt */
+  reconnectTimer?: NodeJS.Timer
+
+  /** Flag for disconnect called, so connection loss is not handled */
+  closing = false
+
+  /** Flag for the socket being connected, messages are queued while false */
+  connected = false
+
+  constructor (options: IDriverOptions = {}) {
+    const { cache, scheduler: methodScheduler, outbox: messageOutbox, reads, ...connectOptions } = options
+    this.options = connectOptions
+    this.methodCache = cache || new methodCache.MethodCache()
+    this.scheduler = methodScheduler || new scheduler.Scheduler()
+    this.outbox = messageOutbox || new outbox.Outbox()
+    this.reads = reads || new ReadTracker()
+    this.middleware = new Pipeline(defaultMiddleware(this))
+    this.outgoing = new OutgoingHooks(defaultHooks())
+    this.integrationId = options.integration || settings.integrationId
+    this.events.on('subscriptionChanged', (event: streams.IChangeEvent) => {
+      this.rooms.update(event.action, event.data)
+    })
+    this.events.on('resumed', () => this.catchUpAll())
+    this.events.on('reconnected', () => {
+      if (!this.catchUpHandlers.length) return
+      this.asteroid.resumeLoginPromise.then(() => this.catchUpAll(), () => null) // after login again
+    })
+  }
+
+  // CONNECTION SETUP AND CONFIGURE
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Initialise asteroid instance with given options or defaults.
+   * Returns promise, resolved with Asteroid instance. Callback follows
+   * error-first-pattern. Error returned or promise rejected on timeout.
+   * Removes http/s protocol to get connection hostname if taken from URL.
+   * @example <caption>Use with callback</caption>
+   *  import { driver } from '@rocket.chat/sdk'
+   *  driver.connect({}, (err) => {
+   *    if (err) throw err
+   *    else console.log('connected')
+   *  })
+   * @example <caption>Using promise</caption>
+   *  import { driver } from '@rocket.chat/sdk'
+   *  driver.connect()
+   *    .then(() => console.log('connected'))
+   *    .catch((err) => console.error(err))
+   */
+  connect (
+    options: IConnectOptions = {},
+    callback?: ICallback
+  ): Promise<IAsteroid> {
+    return new Promise((resolve, reject) => {
+      const config = Object.assign({}, settings, this.options, options) // override defaults
+      config.host = config.host.replace(/(^\w+:|^)\/\//, '')
+      logger.info('[connect] Connecting', config)
+      this.config = config
+      this.closing = false
+      const asteroid: IAsteroid = this.asteroid = new Asteroid(config.host, config.useSsl)
+
+      this.setupMethodCache(asteroid) // init instance for later caching method calls
+      asteroid.on('connected', () => {
+        asteroid.resumeLoginPromise.catch(function () {
+          // pass
+        })
+        if (asteroid === this.asteroid) this.connected = true
+        this.events.emit('connected')
+      })
+      asteroid.on('reconnected', () => {
+        if (asteroid === this.asteroid) {
+          this.connected = true
+          asteroid.resumeLoginPromise // Asteroid logs in again itself
+            .then(() => this.flushOutbox())
+            .catch(() => null)
+        }
+        this.events.emit('reconnected')
+      })
+      asteroid.ddp.on('socket_close', () => {
+        if (asteroid !== this.asteroid) return
+        this.connected = false
+        this.handleDisconnect()
+      })
+      let cancelled = false
+      const rejectionTimeout = setTimeout(() => {
+        logger.info(`[connect] Timeout (${config.timeout})`)
+        const err = new Error('Asteroid connection timeout')
+        cancelled = true
+        this.events.removeAllListeners('connected')
+        callback ? callback(err, asteroid) : reject(err)
+      }, config.timeout)
+
+      // if to avoid condition where timeout happens before listener to 'connected' is added
+      // and this listener is not removed (because it was added after the removal)
+      if (!cancelled) {
+        this.events.once('connected', () => {
+          logger.info('[connect] Connected')
+          // if (cancelled) return asteroid.ddp.disconnect() // cancel if already rejected
+          clearTimeout(rejectionTimeout)
+          if (callback) callback(null, asteroid)
+          resolve(asteroid)
+        })
+      }
+    })
+  }
+
+  /** Remove all active subscriptions, logout and disconnect from Rocket.Chat */
+  disconnect (): Promise<void> {
+    logger.info('Unsubscribing, logging out, disconnecting')
+    this.closing = true
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.unsubscribeAll()
+    return this.logout()
+      .then(() => Promise.resolve())
+  }
+
+  /**
+   * Handle loss of the socket connection, emitting `disconnected` then starting
+   * managed reconnect if configured. Asteroid's own reconnect is left to run
+   * when not managed (it will emit `reconnected`).
+   */
+  handleDisconnect (): void {
+    if (this.closing || this.reconnectTimer) return
+    logger.warning('[connect] Disconnected')
+    this.events.emit('disconnected')
+    if (this.config.reconnect) this.scheduleReconnect()
+  }
+
+  /**
+   * Schedule the next reconnect attempt, with exponential backoff.
+   * Emits `reconnecting` with the attempt number and delay before it starts.
+   */
+  scheduleReconnect (): void {
+    const attempt = ++this.reconnectAttempts
+    const maxAttempts = this.config.reconnectMaxAttempts
+    if (maxAttempts && attempt > maxAttempts) {
+      logger.error(`[reconnect] Giving up after ${maxAttempts} attempts`)
+      this.reconnectAttempts = 0
+      return
+    }
+    const delay = getBackoffDelay(attempt, this.config)
+    logger.info(`[reconnect] Attempt ${attempt} in ${delay}ms`)
+    this.events.emit('reconnecting', attempt, delay)
+    this.reconnectTimer = setTimeout(() => {
+      this.resume()
+        .catch((err: Error) => {
+          logger.error(`[reconnect] Attempt ${attempt} failed: ${err.message}`)
+          this.reconnectTimer = undefined
+          if (!this.closing) this.scheduleReconnect()
+        })
+    }, delay)
+  }
+
+  /**
+   * Connect again with the last config then restore the session. Logs in with
+   * the last credentials, rejoins `joinedIds`, re-creates subscriptions and
+   * re-attaches `reactToMessages` callbacks. Emits `resumed` when done.
+   */
+  async resume (): Promise<void> {
+    const previous = this.asteroid
+    if (previous) {
+      previous.removeAllListeners()
+      Promise.resolve() // disconnect may not be implemented (Asteroid v1)
+        .then(() => previous.disconnect())
+        .catch(() => null)
+    }
+    await this.connect(this.config)
+    if (this.credentials) await this.login(this.credentials)
+    for (let roomId of this.joinedIds) {
+      await this.asyncCall('joinRoom', roomId)
+        .catch((err: Error) => logger.error(`[reconnect] Failed to rejoin ${roomId}: ${err.message}`))
+    }
+    const params = Array.from(this.subscriptionParams.values())
+    const streamNames = Array.from(this.streamQueries)
+    this.subscriptions.splice(0, this.subscriptions.length)
+    this.subscriptionParams.clear()
+    this.streamQueries.clear()
+    streamNames.forEach((stream) => this.attachStreamQuery(stream))
+    for (let [topic, roomId] of params) await this.subscribe(topic, roomId)
+    if (this.messages) {
+      this.messages = this.asteroid.getCollection(_messageCollectionName)
+      this.reactCallbacks.forEach((callback) => this.attachReactiveQuery(callback))
+    }
+    this.reconnectAttempts = 0
+    this.reconnectTimer = undefined
+    logger.info('[reconnect] Resumed')
+    this.events.emit('resumed')
+  }
+
+  // ASYNC AND CACHE METHOD UTILS
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Setup method cache configs from env or defaults, before they are called.
+   * @param asteroid The asteroid instance to cache method calls
+   */
+  setupMethodCache (asteroid: IAsteroid): void {
+    this.methodCache.use(asteroid)
+    this.methodCache.create('getRoomIdByNameOrId', {
+      max: settings.roomCacheMaxSize,
+      maxAge: settings.roomCacheMaxAge
+    })
+    this.methodCache.create('getRoomNameById', {
+      max: settings.roomCacheMaxSize,
+      maxAge: settings.roomCacheMaxAge
+    })
+    this.methodCache.create('createDirectMessage', {
+      max: settings.dmCacheMaxSize,
+      maxAge: settings.dmCacheMaxAge
+    })
+  }
+
+  /**
+   * Wraps method calls to ensure they return a Promise with caught exceptions.
+   * Calls are scheduled within any limits for the method, and requeued if the
+   * server's rate limiter refuses them (see `scheduler` module).
+   * @param method The Rocket.Chat server method, to call through Asteroid
+   * @param params Single or array of parameters of the method to call
+   */
+  asyncCall (method: string, params: any | any[]): Promise<any> {
+    if (!Array.isArray(params)) params = [params] // cast to array for apply
+    logger.info(`[${method}] Calling (async): ${JSON.stringify(params)}`)
+    return this.scheduler.schedule(method, () => Promise.resolve(
+      this.asteroid.apply(method, params).result
+    ))
+      .catch((err: Error) => {
+        logger.error(`[${method}] Error:`, err)
+        throw err // throw after log to stop async chain
+      })
+      .then((result: any) => {
+        (result)
+          ? logger.debug(`[${method}] Success: ${JSON.stringify(result)}`)
+          : logger.debug(`[${method}] Success`)
+        return result
+      })
+  }
+
+  /**
+   * Call a method as async via Asteroid, or through cache if one is created.
+   * If the method doesn't have or need parameters, it can't use them for caching
+   * so it will always call asynchronously.
+   * @param name The Rocket.Chat server method to call
+   * @param params Single or array of parameters of the method to call
+   */
+  callMethod (name: string, params?: any | any[]): Promise<any> {
+    return (this.methodCache.has(name) || typeof params === 'undefined')
+      ? this.asyncCall(name, params)
+      : this.cacheCall(name, params)
+  }
+
+  /**
+   * Wraps Asteroid method calls, passed through method cache if cache is valid.
+   * @param method The Rocket.Chat server method, to call through Asteroid
+   * @param key Single string parameters only, required to use as cache key
+   */
+  cacheCall (method: string, key: string): Promise<any> {
+    return this.methodCache.call(method, key)
+      .catch((err: Error) => {
+        logger.error(`[${method}] Error:`, err)
+        throw err // throw after log to stop async chain
+      })
+      .then((result: any) => {
+        (result)
+          ? logger.debug(`[${method}] Success: ${JSON.stringify(result)}`)
+          : logger.debug(`[${method}] Success`)
+        return result
+      })
+  }
+
+  // LOGIN AND SUBSCRIBE TO ROOMS
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Login to Rocket.Chat via Asteroid.
+   * Credentials are converted to login method parameters by the first login
+   * strategy to accept them (see `auth` module), e.g. username (or email) and
+   * password, LDAP, OAuth access token, personal access or resume token, or a
+   * custom payload for other login handlers (e.g. SAML or CAS).
+   * If the server requires a two-factor code, login is attempted again with a
+   * code from the `totp` options, or rejects with `TotpRequiredError`.
+   * Loads the rooms the user is in (see `trackRooms`), then resolves with the
+   * logged in user ID.
+   */
+  login (credentials: IAnyCredentials = (settings.authToken)
+    ? { userId: settings.userId, token: settings.authToken }
+    : {
+      username: settings.username,
+      password: settings.password,
+      ldap: settings.ldap,
+      totp: (settings.totpSecret) ? { secret: settings.totpSecret } : undefined
+    }
+  ): Promise<any> {
+    const strategy = auth.getStrategy(credentials)
+    if (!strategy) {
+      return Promise.reject(new Error('[login] No login strategy accepts the credentials'))
+    }
+    const { username, email, userId } = credentials as ICredentials & ITokenCredentials
+    logger.info(`[login] Logging in ${username || email || userId || ''} (${strategy.name})`)
+    const payload = strategy.payload(credentials)
+    return totp.loginWithCode((code) => this.loginWithPayload(
+      (code) ? totp.ddpPayload(payload, code) : payload,
+      credentials
+    ), (credentials as ICredentials).totp)
+      .then((loggedInUserId) => {
+        if (userId && userId !== loggedInUserId) {
+          throw new Error(`[login] Logged in user does not match ${userId}`)
+        }
+        this.flushOutbox().catch(() => null) // send messages queued while logged out
+        return this.trackRooms()
+          .catch((err: Error) => logger.error(`[rooms] Failed to load rooms: ${err.message}`))
+          .then(() => loggedInUserId)
+      })
+  }
+
+  /**
+   * Login with a personal access token or a resume token (e.g. the auth token
+   * from a session exported by the REST API client). Both are sent as a resume
+   * token to the DDP `login` method. Given user ID must match the token's user.
+   */
+  loginWithToken (credentials: ITokenCredentials): Promise<string> {
+    if (!credentials.token && !credentials.resume) {
+      return Promise.reject(new Error('[login] Token credentials require a token'))
+    }
+    return this.login(credentials)
+  }
+
+  /**
+   * Call the DDP `login` method with a given payload, keeping the resulting
+   * user ID and auth token (for session export). The payload is not logged.
+   * @param payload     Login method parameters, e.g. `{ resume: token }`
+   * @param credentials Kept to login again after reconnect
+   */
+  loginWithPayload (
+    payload: object,
+    credentials: IAnyCredentials
+  ): Promise<string> {
+    return Promise.resolve(this.asteroid.apply('login', [payload]).result)
+      .then((result: ILoginResult) => {
+        this.userId = result.id
+        this.authToken = result.token
+        this.tokenExpires = (result.tokenExpires)
+          ? new Date(result.tokenExpires.$date || result.tokenExpires)
+          : undefined
+        this.credentials = credentials
+        logger.info(`[login] Logged in ID ${result.id}`)
+        return result.id
+      })
+      .catch((err: Error) => {
+        logger.info('[login] Error:', err)
+        throw err // throw after log to stop async chain
+      })
+  }
+
+  /**
+   * Get details of the current login, to reuse the session with another
+   * transport (e.g. `api.useSession(driver.getSession())`) or after restart.
+   * Returns null if not logged in.
+   */
+  getSession (): ISession | null {
+    if (!this.userId || !this.authToken) return null
+    return {
+      userId: this.userId,
+      authToken: this.authToken,
+      tokenExpires: this.tokenExpires
+    }
+  }
+
+  /** Login with a session exported from another driver or API client */
+  useSession (session: ISession): Promise<string> {
+    return this.loginWithToken({ userId: session.userId, resume: session.authToken })
+  }
+
+  /**
+   * Logout of Rocket.Chat via Asteroid, clearing the user ID and session.
+   * If logged in with a token, the DDP session is ended by connecting again
+   * instead, because logout on the server would destroy the token for any
+   * later use.
+   */
+  logout (): Promise<void | null> {
+    const usedToken = this.credentials && auth.isTokenCredentials(this.credentials)
+    this.userId = ''
+    this.authToken = undefined
+    this.tokenExpires = undefined
+    this.credentials = undefined
+    if (usedToken) {
+      logger.info('[logout] Clearing token session (token remains valid)')
+      return this.endSession().then(() => null)
+    }
+    return this.asteroid.logout()
+      .catch((err: Error) => {
+        logger.error('[Logout] Error:', err)
+        throw err // throw after log to stop async chain
+      })
+  }
+
+  /**
+   * End the DDP session without logout on the server, by closing the socket
+   * then connecting again with the last config (unless disconnecting).
+   * Subscriptions end with the session, so they are cleared to be created
+   * again on the new connection (e.g. by `trackRooms` after login).
+   */
+  endSession (): Promise<void> {
+    const previous = this.asteroid
+    if (!previous) return Promise.resolve()
+    previous.removeAllListeners()
+    this.connected = false
+    this.subscriptions.splice(0, this.subscriptions.length)
+    this.subscriptionParams.clear()
+    this.streamQueries.clear()
+    return Promise.resolve() // disconnect may not be implemented (Asteroid v1)
+      .then(() => previous.disconnect())
+      .catch(() => null)
+      .then(() => (this.closing) ? undefined : this.connect(this.config).then(() => undefined))
+  }
+
+  /**
+   * Subscribe to Meteor subscription
+   * Resolves with subscription (added to array), with ID property
+   * @todo - 3rd param of asteroid.subscribe is deprecated in Rocket.Chat?
+   */
+  subscribe (
+    topic: string,
+    roomId: string
+  ): Promise<ISubscription> {
+    return new Promise((resolve, reject) => {
+      logger.info(`[subscribe] Preparing subscription: ${topic}: ${roomId}`)
+      const subscription = this.asteroid.subscribe(topic, roomId, true)
+      this.subscriptions.push(subscription)
+      this.subscriptionParams.set(subscription, [topic, roomId])
+      return subscription.ready
+        .then((id) => {
+          logger.info(`[subscribe] Stream ready: ${id}`)
+          resolve(subscription)
+        })
+    })
+  }
+
+  /** Unsubscribe from Meteor subscription */
+  unsubscribe (subscription: ISubscription): void {
+    const index = this.subscriptions.indexOf(subscription)
+    if (index === -1) return
+    subscription.stop()
+    // asteroid.unsubscribe(subscription.id) // v2
+    this.subscriptions.splice(index, 1) // remove from collection
+    this.subscriptionParams.delete(subscription)
+    logger.info(`[${subscription.id}] Unsubscribed`)
+  }
+
+  /** Unsubscribe from all subscriptions in collection */
+  unsubscribeAll (): void {
+    this.subscriptions.slice().map((s: ISubscription) => this.unsubscribe(s))
+  }
+
+  /**
+   * Begin subscription to room events for user.
+   * Older adapters used an option for this method but it was always the default.
+   */
+  subscribeToMessages (): Promise<ISubscription> {
+    return this.subscribe(_messageCollectionName, _messageStreamName)
+      .then((subscription) => {
+        this.messages = this.asteroid.getCollection(_messageCollectionName)
+        return subscription
+      })
+  }
+
+  /**
+   * Subscribe to typing and deleted message events in a room, emitted on
+   * `events` as `typing` and `messageDeleted`.
+   */
+  subscribeToRoomEvents (roomId: string): Promise<ISubscription[]> {
+    return this.subscribeToStream(streams.notifyRoomStream, [
+      `${roomId}/typing`,
+      `${roomId}/deleteMessage`
+    ])
+  }
+
+  /**
+   * Subscribe to changes in the user's rooms and subscriptions, and their
+   * notifications, emitted on `events` as `roomChanged`, `subscriptionChanged`
+   * and `notification`. The user is added to a room when a subscription change
+   * has the `inserted` action. Requires login.
+   */
+  subscribeToUserEvents (): Promise<ISubscription[]> {
+    if (!this.userId) return Promise.reject(new Error('[subscribe] Login required for user events'))
+    return this.subscribeToStream(streams.notifyUserStream, [
+      `${this.userId}/rooms-changed`,
+      `${this.userId}/subscriptions-changed`,
+      `${this.userId}/notification`
+    ])
+  }
+
+  /** Subscribe to status changes of users, emitted on `events` as `presence` */
+  subscribeToPresence (): Promise<ISubscription[]> {
+    return this.subscribeToStream(streams.notifyLoggedStream, ['user-status'])
+  }
+
+  /**
+   * Subscribe to events in a stream, emitting those known on `events`.
+   * Events already subscribed to (e.g. by `trackRooms`) keep their subscription.
+   */
+  subscribeToStream (stream: string, eventNames: string[]): Promise<ISubscription[]> {
+    this.attachStreamQuery(stream)
+    const subscribed = Array.from(this.subscriptionParams.entries())
+    return Promise.all(eventNames.map((eventName) => {
+      const existing = subscribed.find(([, [topic, name]]) => topic === stream && name === eventName)
+      return (existing) ? Promise.resolve(existing[0]) : this.subscribe(stream, eventName)
+    }))
+  }
+
+  /** Emit events from changes in a stream's collection (once per connection) */
+  attachStreamQuery (stream: string): void {
+    if (this.streamQueries.has(stream)) return
+    this.streamQueries.add(stream)
+    const collection = this.asteroid.getCollection(stream)
+    logger.info(`[reactive] Listening for events in stream ${stream}`)
+    collection.reactiveQuery({}).on('change', (_id: string) => {
+      const changedQuery = collection.reactiveQuery({ _id })
+      if (!changedQuery.result || !changedQuery.result.length) return
+      const event = streams.parseStreamEvent(stream, changedQuery.result[0])
+      if (event) this.events.emit(event.name, event.data)
+      else logger.debug(`[received] Unknown event in stream ${stream}`)
+    })
+  }
+
+  /**
+   * Once a subscription is created, using `subscribeToMessages` this method
+   * can be used to attach a callback to changes in the message stream.
+   * This can be called directly for custom extensions, but for most usage (e.g.
+   * for bots) the respondToMessages is more useful to only receive messages
+   * matching configuration.
+   *
+   * If the bot hasn't been joined to any rooms at this point, it will attempt to
+   * join now based on environment config, otherwise it might not receive any
+   * messages. It doesn't matter that this happens asynchronously because the
+   * bot's joined rooms can change after the reactive query is set up.
+   *
+   * @todo `reactToMessages` should call `subscribeToMessages` if not already
+   *       done, so it's not required as an arbitrary step for simpler adapters.
+   *       Also make `login` call `connect` for the same reason, the way
+   *       `respondToMessages` calls `respondToMessages`, so all that's really
+   *       required is:
+   *       `driver.login(credentials).then(() => driver.respondToMessages(callback))`
+   * @param callback Function called with every change in subscriptions.
+   *  - Uses error-first callback pattern
+   *  - Second argument is the changed item
+   *  - Third argument is additional attributes, such as `roomType`
+   */
+  reactToMessages (callback: ICallback): void {
+    this.reactCallbacks.push(callback)
+    this.attachReactiveQuery(callback)
+  }
+
+  /** Attach callback to changes in the current message collection */
+  attachReactiveQuery (callback: ICallback): void {
+    const messages = this.messages
+    logger.info(`[reactive] Listening for change events in collection ${messages.name}`)
+
+    messages.reactiveQuery({}).on('change', (_id: string) => {
+      const changedMessageQuery = messages.reactiveQuery({ _id })
+      if (changedMessageQuery.result && changedMessageQuery.result.length > 0) {
+        const changedMessage = changedMessageQuery.result[0]
+        if (Array.isArray(changedMessage.args)) {
+          logger.info(`[received] Message in room ${ changedMessage.args[0].rid }`)
+          callback(null, changedMessage.args[0], changedMessage.args[1])
+        } else {
+          logger.debug('[received] Update without message args')
+        }
+      } else {
+        logger.debug('[received] Reactive query at ID ${ _id } without results')
+      }
+    })
+  }
+
+  /**
+   * Proxy for `reactToMessages` with some filtering of messages based on config.
+   * Messages pass through the `middleware` pipeline before the callback, where
+   * the filters are built-in steps that can be reordered, replaced or removed.
+   *
+   * @param callback Function called after filters run on subscription events.
+   *  - Uses error-first callback pattern
+   *  - Second argument is the changed item
+   *  - Third argument is additional attributes, such as `roomType`
+   * @param options Sets filters for different event/message types.
+   */
+  respondToMessages (
+    callback: ICallback,
+    options: IRespondOptions = {}
+  ): Promise<void | void[]> {
+    const config = Object.assign({}, settings, options)
+    // return value, may be replaced by async ops
+    let promise: Promise<void | void[]> = Promise.resolve()
+
+    // Join configured rooms if they haven't been already, unless listening to all
+    // public rooms, in which case it doesn't matter
+    if (
+      !config.allPublic &&
+      this.joinedIds.length === 0 &&
+      config.rooms &&
+      config.rooms.length > 0
+    ) {
+      promise = this.joinRooms(config.rooms)
+        .catch((err) => {
+          logger.error(`[joinRooms] Failed to join configured rooms (${config.rooms.join(', ')}): ${err.message}`)
+        })
+    }
+
+    this.lastReadTime = new Date() // init before any message read
+    const handle = (message: any, meta: any) => this.middleware.run(message, meta, config, () => {
+      // At this point, message has passed middleware and can be responded to
+      logger.info(`[received] Message ${message._id} from ${message.u.username}`)
+      meta.threadId = message.tmid // undefined unless a thread reply
+      const result: any = callback(null, message, meta)
+
+      // Show typing while an async callback runs, then mark read if configured to
+      const handled: Promise<any> = (config.typing && result && typeof result.then === 'function')
+        ? this.whileTyping(message.rid, result)
+        : Promise.resolve(result)
+      handled.catch((err: Error) => {
+        logger.error(`[received] Failed to handle message ${message._id}: ${err.message}`)
+      })
+      if (config.markRead) {
+        handled
+          .catch(() => null) // mark read even if handling failed
+          .then(() => this.markRoomRead(message.rid))
+          .catch((err: Error) => logger.error(`[read] Failed to mark ${message.rid} read: ${err.message}`))
+      }
+    })
+    this.reactToMessages((err, message, meta) => {
+      if (err) {
+        logger.error(`[received] Unable to receive: ${err.message}`)
+        return callback(err) // bubble errors back to adapter
+      }
+      const received = (config.catchUp)
+        ? this.reads.ready(message.rid).then(() => handle(message, meta)) // after missed messages
+        : handle(message, meta)
+      received.catch((err: Error) => {
+        logger.error(`[received] Failed to receive message ${message._id}: ${err.message}`)
+      })
+    })
+
+    // Replay messages missed before now, and while disconnected from now on
+    if (config.catchUp) {
+      this.catchUpHandlers.push(handle)
+      const caughtUp = this.catchUp(handle).then(() => undefined, (err: Error) => {
+        logger.error(`[catchup] Failed to catch up: ${err.message}`)
+      })
+      promise = promise.then(() => caughtUp)
+    }
+    return promise
+  }
+
+  // PREPARE AND SEND MESSAGES
+  // ---------------------------------------------------------------------------
+
+  /** Get ID for a room by name (or ID). */
+  getRoomId (name: string): Promise<string> {
+    return this.cacheCall('getRoomIdByNameOrId', name)
+  }
+
+  /** Get name for a room by ID. */
+  getRoomName (id: string): Promise<string> {
+    return this.cacheCall('getRoomNameById', id)
+  }
+
+  /**
+   * Get ID for a DM room by its recipient's name.
+   * Will create a DM (with the bot) if it doesn't exist already.
+   * @todo test why create resolves with object instead of simply ID
+   */
+  getDirectMessageRoomId (username: string): Promise<string> {
+    return this.cacheCall('createDirectMessage', username)
+      .then((DM) => DM.rid)
+  }
+
+  /**
+   * Join the bot into a room by its name or ID, unless already in it. The room
+   * is kept in `joinedIds` to rejoin on reconnect, and added to `rooms`.
+   */
+  async joinRoom (room: string): Promise<void> {
+    const roomId = await this.getRoomId(room)
+    if (this.joinedIds.indexOf(roomId) !== -1) {
+      logger.info(`[joinRoom] Room ${room} was already joined`)
+      return
+    }
+    if (!this.rooms.has(roomId)) {
+      await this.asyncCall('joinRoom', roomId)
+      if (this.rooms.loaded) {
+        await this.loadRooms() // get the new subscription's details
+          .catch((err: Error) => logger.error(`[rooms] Failed to load rooms: ${err.message}`))
+      }
+    }
+    this.joinedIds.push(roomId)
+  }
+
+  /** Exit a room the bot is in, removing it from `joinedIds` and `rooms` */
+  async leaveRoom (room: string): Promise<void> {
+    const roomId = await this.getRoomId(room)
+    const joinedIndex = this.joinedIds.indexOf(roomId)
+    if (joinedIndex === -1 && !this.rooms.has(roomId)) {
+      logger.error(`[leaveRoom] failed because bot has not joined ${room}`)
+      return
+    }
+    await this.asyncCall('leaveRoom', roomId)
+    const index = this.joinedIds.indexOf(roomId) // may have changed while leaving
+    if (index !== -1) this.joinedIds.splice(index, 1)
+    this.rooms.remove(roomId)
+  }
+
+  /** Load the rooms the user is in, from their subscriptions, into `rooms` */
+  loadRooms (): Promise<IRoom[]> {
+    return this.asyncCall('subscriptions/get', [])
+      .then((result) => this.rooms.load((Array.isArray(result)) ? result : []))
+  }
+
+  /**
+   * Load the rooms the user is in, then keep them updated by subscribing to
+   * changes in the user's subscriptions (emitted as `subscriptionChanged`).
+   * Called on login, requires a user ID.
+   */
+  async trackRooms (): Promise<IRoom[]> {
+    if (!this.userId) throw new Error('[rooms] Login required to track rooms')
+    const rooms = await this.loadRooms()
+    await this.subscribeToStream(streams.notifyUserStream, [`${this.userId}/subscriptions-changed`])
+    logger.info(`[rooms] Tracking ${rooms.length} rooms`)
+    return rooms
+  }
+
+  /** Join a set of rooms by array of names or IDs */
+  joinRooms (rooms: string[]): Promise<void[]> {
+    return Promise.all(rooms.map((room) => this.joinRoom(room)))
+  }
+
+  /**
+   * Structure message content, optionally addressing to room ID and thread.
+   * Accepts message text string or a structured message object.
+   */
+  prepareMessage (
+    content: string | IMessage,
+    roomId?: string,
+    threadId?: string
+  ): Message {
+    const message = new Message(content, this.integrationId)
+    if (roomId) message.setRoomId(roomId)
+    if (threadId) message.setThreadId(threadId)
+    return message
+  }
+
+  /**
+   * Send a prepared message object (with pre-defined room ID).
+   * Usually prepared and called by sendMessageByRoomId or sendMessageByRoom.
+   * Messages are given an ID if they have none, then queued in the outbox if
+   * disconnected (or the connection is lost while sending), to be sent in order
+   * when connected again. The promise resolves once the message is delivered.
+   * Messages pass through `outgoing` hooks first, which may split them (sent in
+   * order, resolving with the last receipt) or veto them (rejecting).
+   */
+  sendMessage (message: IMessage): Promise<IMessageReceiptAPI> {
+    if (!message._id) message._id = outbox.generateId()
+    return this.outgoing.run(message, 'send').then((parts) => {
+      return parts.reduce((sent, part) => {
+        return sent.then(() => this.queueMessage(part))
+      }, Promise.resolve() as Promise<any>)
+    })
+  }
+
+  /**
+   * Queue a message in the outbox if disconnected (or messages are pending),
+   * otherwise deliver it, queueing it if the connection is lost while sending.
+   */
+  queueMessage (message: IMessage): Promise<IMessageReceiptAPI> {
+    if (!this.connected || this.outbox.pending()) {
+      const queued = this.outbox.add(message)
+      if (this.connected) this.flushOutbox().catch(() => null)
+      return queued
+    }
+    return this.deliverMessage(message)
+      .catch((err) => {
+        if (this.connected) throw err
+        return this.outbox.add(message)
+      })
+  }
+
+  /**
+   * Call the send method for a message, rejecting if not connected or if the
+   * connection is lost before the result (the call would otherwise never
+   * settle), including while a reconnect is already under way.
+   */
+  deliverMessage (message: IMessage): Promise<IMessageReceiptAPI> {
+    if (!this.connected) return Promise.reject(new Error('Not connected to send message'))
+    const asteroid = this.asteroid
+    return new Promise((resolve, reject) => {
+      const onDisconnect = () => reject(new Error('Disconnected before message was sent'))
+      const settle = () => {
+        this.events.removeListener('disconnected', onDisconnect)
+        if (asteroid.ddp) asteroid.ddp.removeListener('socket_close', onDisconnect)
+      }
+      this.events.once('disconnected', onDisconnect)
+      if (asteroid.ddp) asteroid.ddp.once('socket_close', onDisconnect)
+      this.asyncCall('sendMessage', message).then((result) => {
+        settle()
+        resolve(result)
+      }, (err) => {
+        settle()
+        reject(err)
+      })
+    })
+  }
+
+  /**
+   * Check if a queued message that failed to send was delivered by an earlier
+   * attempt, by getting it by ID, because the server hides duplicate ID errors
+   * as internal errors. Resolves with the message found, or rejects with the
+   * error from sending.
+   */
+  findDelivered (message: IMessage, err: any): Promise<IMessageReceiptAPI> {
+    if (!this.connected || !message._id || outbox.isDuplicate(err)) return Promise.reject(err)
+    return this.asyncCall('getSingleMessage', message._id)
+      .catch(() => null)
+      .then((found: IMessageReceiptAPI | null) => {
+        if (!found || found._id !== message._id) throw err
+        logger.info(`[outbox] Message ${message._id} was already delivered`)
+        return found
+      })
+  }
+
+  /**
+   * Send messages queued in the outbox, in order. Called after login (so also
+   * when resumed) and after Asteroid's own reconnect. Stops if disconnected
+   * again, leaving the rest queued. Messages already delivered by an attempt
+   * before the connection was lost are not sent again.
+   */
+  flushOutbox (): Promise<void> {
+    return this.outbox.flush(
+      (message) => this.deliverMessage(message)
+        .catch((err) => this.findDelivered(message, err)),
+      () => !this.connected
+    )
+  }
+
+  /**
+   * Prepare and send string/s to specified room ID.
+   * @param content  Accepts message text string or array of strings.
+   * @param roomId   ID of the target room to use in send.
+   * @param threadId ID of a thread's parent message, to send as replies in it.
+   * @todo Returning one or many gets complicated with type checking not allowing
+   *       use of a property because result may be array, when you know it's not.
+   *       Solution would probably be to always return an array, even for single
+   *       send. This would be a breaking change, should hold until major version.
+   */
+  sendToRoomId (
+    content: string | string[] | IMessage,
+    roomId: string,
+    threadId?: string
+  ): Promise<IMessageReceiptAPI[] | IMessageReceiptAPI> {
+    if (!Array.isArray(content)) {
+      return this.sendMessage(this.prepareMessage(content, roomId, threadId))
+    } else {
+      return Promise.all(content.map((text) => {
+        return this.sendMessage(this.prepareMessage(text, roomId, threadId))
+      }))
+    }
+  }
+
+  /**
+   * Prepare and send string/s as replies in the thread of a message, starting
+   * a thread if it's a top-level message.
+   * @param content Accepts message text string or array of strings.
+   * @param message The message to reply to (e.g. as received by a callback).
+   */
+  replyInThread (
+    content: string | string[] | IMessage,
+    message: IMessage
+  ): Promise<IMessageReceiptAPI[] | IMessageReceiptAPI> {
+    if (!message.rid) return Promise.reject(new Error('[threads] Message requires a room ID to reply in thread'))
+    return this.sendToRoomId(content, message.rid, threads.getThreadId(message))
+  }
+
+  /**
+   * Get replies in a thread, oldest first, by the ID of its parent message.
+   * @param threadId ID of the thread's parent message.
+   * @param options  Limit and skip count of messages.
+   */
+  getThreadMessages (
+    threadId: string,
+    options: threads.IThreadOptions = {}
+  ): Promise<IMessage[]> {
+    return this.asyncCall('getThreadMessages', Object.assign({ tmid: threadId }, options))
+  }
+
+  /**
+   * Get messages in a room since a time, oldest first, from its history. Only
+   * the latest are returned if there are more than the limit.
+   * @param roomId ID of the room
+   * @param since  Get messages after this time
+   * @param limit  Max number of messages (default `catchUpLimit` setting)
+   */
+  async getMissedMessages (
+    roomId: string,
+    since: Date,
+    limit: number = settings.catchUpLimit
+  ): Promise<IMessage[]> {
+    const missed: IMessage[] = []
+    let end = new Date()
+    while (true) {
+      const history = await this.asyncCall('loadHistory', [roomId, end, _historyPageSize, null])
+      const messages: any[] = (history && history.messages) || []
+      for (let message of messages) {
+        if (getTime(message.ts) <= since.getTime()) return missed.reverse()
+        if (missed.length >= limit) {
+          logger.warning(`[catchup] Skipped missed messages in ${roomId} before the latest ${limit}`)
+          return missed.reverse()
+        }
+        missed.push(message)
+      }
+      if (messages.length < _historyPageSize) return missed.reverse()
+      end = new Date(getTime(messages[messages.length - 1].ts))
+    }
+  }
+
+  /**
+   * Replay messages missed in each room with a read time (i.e. rooms with
+   * messages processed before), through a handler, in order. New messages in a
+   * room are held by `respondToMessages` until its missed messages are done.
+   * Called by `respondToMessages` with the `catchUp` option, when started and
+   * after reconnecting. Resolves with the count of messages replayed.
+   * @param handler Function given each missed message with meta, including
+   *                `missed: true` and the room's type, resolving when done
+   */
+  async catchUp (handler: (message: IMessage, meta: any) => Promise<any>): Promise<number> {
+    await this.reads.restore()
+    const counts = await Promise.all(this.reads.roomIds().map((roomId) => {
+      let count = 0
+      return this.reads.hold(roomId, async () => {
+        const state = this.reads.states[roomId]
+        const messages = await this.getMissedMessages(roomId, new Date(state.time))
+        for (let message of messages) {
+          await handler(message, { roomType: state.roomType, roomParticipant: true, missed: true })
+        }
+        count = messages.length
+      }).catch((err: Error) => {
+        logger.error(`[catchup] Failed to catch up in ${roomId}: ${err.message}`)
+      }).then(() => count)
+    }))
+    const total = counts.reduce((total, count) => total + count, 0)
+    if (total) logger.info(`[catchup] Replayed ${total} missed messages`)
+    return total
+  }
+
+  /**
+   * Catch up on messages missed while disconnected, once for all handlers from
+   * `respondToMessages` with `catchUp`. Each missed message is given to each
+   * handler in turn, with `readLater` in the meta so the `unread` step leaves
+   * it unread for the next handler, then it is marked read after the last.
+   * Called on `resumed` and after Asteroid's own reconnect. Errors are logged.
+   */
+  catchUpAll (): Promise<void> {
+    const handlers = this.catchUpHandlers.slice()
+    if (!handlers.length) return Promise.resolve()
+    return this.catchUp(async (message: any, meta: any) => {
+      for (let handler of handlers) await handler(message, Object.assign({}, meta, { readLater: true }))
+      markRead(this, message.rid, getTime(message.editedAt || message.ts), meta.roomType)
+    }).then(() => undefined, (err: Error) => {
+      logger.error(`[catchup] Failed to catch up: ${err.message}`)
+    })
+  }
+
+  /**
+   * Prepare and send string/s to specified room name (or ID).
+   * @param content Accepts message text string or array of strings.
+   * @param room    A name (or ID) to resolve as ID to use in send.
+   */
+  sendToRoom (
+    content: string | string[] | IMessage,
+    room: string
+  ): Promise<IMessageReceiptAPI[] | IMessageReceiptAPI> {
+    return this.getRoomId(room)
+      .then((roomId) => this.sendToRoomId(content, roomId))
+  }
+
+  /**
+   * Prepare and send string/s to a user in a DM.
+   * @param content   Accepts message text string or array of strings.
+   * @param username  Name to create (or get) DM for room ID to use in send.
+   */
+  sendDirectToUser (
+    content: string | string[] | IMessage,
+    username: string
+  ): Promise<IMessageReceiptAPI[] | IMessageReceiptAPI> {
+    return this.getDirectMessageRoomId(username)
+      .then((rid) => this.sendToRoomId(content, rid))
+  }
+
+  /**
+   * Edit an existing message, replacing any attributes with those provided.
+   * The given message object should have the ID of an existing message.
+   * Edits pass through `outgoing` hooks, which may change or veto them.
+   */
+  editMessage (message: IMessage): Promise<IMessage> {
+    return this.outgoing.run(message, 'edit')
+      .then((parts) => this.asyncCall('updateMessage', parts[0]))
+  }
+
+  /**
+   * Send a message with buttons, calling the handler when they are clicked.
+   * Buttons send their value (tagged with a unique action ID) as a message from
+   * the user, which is routed to the handler by `respondToMessages` instead of
+   * its callback. Resolves with the action ID, to expire it later.
+   * @param content  Message text string or a structured message object
+   * @param roomId   ID of the target room to use in send
+   * @param buttons  Buttons with text and value (value defaults to text)
+   * @param handler  Function called with each click, see `IActionEvent`
+   * @param options  Expire the action `once` clicked or after a `ttl`
+   * @example
+   *  await driver.sendActions('Deploy?', roomId, [{ text: 'Yes' }, { text: 'No' }], (click) => {
+   *    return click.expire(`${click.message.u.username} said ${click.value}`)
+   *  })
+   */
+  async sendActions (
+    content: string | IMessage,
+    roomId: string,
+    buttons: actions.IActionButton[],
+    handler: actions.IActionHandler,
+    options: actions.IActionOptions = {}
+  ): Promise<string> {
+    const id = outbox.generateId()
+    const message = this.prepareMessage(content, roomId)
+    const values = buttons.map((button) => {
+      return actions.tagValue((button.value !== undefined) ? button.value : button.text, id)
+    })
+    message.addAttachment({ actions: buttons.map((button, index) => ({
+      type: 'button',
+      text: button.text,
+      msg: values[index],
+      msg_in_chat_window: true
+    })) })
+    const action: actions.IRegisteredAction = { id, handler, source: message, values, options }
+    if (options.ttl) {
+      action.timer = setTimeout(() => {
+        this.expireAction(id).catch((err: Error) => logger.error(`[actions] Failed to expire ${id}: ${err.message}`))
+      }, options.ttl)
+    }
+    this.actions.add(action)
+    try {
+      await this.sendMessage(message)
+    } catch (err) {
+      this.actions.remove(id)
+      throw err
+    }
+    return id
+  }
+
+  /**
+   * Call the handler for a click on an action's button, expiring the action
+   * after if it should only be used once. Errors from the handler are logged.
+   * Values not sent by the action's buttons (e.g. typed by a user) are ignored.
+   */
+  async handleAction (id: string, value: string, message: any, meta: any): Promise<void> {
+    const action = this.actions.get(id)
+    if (!action) return
+    if (!this.actions.accepts(id, value)) {
+      logger.warning(`[actions] Ignored value for ${id} not sent by its buttons, from ${message.u.username}`)
+      return
+    }
+    logger.info(`[actions] Clicked ${id} (${value}) by ${message.u.username}`)
+    try {
+      await action.handler({
+        id,
+        value,
+        message,
+        meta,
+        source: action.source,
+        expire: (text?: string) => this.expireAction(id, text),
+        edit: (content: string | IMessage) => this.editAction(id, content)
+      })
+    } catch (err) {
+      logger.error(`[actions] Handler for ${id} failed:`, err)
+    }
+    if (action.options.once) {
+      await this.expireAction(id)
+        .catch((err: Error) => logger.error(`[actions] Failed to expire ${id}: ${err.message}`))
+    }
+  }
+
+  /**
+   * Stop handling clicks for an action and edit its message to remove the
+   * buttons, optionally replacing the message text.
+   */
+  expireAction (id: string, text?: string): Promise<void> {
+    const action = this.actions.remove(id)
+    if (!action) return Promise.resolve()
+    const attachments = (action.source.attachments || [])
+      .map(({ actions, ...attachment }) => attachment)
+      .filter((attachment) => Object.keys(attachment).length > 0)
+    return this.editMessage({
+      _id: action.source._id,
+      rid: action.source.rid,
+      msg: (text !== undefined) ? text : action.source.msg,
+      attachments
+    }).then(() => undefined)
+  }
+
+  /** Edit the message sent with an action's buttons, keeping it in use */
+  editAction (id: string, content: string | IMessage): Promise<void> {
+    const action = this.actions.get(id)
+    if (!action) return Promise.reject(new Error(`[actions] No action ${id} to edit`))
+    const changes = (typeof content === 'string') ? { msg: content } : content
+    Object.assign(action.source, changes, { _id: action.source._id, rid: action.source.rid })
+    return this.editMessage(action.source).then(() => undefined)
+  }
+
+  /**
+   * Send a reaction to an existing message. Simple proxy for method call.
+   * @param emoji     Accepts string like `:thumbsup:` to add 👍 reaction
+   * @param messageId ID for a previously sent message
+   */
+  setReaction (emoji: string, messageId: string) {
+    return this.asyncCall('setReaction', [emoji, messageId])
+  }
+
+  /**
+   * Add a reaction to a message, or remove it if the user already reacted with
+   * it. Resolves with whether the reaction was added (`reacted`) or removed,
+   * by whether the user is among those with the reaction after the change.
+   * @param emoji     Accepts string like `:thumbsup:` (colons are optional)
+   * @param messageId ID for a previously sent message
+   * @param callback  Optional error-first callback, with the result
+   */
+  toggleReaction (
+    emoji: string,
+    messageId: string,
+    callback?: ICallback
+  ): Promise<IReactionResult | undefined> {
+    const reaction = `:${emoji.replace(/^:|:$/g, '')}:`
+    const toggle = async () => {
+      const username = this.getUsername()
+      if (!username) throw new Error('[reaction] Username of the logged in user is unknown')
+      await this.asyncCall('setReaction', [reaction, messageId])
+      const message: IMessage | undefined = await this.asyncCall('getSingleMessage', messageId)
+      const reactions = (message && message.reactions) ? message.reactions[reaction] : undefined
+      const reacted = !!reactions && reactions.usernames.indexOf(username) !== -1
+      return { emoji: reaction, messageId, reacted }
+    }
+    return withCallback(toggle(), callback)
+  }
+
+  /**
+   * Delete a message.
+   * @param messageId ID for a previously sent message
+   * @param callback  Optional error-first callback
+   */
+  deleteMessage (messageId: string, callback?: ICallback): Promise<void> {
+    return withCallback(this.asyncCall('deleteMessage', { _id: messageId })
+      .then(() => undefined), callback)
+  }
+
+  /**
+   * Pin a message in its room. Resolves with the notice of the pin, which is
+   * sent as a message in the room.
+   * @param message  The message (with ID and room ID) to pin
+   * @param callback Optional error-first callback, with the notice
+   */
+  pinMessage (message: IMessage, callback?: ICallback): Promise<IMessage> {
+    return withCallback(this.asyncCall('pinMessage', { _id: message._id, rid: message.rid }), callback)
+  }
+
+  /**
+   * Unpin a pinned message.
+   * @param message  The message (with ID and room ID) to unpin
+   * @param callback Optional error-first callback
+   */
+  unpinMessage (message: IMessage, callback?: ICallback): Promise<void> {
+    return withCallback(this.asyncCall('unpinMessage', { _id: message._id, rid: message.rid })
+      .then(() => undefined), callback)
+  }
+
+  /**
+   * Star a message, for the user only.
+   * @param message  The message (with ID and room ID) to star
+   * @param callback Optional error-first callback
+   */
+  starMessage (message: IMessage, callback?: ICallback): Promise<void> {
+    return withCallback(this.asyncCall('starMessage', { _id: message._id, rid: message.rid, starred: true })
+      .then(() => undefined), callback)
+  }
+
+  /**
+   * Remove the user's star from a message.
+   * @param message  The message (with ID and room ID) to unstar
+   * @param callback Optional error-first callback
+   */
+  unstarMessage (message: IMessage, callback?: ICallback): Promise<void> {
+    return withCallback(this.asyncCall('starMessage', { _id: message._id, rid: message.rid, starred: false })
+      .then(() => undefined), callback)
+  }
+
+  /**
+   * Delete the user's own messages in a room, newest first, optionally in a
+   * time range. Searches room history a page at a time. Messages that fail to
+   * delete are skipped, with their IDs in the result.
+   * @param roomId   ID of the room to clean up
+   * @param options  Time range (`oldest` and `latest`) and `limit` of messages
+   * @param callback Optional error-first callback, with the result
+   */
+  deleteOwnMessages (
+    roomId: string,
+    options: ICleanupOptions = {},
+    callback?: ICallback
+  ): Promise<ICleanupResult | undefined> {
+    return withCallback(this.cleanRoom(roomId, options), callback)
+  }
+
+  // TYPING AND READ RECEIPTS
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get the logged in user's username, for typing events. Taken from login
+   * credentials, or the user document the server publishes after login.
+   */
+  getUsername (): string | undefined {
+    const { username } = (this.credentials || {}) as ICredentials
+    if (username) return username
+    const users = this.asteroid.getCollection('users').reactiveQuery({ _id: this.userId }).result
+    return (users && users.length) ? users[0].username : undefined
+  }
+
+  /**
+   * Show the user as typing in a room. Clients stop showing it after a while,
+   * so it should be sent again (see `whileTyping`) until `stopTyping`.
+   */
+  startTyping (roomId: string, callback?: ICallback): Promise<void> {
+    return withCallback(this.setTyping(roomId, true), callback)
+  }
+
+  /** Stop showing the user as typing in a room */
+  stopTyping (roomId: string, callback?: ICallback): Promise<void> {
+    return withCallback(this.setTyping(roomId, false), callback)
+  }
+
+  /**
+   * Show the user as typing in a room until a promise settles, sending again
+   * every `typingInterval` ms, for at most `typingMaxDuration` ms.
+   * Resolves or rejects with the promise.
+   */
+  whileTyping<T> (roomId: string, promise: Promise<T>): Promise<T> {
+    this.startTyping(roomId).catch(() => null)
+    const timer = setInterval(() => this.startTyping(roomId).catch(() => null), settings.typingInterval)
+    let stopped = false
+    const stop = () => {
+      if (stopped) return
+      stopped = true
+      clearInterval(timer)
+      this.stopTyping(roomId).catch(() => null)
+    }
+    const timeout = setTimeout(stop, settings.typingMaxDuration) // in case it never settles
+    return promise.then((result) => {
+      clearTimeout(timeout)
+      stop()
+      return result
+    }, (err) => {
+      clearTimeout(timeout)
+      stop()
+      throw err
+    })
+  }
+
+  /** Mark all messages in a room read by the user, clearing its unread count */
+  markRoomRead (roomId: string, callback?: ICallback): Promise<void> {
+    logger.debug(`[read] Marking room ${roomId} read`)
+    return withCallback(this.asyncCall('readMessages', roomId), callback)
+  }
+
+  /** Send typing status in a room, as the user (by username) */
+  private setTyping (roomId: string, typing: boolean): Promise<void> {
+    const username = this.getUsername()
+    if (!username) return Promise.reject(new Error('[typing] Login required to send typing'))
+    return this.asyncCall(streams.notifyRoomStream, [`${roomId}/typing`, username, typing])
+  }
+
+  /** Find and delete own messages in a room's history (see `deleteOwnMessages`) */
+  private async cleanRoom (roomId: string, options: ICleanupOptions): Promise<ICleanupResult> {
+    const result: ICleanupResult = { deleted: [], failed: [] }
+    const oldest = (options.oldest) ? options.oldest.getTime() : 0
+    let end = options.latest || new Date()
+    let done = false
+    while (!done) {
+      const history = await this.asyncCall('loadHistory', [roomId, end, _historyPageSize, null])
+      const messages: any[] = (history && history.messages) || []
+      for (let message of messages) {
+        if (getTime(message.ts) < oldest) {
+          done = true
+          break
+        }
+        if (message.u._id !== this.userId || message.t) continue // not own, or system message
+        if (options.limit && result.deleted.length + result.failed.length >= options.limit) {
+          done = true
+          break
+        }
+        await this.deleteMessage(message._id)
+          .then(() => result.deleted.push(message._id))
+          .catch((err: Error) => {
+            logger.error(`[cleanup] Failed to delete ${message._id}: ${err.message}`)
+            result.failed.push(message._id)
+          })
+      }
+      if (messages.length < _historyPageSize) done = true
+      else end = new Date(getTime(messages[messages.length - 1].ts))
+    }
+    logger.info(`[cleanup] Deleted ${result.deleted.length} messages in ${roomId}`)
+    return result
+  }
+}
 
 /**
- * Array of messages received from reactive collection
+ * Call an error-first callback (if given) with the result of a promise. With
+ * a callback, errors are only given to the callback, so the returned promise
+ * resolves undefined instead of rejecting (hence the type with a callback).
  */
-export let messages: ICollection
+function withCallback<T> (promise: Promise<T>): Promise<T>
+function withCallback<T> (promise: Promise<T>, callback?: ICallback): Promise<T | undefined>
+function withCallback<T> (promise: Promise<T>, callback?: ICallback): Promise<T | undefined> {
+  if (!callback) return promise
+  return promise.then((result) => {
+    callback(null, result)
+    return result
+  }, (err): T | undefined => {
+    callback(err)
+    return undefined
+  })
+}
 
 /**
- * Allow override of default logging with adapter's log instance
+ * Get delay before a reconnect attempt, increasing exponentially from the
+ * initial delay with each attempt, up to the max delay.
+ * @param attempt Number of the attempt (starting from 1)
+ * @param config  Reconnect settings, using defaults if not given
  */
-export function useLog (externalLog: ILogger) {
-  replaceLog(externalLog)
+export function getBackoffDelay (attempt: number, config: IConnectOptions = {}): number {
+  const delay = (config.reconnectDelay !== undefined) ? config.reconnectDelay : settings.reconnectDelay
+  const maxDelay = (config.reconnectMaxDelay !== undefined) ? config.reconnectMaxDelay : settings.reconnectMaxDelay
+  const factor = (config.reconnectFactor !== undefined) ? config.reconnectFactor : settings.reconnectFactor
+  return Math.min(delay * Math.pow(factor, attempt - 1), maxDelay)
 }
 
+// DEFAULT INSTANCE
+// -----------------------------------------------------------------------------
+
 /**
- * Initialise asteroid instance with given options or defaults.
- * Returns promise, resolved with Asteroid instance. Callback follows
- * error-first-pattern. Error returned or promise rejected on timeout.
- * Removes http/s protocol to get connection hostname if taken from URL.
- * @example <caption>Use with callback</caption>
- *  import { driver } from '@rocket.chat/sdk'
- *  driver.connect({}, (err) => {
- *    if (err) throw err
- *    else console.log('connected')
- *  })
- * @example <caption>Using promise</caption>
- *  import { driver } from '@rocket.chat/sdk'
- *  driver.connect()
- *    .then(() => console.log('connected'))
- *    .catch((err) => console.error(err))
+ * Default driver, used by the module methods below. Adapters only needing a
+ * single connection can keep using `driver.connect()` etc. without an instance.
+ * The default driver shares the module-level method cache and scheduler.
  */
+export const defaultDriver = new Driver({
+  cache: methodCache.defaultCache,
+  scheduler: scheduler.defaultScheduler
+})
+
+/** Internal for comparing message update timestamps (default driver) */
+export declare let lastReadTime: Date
+
+/** Integration ID applied to sent messages `bot.i` param (default driver) */
+export declare let integrationId: string
+
+/** Event Emitter for listening to connection (default driver) */
+export const events = defaultDriver.events
+
+/** Middleware for messages given to `respondToMessages` callbacks (default driver) */
+export const middleware = defaultDriver.middleware
+
+/** Hooks for messages sent or edited, to change, split or veto them (default driver) */
+export const outgoing = defaultDriver.outgoing
+
+/** Rooms the user is in, loaded on login and updated from the user stream (default driver) */
+export const rooms = defaultDriver.rooms
+
+/** Last message read in each room, to catch up on missed messages (default driver) */
+export const reads = defaultDriver.reads
+
+/** An Asteroid instance for interacting with Rocket.Chat (default driver) */
+export declare let asteroid: IAsteroid
+
+/** Asteroid subscriptions, for direct polling by adapters (default driver) */
+export declare let subscriptions: ISubscription[]
+
+/** Current user ID populated from resolved login (default driver) */
+export declare let userId: string
+
+/** Array of joined room IDs (default driver) */
+export declare let joinedIds: string[]
+
+/** Array of messages received from reactive collection (default driver) */
+export declare let messages: ICollection
+
+// State is read live from the default driver, so it stays current after calls
+exportLive(exports, defaultDriver, [
+  'lastReadTime', 'integrationId', 'asteroid', 'subscriptions', 'userId', 'joinedIds', 'messages'
+])
+
+/** Initialise asteroid instance with given options or defaults. */
 export function connect (
   options: IConnectOptions = {},
   callback?: ICallback
 ): Promise<IAsteroid> {
-  return new Promise((resolve, reject) => {
-    const config = Object.assign({}, settings, options) // override defaults
-    config.host = config.host.replace(/(^\w+:|^)\/\//, '')
-    logger.info('[connect] Connecting', config)
-    asteroid = new Asteroid(config.host, config.useSsl)
-
-    setupMethodCache(asteroid) // init instance for later caching method calls
-    asteroid.on('connected', () => {
-      asteroid.resumeLoginPromise.catch(function () {
-        // pass
-      })
-      events.emit('connected')
-    })
-    asteroid.on('reconnected', () => events.emit('reconnected'))
-    let cancelled = false
-    const rejectionTimeout = setTimeout(function () {
-      logger.info(`[connect] Timeout (${config.timeout})`)
-      const err = new Error('Asteroid connection timeout')
-      cancelled = true
-      events.removeAllListeners('connected')
-      callback ? callback(err, asteroid) : reject(err)
-    }, config.timeout)
-
-    // if to avoid condition where timeout happens before listener to 'connected' is added
-    // and this listener is not removed (because it was added after the removal)
-    if (!cancelled) {
-      events.once('connected', () => {
-        logger.info('[connect] Connected')
-        // if (cancelled) return asteroid.ddp.disconnect() // cancel if already rejected
-        clearTimeout(rejectionTimeout)
-        if (callback) callback(null, asteroid)
-        resolve(asteroid)
-      })
-    }
-  })
+  return defaultDriver.connect(options, callback)
 }
 
 /** Remove all active subscriptions, logout and disconnect from Rocket.Chat */
 export function disconnect (): Promise<void> {
-  logger.info('Unsubscribing, logging out, disconnecting')
-  unsubscribeAll()
-  return logout()
-    .then(() => Promise.resolve())
+  return defaultDriver.disconnect()
 }
 
-// ASYNC AND CACHE METHOD UTILS
-// -----------------------------------------------------------------------------
-
-/**
- * Setup method cache configs from env or defaults, before they are called.
- * @param asteroid The asteroid instance to cache method calls
- */
-function setupMethodCache (asteroid: IAsteroid): void {
-  methodCache.use(asteroid)
-  methodCache.create('getRoomIdByNameOrId', {
-    max: settings.roomCacheMaxSize,
-    maxAge: settings.roomCacheMaxAge
-  }),
-  methodCache.create('getRoomNameById', {
-    max: settings.roomCacheMaxSize,
-    maxAge: settings.roomCacheMaxAge
-  })
-  methodCache.create('createDirectMessage', {
-    max: settings.dmCacheMaxSize,
-    maxAge: settings.dmCacheMaxAge
-  })
+/** Connect again with the last config then restore the session. */
+export function resume (): Promise<void> {
+  return defaultDriver.resume()
 }
 
-/**
- * Wraps method calls to ensure they return a Promise with caught exceptions.
- * @param method The Rocket.Chat server method, to call through Asteroid
- * @param params Single or array of parameters of the method to call
- */
+/** Wraps method calls to ensure they return a Promise with caught exceptions. */
 export function asyncCall (method: string, params: any | any[]): Promise<any> {
-  if (!Array.isArray(params)) params = [params] // cast to array for apply
-  logger.info(`[${method}] Calling (async): ${JSON.stringify(params)}`)
-  return Promise.resolve(asteroid.apply(method, params).result)
-    .catch((err: Error) => {
-      logger.error(`[${method}] Error:`, err)
-      throw err // throw after log to stop async chain
-    })
-    .then((result: any) => {
-      (result)
-        ? logger.debug(`[${method}] Success: ${JSON.stringify(result)}`)
-        : logger.debug(`[${method}] Success`)
-      return result
-    })
+  return defaultDriver.asyncCall(method, params)
 }
 
-/**
- * Call a method as async via Asteroid, or through cache if one is created.
- * If the method doesn't have or need parameters, it can't use them for caching
- * so it will always call asynchronously.
- * @param name The Rocket.Chat server method to call
- * @param params Single or array of parameters of the method to call
- */
+/** Call a method as async via Asteroid, or through cache if one is created. */
 export function callMethod (name: string, params?: any | any[]): Promise<any> {
-  return (methodCache.has(name) || typeof params === 'undefined')
-    ? asyncCall(name, params)
-    : cacheCall(name, params)
+  return defaultDriver.callMethod(name, params)
 }
 
-/**
- * Wraps Asteroid method calls, passed through method cache if cache is valid.
- * @param method The Rocket.Chat server method, to call through Asteroid
- * @param key Single string parameters only, required to use as cache key
- */
+/** Wraps Asteroid method calls, passed through method cache if cache is valid. */
 export function cacheCall (method: string, key: string): Promise<any> {
-  return methodCache.call(method, key)
-    .catch((err: Error) => {
-      logger.error(`[${method}] Error:`, err)
-      throw err // throw after log to stop async chain
-    })
-    .then((result: any) => {
-      (result)
-        ? logger.debug(`[${method}] Success: ${JSON.stringify(result)}`)
-        : logger.debug(`[${method}] Success`)
-      return result
-    })
+  return defaultDriver.cacheCall(method, key)
 }
 
-// LOGIN AND SUBSCRIBE TO ROOMS
-// -----------------------------------------------------------------------------
-
 /** Login to Rocket.Chat via Asteroid */
-export function login (credentials: ICredentials = {
-  username: settings.username,
-  password: settings.password,
-  ldap: settings.ldap
-}): Promise<any> {
-  let login: Promise<any>
-  // if (credentials.ldap) {
-  //   logger.info(`[login] Logging in ${credentials.username} with LDAP`)
-  //   login = asteroid.loginWithLDAP(
-  //     credentials.email || credentials.username,
-  //     credentials.password,
-  //     { ldap: true, ldapOptions: credentials.ldapOptions || {} }
-  //   )
-  // } else {
-  logger.info(`[login] Logging in ${credentials.username}`)
-  login = asteroid.loginWithPassword(
-    credentials.email || credentials.username!,
-    credentials.password
-  )
-  // }
-  return login
-    .then((loggedInUserId) => {
-      userId = loggedInUserId
-      return loggedInUserId
-    })
-    .catch((err: Error) => {
-      logger.info('[login] Error:', err)
-      throw err // throw after log to stop async chain
-    })
+export function login (credentials?: IAnyCredentials): Promise<any> {
+  return defaultDriver.login(credentials)
+}
+
+/** Login with a personal access token or a resume token */
+export function loginWithToken (credentials: ITokenCredentials): Promise<string> {
+  return defaultDriver.loginWithToken(credentials)
+}
+
+/** Get details of the current login, to reuse the session */
+export function getSession (): ISession | null {
+  return defaultDriver.getSession()
+}
+
+/** Login with a session exported from another driver or API client */
+export function useSession (session: ISession): Promise<string> {
+  return defaultDriver.useSession(session)
 }
 
 /** Logout of Rocket.Chat via Asteroid */
 export function logout (): Promise<void | null> {
-  return asteroid.logout()
-    .catch((err: Error) => {
-      logger.error('[Logout] Error:', err)
-      throw err // throw after log to stop async chain
-    })
+  return defaultDriver.logout()
 }
 
-/**
- * Subscribe to Meteor subscription
- * Resolves with subscription (added to array), with ID property
- * @todo - 3rd param of asteroid.subscribe is deprecated in Rocket.Chat?
- */
-export function subscribe (
-  topic: string,
-  roomId: string
-): Promise<ISubscription> {
-  return new Promise((resolve, reject) => {
-    logger.info(`[subscribe] Preparing subscription: ${topic}: ${roomId}`)
-    const subscription = asteroid.subscribe(topic, roomId, true)
-    subscriptions.push(subscription)
-    return subscription.ready
-      .then((id) => {
-        logger.info(`[subscribe] Stream ready: ${id}`)
-        resolve(subscription)
-      })
-  })
+/** Subscribe to Meteor subscription */
+export function subscribe (topic: string, roomId: string): Promise<ISubscription> {
+  return defaultDriver.subscribe(topic, roomId)
 }
 
 /** Unsubscribe from Meteor subscription */
 export function unsubscribe (subscription: ISubscription): void {
-  const index = subscriptions.indexOf(subscription)
-  if (index === -1) return
-  subscription.stop()
-  // asteroid.unsubscribe(subscription.id) // v2
-  subscriptions.splice(index, 1) // remove from collection
-  logger.info(`[${subscription.id}] Unsubscribed`)
+  return defaultDriver.unsubscribe(subscription)
 }
 
 /** Unsubscribe from all subscriptions in collection */
 export function unsubscribeAll (): void {
-  subscriptions.map((s: ISubscription) => unsubscribe(s))
+  return defaultDriver.unsubscribeAll()
 }
 
-/**
- * Begin subscription to room events for user.
- * Older adapters used an option for this method but it was always the default.
- */
+/** Begin subscription to room events for user. */
 export function subscribeToMessages (): Promise<ISubscription> {
-  return subscribe(_messageCollectionName, _messageStreamName)
-    .then((subscription) => {
-      messages = asteroid.getCollection(_messageCollectionName)
-      return subscription
-    })
+  return defaultDriver.subscribeToMessages()
 }
 
-/**
- * Once a subscription is created, using `subscribeToMessages` this method
- * can be used to attach a callback to changes in the message stream.
- * This can be called directly for custom extensions, but for most usage (e.g.
- * for bots) the respondToMessages is more useful to only receive messages
- * matching configuration.
- *
- * If the bot hasn't been joined to any rooms at this point, it will attempt to
- * join now based on environment config, otherwise it might not receive any
- * messages. It doesn't matter that this happens asynchronously because the
- * bot's joined rooms can change after the reactive query is set up.
- *
- * @todo `reactToMessages` should call `subscribeToMessages` if not already
- *       done, so it's not required as an arbitrary step for simpler adapters.
- *       Also make `login` call `connect` for the same reason, the way
- *       `respondToMessages` calls `respondToMessages`, so all that's really
- *       required is:
- *       `driver.login(credentials).then(() => driver.respondToMessages(callback))`
- * @param callback Function called with every change in subscriptions.
- *  - Uses error-first callback pattern
- *  - Second argument is the changed item
- *  - Third argument is additional attributes, such as `roomType`
- */
+/** Subscribe to typing and deleted message events in a room. */
+export function subscribeToRoomEvents (roomId: string): Promise<ISubscription[]> {
+  return defaultDriver.subscribeToRoomEvents(roomId)
+}
+
+/** Subscribe to changes in the user's rooms, subscriptions and notifications. */
+export function subscribeToUserEvents (): Promise<ISubscription[]> {
+  return defaultDriver.subscribeToUserEvents()
+}
+
+/** Subscribe to status changes of users. */
+export function subscribeToPresence (): Promise<ISubscription[]> {
+  return defaultDriver.subscribeToPresence()
+}
+
+/** Attach a callback to changes in the message stream. */
 export function reactToMessages (callback: ICallback): void {
-  logger.info(`[reactive] Listening for change events in collection ${messages.name}`)
-
-  messages.reactiveQuery({}).on('change', (_id: string) => {
-    const changedMessageQuery = messages.reactiveQuery({ _id })
-    if (changedMessageQuery.result && changedMessageQuery.result.length > 0) {
-      const changedMessage = changedMessageQuery.result[0]
-      if (Array.isArray(changedMessage.args)) {
-        logger.info(`[received] Message in room ${ changedMessage.args[0].rid }`)
-        callback(null, changedMessage.args[0], changedMessage.args[1])
-      } else {
-        logger.debug('[received] Update without message args')
-      }
-    } else {
-      logger.debug('[received] Reactive query at ID ${ _id } without results')
-    }
-  })
+  return defaultDriver.reactToMessages(callback)
 }
 
-/**
- * Proxy for `reactToMessages` with some filtering of messages based on config.
- *
- * @param callback Function called after filters run on subscription events.
- *  - Uses error-first callback pattern
- *  - Second argument is the changed item
- *  - Third argument is additional attributes, such as `roomType`
- * @param options Sets filters for different event/message types.
- */
+/** Proxy for `reactToMessages` with some filtering of messages based on config. */
 export function respondToMessages (
   callback: ICallback,
-  options: IRespondOptions = {}
+  options?: IRespondOptions
 ): Promise<void | void[]> {
-  const config = Object.assign({}, settings, options)
-  // return value, may be replaced by async ops
-  let promise: Promise<void | void[]> = Promise.resolve()
-
-  // Join configured rooms if they haven't been already, unless listening to all
-  // public rooms, in which case it doesn't matter
-  if (
-    !config.allPublic &&
-    joinedIds.length === 0 &&
-    config.rooms &&
-    config.rooms.length > 0
-  ) {
-    promise = joinRooms(config.rooms)
-      .catch((err) => {
-        logger.error(`[joinRooms] Failed to join configured rooms (${config.rooms.join(', ')}): ${err.message}`)
-      })
-  }
-
-  lastReadTime = new Date() // init before any message read
-  reactToMessages(async (err, message, meta) => {
-    if (err) {
-      logger.error(`[received] Unable to receive: ${err.message}`)
-      callback(err) // bubble errors back to adapter
-    }
-
-    // Ignore bot's own messages
-    if (message.u._id === userId) return
-
-    // Ignore DMs unless configured not to
-    const isDM = meta.roomType === 'd'
-    if (isDM && !config.dm) return
-
-    // Ignore Livechat unless configured not to
-    const isLC = meta.roomType === 'l'
-    if (isLC && !config.livechat) return
-
-    // Ignore messages in un-joined public rooms unless configured not to
-    if (!config.allPublic && !isDM && !meta.roomParticipant) return
-
-    // Set current time for comparison to incoming
-    let currentReadTime = new Date(message.ts.$date)
-
-    // Ignore edited messages if configured to
-    if (!config.edited && message.editedAt) return
-
-    // Set read time as time of edit, if message is edited
-    if (message.editedAt) currentReadTime = new Date(message.editedAt.$date)
-
-    // Ignore messages in stream that aren't new
-    if (currentReadTime <= lastReadTime) return
-
-    // At this point, message has passed checks and can be responded to
-    logger.info(`[received] Message ${message._id} from ${message.u.username}`)
-    lastReadTime = currentReadTime
-
-    // Processing completed, call callback to respond to message
-    callback(null, message, meta)
-  })
-  return promise
+  return defaultDriver.respondToMessages(callback, options)
 }
 
-// PREPARE AND SEND MESSAGES
-// -----------------------------------------------------------------------------
-
 /** Get ID for a room by name (or ID). */
 export function getRoomId (name: string): Promise<string> {
-  return cacheCall('getRoomIdByNameOrId', name)
+  return defaultDriver.getRoomId(name)
 }
 
 /** Get name for a room by ID. */
 export function getRoomName (id: string): Promise<string> {
-  return cacheCall('getRoomNameById', id)
+  return defaultDriver.getRoomName(id)
 }
 
-/**
- * Get ID for a DM room by its recipient's name.
- * Will create a DM (with the bot) if it doesn't exist already.
- * @todo test why create resolves with object instead of simply ID
- */
+/** Get ID for a DM room by its recipient's name. */
 export function getDirectMessageRoomId (username: string): Promise<string> {
-  return cacheCall('createDirectMessage', username)
-    .then((DM) => DM.rid)
+  return defaultDriver.getDirectMessageRoomId(username)
 }
 
 /** Join the bot into a room by its name or ID */
-export async function joinRoom (room: string): Promise<void> {
-  let roomId = await getRoomId(room)
-  let joinedIndex = joinedIds.indexOf(room)
-  if (joinedIndex !== -1) {
-    logger.error(`[joinRoom] room was already joined`)
-  } else {
-    await asyncCall('joinRoom', roomId)
-    joinedIds.push(roomId)
-  }
+export function joinRoom (room: string): Promise<void> {
+  return defaultDriver.joinRoom(room)
 }
 
 /** Exit a room the bot has joined */
-export async function leaveRoom (room: string): Promise<void> {
-  let roomId = await getRoomId(room)
-  let joinedIndex = joinedIds.indexOf(room)
-  if (joinedIndex === -1) {
-    logger.error(`[leaveRoom] failed because bot has not joined ${room}`)
-  } else {
-    await asyncCall('leaveRoom', roomId)
-    delete joinedIds[joinedIndex]
-  }
+export function leaveRoom (room: string): Promise<void> {
+  return defaultDriver.leaveRoom(room)
 }
 
 /** Join a set of rooms by array of names or IDs */
 export function joinRooms (rooms: string[]): Promise<void[]> {
-  return Promise.all(rooms.map((room) => joinRoom(room)))
+  return defaultDriver.joinRooms(rooms)
 }
 
-/**
- * Structure message content, optionally addressing to room ID.
- * Accepts message text string or a structured message object.
- */
+/** Load the rooms the user is in, from their subscriptions. */
+export function loadRooms (): Promise<IRoom[]> {
+  return defaultDriver.loadRooms()
+}
+
+/** Load the rooms the user is in, then keep them updated from subscription changes. */
+export function trackRooms (): Promise<IRoom[]> {
+  return defaultDriver.trackRooms()
+}
+
+/** Structure message content, optionally addressing to room ID and thread. */
 export function prepareMessage (
   content: string | IMessage,
-  roomId?: string
+  roomId?: string,
+  threadId?: string
 ): Message {
-  const message = new Message(content, integrationId)
-  if (roomId) message.setRoomId(roomId)
-  return message
+  return defaultDriver.prepareMessage(content, roomId, threadId)
 }
 
-/**
- * Send a prepared message object (with pre-defined room ID).
- * Usually prepared and called by sendMessageByRoomId or sendMessageByRoom.
- */
+/** Send a prepared message object (with pre-defined room ID). */
 export function sendMessage (message: IMessage): Promise<IMessageReceiptAPI> {
-  return asyncCall('sendMessage', message)
+  return defaultDriver.sendMessage(message)
 }
 
-/**
- * Prepare and send string/s to specified room ID.
- * @param content Accepts message text string or array of strings.
- * @param roomId  ID of the target room to use in send.
- * @todo Returning one or many gets complicated with type checking not allowing
- *       use of a property because result may be array, when you know it's not.
- *       Solution would probably be to always return an array, even for single
- *       send. This would be a breaking change, should hold until major version.
- */
+/** Send a message with buttons, calling the handler when they are clicked. */
+export function sendActions (
+  content: string | IMessage,
+  roomId: string,
+  buttons: actions.IActionButton[],
+  handler: actions.IActionHandler,
+  options?: actions.IActionOptions
+): Promise<string> {
+  return defaultDriver.sendActions(content, roomId, buttons, handler, options)
+}
+
+/** Stop handling clicks for an action and remove its buttons. */
+export function expireAction (id: string, text?: string): Promise<void> {
+  return defaultDriver.expireAction(id, text)
+}
+
+/** Edit the message sent with an action's buttons, keeping it in use. */
+export function editAction (id: string, content: string | IMessage): Promise<void> {
+  return defaultDriver.editAction(id, content)
+}
+
+/** Send messages queued in the outbox, in order. */
+export function flushOutbox (): Promise<void> {
+  return defaultDriver.flushOutbox()
+}
+
+/** Prepare and send string/s to specified room ID. */
 export function sendToRoomId (
   content: string | string[] | IMessage,
-  roomId: string
+  roomId: string,
+  threadId?: string
 ): Promise<IMessageReceiptAPI[] | IMessageReceiptAPI> {
-  if (!Array.isArray(content)) {
-    return sendMessage(prepareMessage(content, roomId))
-  } else {
-    return Promise.all(content.map((text) => {
-      return sendMessage(prepareMessage(text, roomId))
-    }))
-  }
+  return defaultDriver.sendToRoomId(content, roomId, threadId)
 }
 
-/**
- * Prepare and send string/s to specified room name (or ID).
- * @param content Accepts message text string or array of strings.
- * @param room    A name (or ID) to resolve as ID to use in send.
- */
+/** Prepare and send string/s as replies in the thread of a message. */
+export function replyInThread (
+  content: string | string[] | IMessage,
+  message: IMessage
+): Promise<IMessageReceiptAPI[] | IMessageReceiptAPI> {
+  return defaultDriver.replyInThread(content, message)
+}
+
+/** Get replies in a thread by the ID of its parent message. */
+export function getThreadMessages (
+  threadId: string,
+  options?: threads.IThreadOptions
+): Promise<IMessage[]> {
+  return defaultDriver.getThreadMessages(threadId, options)
+}
+
+/** Get messages in a room since a time, oldest first, from its history. */
+export function getMissedMessages (
+  roomId: string,
+  since: Date,
+  limit?: number
+): Promise<IMessage[]> {
+  return defaultDriver.getMissedMessages(roomId, since, limit)
+}
+
+/** Replay messages missed in each room with a read time, through a handler. */
+export function catchUp (handler: (message: IMessage, meta: any) => Promise<any>): Promise<number> {
+  return defaultDriver.catchUp(handler)
+}
+
+/** Prepare and send string/s to specified room name (or ID). */
 export function sendToRoom (
   content: string | string[] | IMessage,
   room: string
 ): Promise<IMessageReceiptAPI[] | IMessageReceiptAPI> {
-  return getRoomId(room)
-    .then((roomId) => sendToRoomId(content, roomId))
+  return defaultDriver.sendToRoom(content, room)
 }
 
-/**
- * Prepare and send string/s to a user in a DM.
- * @param content   Accepts message text string or array of strings.
- * @param username  Name to create (or get) DM for room ID to use in send.
- */
+/** Prepare and send string/s to a user in a DM. */
 export function sendDirectToUser (
   content: string | string[] | IMessage,
   username: string
 ): Promise<IMessageReceiptAPI[] | IMessageReceiptAPI> {
-  return getDirectMessageRoomId(username)
-    .then((rid) => sendToRoomId(content, rid))
+  return defaultDriver.sendDirectToUser(content, username)
 }
 
-/**
- * Edit an existing message, replacing any attributes with those provided.
- * The given message object should have the ID of an existing message.
- */
+/** Edit an existing message, replacing any attributes with those provided. */
 export function editMessage (message: IMessage): Promise<IMessage> {
-  return asyncCall('updateMessage', message)
+  return defaultDriver.editMessage(message)
 }
 
-/**
- * Send a reaction to an existing message. Simple proxy for method call.
- * @param emoji     Accepts string like `:thumbsup:` to add 👍 reaction
- * @param messageId ID for a previously sent message
- */
+/** Send a reaction to an existing message. Simple proxy for method call. */
 export function setReaction (emoji: string, messageId: string) {
-  return asyncCall('setReaction', [emoji, messageId])
+  return defaultDriver.setReaction(emoji, messageId)
+}
+
+/** Add a reaction to a message, or remove it if already reacted. */
+export function toggleReaction (
+  emoji: string,
+  messageId: string,
+  callback?: ICallback
+): Promise<IReactionResult | undefined> {
+  return defaultDriver.toggleReaction(emoji, messageId, callback)
+}
+
+/** Delete a message. */
+export function deleteMessage (messageId: string, callback?: ICallback): Promise<void> {
+  return defaultDriver.deleteMessage(messageId, callback)
+}
+
+/** Pin a message in its room. */
+export function pinMessage (message: IMessage, callback?: ICallback): Promise<IMessage> {
+  return defaultDriver.pinMessage(message, callback)
+}
+
+/** Unpin a pinned message. */
+export function unpinMessage (message: IMessage, callback?: ICallback): Promise<void> {
+  return defaultDriver.unpinMessage(message, callback)
+}
+
+/** Star a message, for the user only. */
+export function starMessage (message: IMessage, callback?: ICallback): Promise<void> {
+  return defaultDriver.starMessage(message, callback)
+}
+
+/** Remove the user's star from a message. */
+export function unstarMessage (message: IMessage, callback?: ICallback): Promise<void> {
+  return defaultDriver.unstarMessage(message, callback)
+}
+
+/** Delete the user's own messages in a room, optionally in a time range. */
+export function deleteOwnMessages (
+  roomId: string,
+  options?: ICleanupOptions,
+  callback?: ICallback
+): Promise<ICleanupResult | undefined> {
+  return defaultDriver.deleteOwnMessages(roomId, options, callback)
+}
+
+/** Show the user as typing in a room. */
+export function startTyping (roomId: string, callback?: ICallback): Promise<void> {
+  return defaultDriver.startTyping(roomId, callback)
+}
+
+/** Stop showing the user as typing in a room. */
+export function stopTyping (roomId: string, callback?: ICallback): Promise<void> {
+  return defaultDriver.stopTyping(roomId, callback)
+}
+
+/** Show the user as typing in a room until a promise settles. */
+export function whileTyping<T> (roomId: string, promise: Promise<T>): Promise<T> {
+  return defaultDriver.whileTyping(roomId, promise)
+}
+
+/** Mark all messages in a room read by the user. */
+export function markRoomRead (roomId: string, callback?: ICallback): Promise<void> {
+  return defaultDriver.markRoomRead(roomId, callback)
 }
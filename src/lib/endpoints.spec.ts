@@ -0,0 +1,123 @@
+import 'mocha'
+import sinon from 'sinon'
+import { expect } from 'chai'
+import {
+  ChannelEndpoints,
+  GroupEndpoints,
+  ImEndpoints,
+  ChatEndpoints
+} from './endpoints'
+
+describe('endpoints', () => {
+  let client: any
+  beforeEach(() => {
+    client = {
+      get: sinon.stub().resolves({ success: true }),
+      post: sinon.stub().resolves({ success: true })
+    }
+  })
+  describe('ChannelEndpoints', () => {
+    let channels: ChannelEndpoints
+    beforeEach(() => channels = new ChannelEndpoints(client))
+    it('.create posts name, members and read only status', async () => {
+      await channels.create('test', ['bot'])
+      sinon.assert.calledWithExactly(client.post, 'channels.create', {
+        name: 'test', members: ['bot'], readOnly: false
+      })
+    })
+    it('.info gets room by query', async () => {
+      await channels.info({ roomName: 'test' })
+      sinon.assert.calledWithExactly(client.get, 'channels.info', { roomName: 'test' })
+    })
+    it('.list gets with list query', async () => {
+      await channels.list({ count: 10, offset: 20 })
+      sinon.assert.calledWithExactly(client.get, 'channels.list', { count: 10, offset: 20 })
+    })
+    it('.history gets with history query', async () => {
+      await channels.history({ roomId: 'RID', count: 5 })
+      sinon.assert.calledWithExactly(client.get, 'channels.history', { roomId: 'RID', count: 5 })
+    })
+    it('.invite and .kick post room and user IDs', async () => {
+      await channels.invite('RID', 'UID')
+      await channels.kick('RID', 'UID')
+      sinon.assert.calledWithExactly(client.post, 'channels.invite', { roomId: 'RID', userId: 'UID' })
+      sinon.assert.calledWithExactly(client.post, 'channels.kick', { roomId: 'RID', userId: 'UID' })
+    })
+    it('.archive and .unarchive post room ID', async () => {
+      await channels.archive('RID')
+      await channels.unarchive('RID')
+      sinon.assert.calledWithExactly(client.post, 'channels.archive', { roomId: 'RID' })
+      sinon.assert.calledWithExactly(client.post, 'channels.unarchive', { roomId: 'RID' })
+    })
+    it('.rename and .setTopic post room ID and value', async () => {
+      await channels.rename('RID', 'renamed')
+      await channels.setTopic('RID', 'topic')
+      sinon.assert.calledWithExactly(client.post, 'channels.rename', { roomId: 'RID', name: 'renamed' })
+      sinon.assert.calledWithExactly(client.post, 'channels.setTopic', { roomId: 'RID', topic: 'topic' })
+    })
+    it('.iterate gets pages of channels from list', async () => {
+      client.get.resolves({ channels: [{ _id: 'RID' }], total: 1, success: true })
+      const result = []
+      for await (const channel of channels.iterate({}, { pageSize: 10 })) result.push(channel)
+      expect(result).to.eql([{ _id: 'RID' }])
+      sinon.assert.calledWithExactly(client.get, 'channels.list', { count: 10, offset: 0 })
+    })
+    it('resolves with result of request', async () => {
+      client.get.resolves({ channel: { _id: 'RID' }, success: true })
+      const result = await channels.info({ roomId: 'RID' })
+      expect(result.channel._id).to.equal('RID')
+    })
+  })
+  describe('GroupEndpoints', () => {
+    it('uses groups prefix for endpoints', async () => {
+      const groups = new GroupEndpoints(client)
+      await groups.create('private')
+      await groups.info({ roomId: 'RID' })
+      sinon.assert.calledWith(client.post, 'groups.create')
+      sinon.assert.calledWith(client.get, 'groups.info')
+    })
+  })
+  describe('ImEndpoints', () => {
+    it('.create posts username', async () => {
+      await new ImEndpoints(client).create('bot')
+      sinon.assert.calledWithExactly(client.post, 'im.create', { username: 'bot' })
+    })
+    it('.history gets with history query', async () => {
+      await new ImEndpoints(client).history({ roomId: 'RID' })
+      sinon.assert.calledWithExactly(client.get, 'im.history', { roomId: 'RID' })
+    })
+  })
+  describe('ChatEndpoints', () => {
+    let chat: ChatEndpoints
+    beforeEach(() => chat = new ChatEndpoints(client))
+    it('.postMessage, .update and .delete post message payload', async () => {
+      await chat.postMessage({ roomId: 'RID', text: 'hi' })
+      await chat.update({ roomId: 'RID', msgId: 'MID', text: 'hello' })
+      await chat.delete({ roomId: 'RID', msgId: 'MID' })
+      sinon.assert.calledWithExactly(client.post, 'chat.postMessage', { roomId: 'RID', text: 'hi' })
+      sinon.assert.calledWithExactly(client.post, 'chat.update', { roomId: 'RID', msgId: 'MID', text: 'hello' })
+      sinon.assert.calledWithExactly(client.post, 'chat.delete', { roomId: 'RID', msgId: 'MID' })
+    })
+    it('.getThreadMessages gets with thread query', async () => {
+      await chat.getThreadMessages({ tmid: 'TMID', count: 10 })
+      sinon.assert.calledWithExactly(client.get, 'chat.getThreadMessages', { tmid: 'TMID', count: 10 })
+    })
+    it('.iterateThreadMessages gets pages of thread messages', async () => {
+      client.get.resolves({ messages: [{ _id: 'MID' }], total: 1, success: true })
+      const result = []
+      for await (const message of chat.iterateThreadMessages('TMID', { pageSize: 10 })) result.push(message)
+      expect(result).to.eql([{ _id: 'MID' }])
+      sinon.assert.calledWithExactly(client.get, 'chat.getThreadMessages', { tmid: 'TMID', count: 10, offset: 0 })
+    })
+    it('.pin, .unpin, .star and .unstar post message ID', async () => {
+      await chat.pin('MID')
+      await chat.unpin('MID')
+      await chat.star('MID')
+      await chat.unstar('MID')
+      sinon.assert.calledWithExactly(client.post, 'chat.pinMessage', { messageId: 'MID' })
+      sinon.assert.calledWithExactly(client.post, 'chat.unPinMessage', { messageId: 'MID' })
+      sinon.assert.calledWithExactly(client.post, 'chat.starMessage', { messageId: 'MID' })
+      sinon.assert.calledWithExactly(client.post, 'chat.unStarMessage', { messageId: 'MID' })
+    })
+  })
+})
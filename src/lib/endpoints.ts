@@ -0,0 +1,190 @@
+import {
+  IMessageAPI,
+  IMessageUpdateAPI,
+  IMessageResultAPI,
+  IMessageDeleteAPI,
+  IMessageDeleteResultAPI,
+  IMessagePinResultAPI,
+  IRoomResultAPI,
+  IRoomQueryAPI,
+  IListQueryAPI,
+  IHistoryQueryAPI,
+  IHistoryResultAPI,
+  IChannelAPI,
+  IChannelResultAPI,
+  IChannelListResultAPI,
+  IGroupAPI,
+  IGroupResultAPI,
+  IGroupListResultAPI,
+  ISuccessResultAPI,
+  IMessageReceiptAPI,
+  IThreadQueryAPI,
+  IThreadResultAPI
+} from '../utils/interfaces'
+import { IPageOptions, paginate, paginateHistory } from './pagination'
+
+/**
+ * Client to make requests with, e.g. an `ApiClient` instance.
+ * Requests require auth (logging in first if needed) unless `auth` is false.
+ */
+export interface IRequestClient {
+  get: (endpoint: string, data?: any, auth?: boolean, ignore?: RegExp) => Promise<any>,
+  post: (endpoint: string, data: any, auth?: boolean, ignore?: RegExp) => Promise<any>
+}
+
+/**
+ * Endpoints shared by public channels and private groups, which only differ
+ * by prefix and the result (and room) types.
+ * @param client  Client to make requests with
+ * @param prefix  Endpoint prefix, `channels` or `groups`
+ */
+export class RoomEndpoints<TResult, TListResult, TRoom = any> {
+  constructor (
+    protected client: IRequestClient,
+    protected prefix: 'channels' | 'groups'
+  ) {}
+
+  /** Create a room, with optional members (usernames) */
+  create (name: string, members: string[] = [], readOnly: boolean = false): Promise<TResult> {
+    return this.client.post(`${this.prefix}.create`, { name, members, readOnly })
+  }
+
+  /** Get information about a room by ID or name */
+  info (query: IRoomQueryAPI): Promise<TResult> {
+    return this.client.get(`${this.prefix}.info`, query)
+  }
+
+  /** List rooms (all channels, or groups the user is in) */
+  list (query: IListQueryAPI = {}): Promise<TListResult> {
+    return this.client.get(`${this.prefix}.list`, query)
+  }
+
+  /** Iterate all rooms, requesting a page at a time */
+  iterate (query: IListQueryAPI = {}, options?: IPageOptions): AsyncIterableIterator<TRoom> {
+    return paginate<TRoom>(this.client, `${this.prefix}.list`, this.prefix, query, options)
+  }
+
+  /** Get messages from a room, in a time range and/or count from offset */
+  history (query: IHistoryQueryAPI): Promise<IHistoryResultAPI> {
+    return this.client.get(`${this.prefix}.history`, query)
+  }
+
+  /** Iterate all messages from a room (newest first), a page at a time */
+  iterateHistory (query: IHistoryQueryAPI, options?: IPageOptions): AsyncIterableIterator<IMessageReceiptAPI> {
+    return paginateHistory(this.client, `${this.prefix}.history`, query, options)
+  }
+
+  /** Add a user to a room */
+  invite (roomId: string, userId: string): Promise<TResult> {
+    return this.client.post(`${this.prefix}.invite`, { roomId, userId })
+  }
+
+  /** Remove a user from a room */
+  kick (roomId: string, userId: string): Promise<TResult> {
+    return this.client.post(`${this.prefix}.kick`, { roomId, userId })
+  }
+
+  /** Archive a room, so it's read only and hidden from lists */
+  archive (roomId: string): Promise<ISuccessResultAPI> {
+    return this.client.post(`${this.prefix}.archive`, { roomId })
+  }
+
+  /** Unarchive a room */
+  unarchive (roomId: string): Promise<ISuccessResultAPI> {
+    return this.client.post(`${this.prefix}.unarchive`, { roomId })
+  }
+
+  /** Change the name of a room */
+  rename (roomId: string, name: string): Promise<TResult> {
+    return this.client.post(`${this.prefix}.rename`, { roomId, name })
+  }
+
+  /** Set the topic of a room */
+  setTopic (roomId: string, topic: string): Promise<ISuccessResultAPI & { topic: string }> {
+    return this.client.post(`${this.prefix}.setTopic`, { roomId, topic })
+  }
+}
+
+/** Endpoints for public channels, e.g. `channels.info` */
+export class ChannelEndpoints extends RoomEndpoints<IChannelResultAPI, IChannelListResultAPI, IChannelAPI> {
+  constructor (client: IRequestClient) {
+    super(client, 'channels')
+  }
+}
+
+/** Endpoints for private groups, e.g. `groups.info` */
+export class GroupEndpoints extends RoomEndpoints<IGroupResultAPI, IGroupListResultAPI, IGroupAPI> {
+  constructor (client: IRequestClient) {
+    super(client, 'groups')
+  }
+}
+
+/** Endpoints for direct messages (IMs), e.g. `im.create` */
+export class ImEndpoints {
+  constructor (protected client: IRequestClient) {}
+
+  /** Create (or get existing) direct message room with a user */
+  create (username: string): Promise<IRoomResultAPI> {
+    return this.client.post('im.create', { username })
+  }
+
+  /** Get messages from a direct message room */
+  history (query: IHistoryQueryAPI): Promise<IHistoryResultAPI> {
+    return this.client.get('im.history', query)
+  }
+
+  /** Iterate all messages from a direct message room, a page at a time */
+  iterateHistory (query: IHistoryQueryAPI, options?: IPageOptions): AsyncIterableIterator<IMessageReceiptAPI> {
+    return paginateHistory(this.client, 'im.history', query, options)
+  }
+}
+
+/** Endpoints for sending and managing messages, e.g. `chat.update` */
+export class ChatEndpoints {
+  constructor (protected client: IRequestClient) {}
+
+  /** Send a message, with optional attachments, alias and avatar */
+  postMessage (message: IMessageAPI): Promise<IMessageResultAPI> {
+    return this.client.post('chat.postMessage', message)
+  }
+
+  /** Update the text of a sent message */
+  update (message: IMessageUpdateAPI): Promise<IMessageResultAPI> {
+    return this.client.post('chat.update', message)
+  }
+
+  /** Delete a sent message */
+  delete (message: IMessageDeleteAPI): Promise<IMessageDeleteResultAPI> {
+    return this.client.post('chat.delete', message)
+  }
+
+  /** Pin a message in its room */
+  pin (messageId: string): Promise<IMessagePinResultAPI> {
+    return this.client.post('chat.pinMessage', { messageId })
+  }
+
+  /** Unpin a message */
+  unpin (messageId: string): Promise<ISuccessResultAPI> {
+    return this.client.post('chat.unPinMessage', { messageId })
+  }
+
+  /** Star a message for the user */
+  star (messageId: string): Promise<ISuccessResultAPI> {
+    return this.client.post('chat.starMessage', { messageId })
+  }
+
+  /** Unstar a message for the user */
+  unstar (messageId: string): Promise<ISuccessResultAPI> {
+    return this.client.post('chat.unStarMessage', { messageId })
+  }
+
+  /** Get replies in a thread, by the ID of its parent message */
+  getThreadMessages (query: IThreadQueryAPI): Promise<IThreadResultAPI> {
+    return this.client.get('chat.getThreadMessages', query)
+  }
+
+  /** Iterate all replies in a thread, requesting a page at a time */
+  iterateThreadMessages (tmid: string, options?: IPageOptions): AsyncIterableIterator<IMessageReceiptAPI> {
+    return paginate<IMessageReceiptAPI>(this.client, 'chat.getThreadMessages', 'messages', { tmid }, options)
+  }
+}
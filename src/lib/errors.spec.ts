@@ -0,0 +1,74 @@
+import 'mocha'
+import { expect } from 'chai'
+import * as errors from './errors'
+
+describe('errors', () => {
+  describe('.fromResult', () => {
+    it('returns API error with details from result', () => {
+      const result = {
+        success: false,
+        error: 'The required "roomId" or "roomName" param provided does not match any channel [error-room-not-found]',
+        errorType: 'error-room-not-found'
+      }
+      const err = errors.fromResult('GET', 'channels.info', result, { statusCode: 400 })
+      expect(err).to.be.instanceof(errors.ApiError)
+      expect(err).to.be.instanceof(Error)
+      expect(err).to.deep.include({
+        name: 'ApiError',
+        method: 'GET',
+        endpoint: 'channels.info',
+        status: 400,
+        error: result.error,
+        errorType: 'error-room-not-found',
+        result
+      })
+      expect(err.message).to.contain('channels.info')
+    })
+    it('uses result message if no error field', () => {
+      const err = errors.fromResult('POST', 'chat.update', { status: 'error', message: 'Failed' })
+      expect(err.error).to.equal('Failed')
+    })
+    it('returns auth error for unauthorized status', () => {
+      const result = { status: 'error', message: 'You must be logged in to do this.' }
+      const err = errors.fromResult('GET', 'me', result, { statusCode: 401 })
+      expect(err).to.be.instanceof(errors.AuthError)
+      expect(err.name).to.equal('AuthError')
+    })
+    it('returns rate limit error for too many requests', () => {
+      const result = {
+        success: false,
+        error: 'Error, too many requests. Please slow down. You must wait 10 seconds before trying this endpoint again. [error-too-many-requests]'
+      }
+      const err = errors.fromResult('POST', 'chat.postMessage', result, { statusCode: 429 })
+      expect(err).to.be.instanceof(errors.RateLimitError)
+      expect((err as errors.RateLimitError).retryAfter).to.equal(10000)
+    })
+  })
+  describe('.isRateLimited', () => {
+    it('returns true for status 429 or error type', () => {
+      expect(errors.isRateLimited({}, 429)).to.equal(true)
+      expect(errors.isRateLimited({ error: 'too-many-requests' })).to.equal(true)
+      expect(errors.isRateLimited({ errorType: 'error-too-many-requests' })).to.equal(true)
+    })
+    it('returns false for other errors', () => {
+      expect(errors.isRateLimited({ error: 'error-room-not-found' }, 400)).to.equal(false)
+      expect(errors.isRateLimited(undefined)).to.equal(false)
+    })
+  })
+  describe('.getRetryAfter', () => {
+    it('uses reset header time if given', () => {
+      const reset = Date.now() + 5000
+      const retryAfter = errors.getRetryAfter({}, { 'x-ratelimit-reset': `${reset}` })
+      expect(retryAfter).to.be.within(4900, 5000)
+    })
+    it('uses time to reset from details (DDP)', () => {
+      expect(errors.getRetryAfter({ details: { timeToReset: 1234 } })).to.equal(1234)
+    })
+    it('parses seconds to wait from error message', () => {
+      expect(errors.getRetryAfter({ reason: 'You must wait 6 seconds before trying again.' })).to.equal(6000)
+    })
+    it('returns undefined if unknown', () => {
+      expect(errors.getRetryAfter({ error: 'too-many-requests' })).to.equal(undefined)
+    })
+  })
+})
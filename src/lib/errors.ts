@@ -0,0 +1,148 @@
+/**
+ * Details of a failed request to the REST API.
+ * @param method     HTTP method of the request, `GET` or `POST`
+ * @param endpoint   The API endpoint requested, e.g. `chat.postMessage`
+ * @param status     HTTP status code of the response, if any
+ * @param error      Rocket.Chat error (or message) from the result
+ * @param errorType  Rocket.Chat error type from the result, e.g. `error-room-not-found`
+ * @param details    Other error details from the result
+ * @param result     The full result data, if the response was JSON
+ */
+export interface IApiErrorDetails {
+  method: string,
+  endpoint: string,
+  status?: number,
+  error?: string,
+  errorType?: string,
+  details?: any,
+  result?: any
+}
+
+/** Error from a request to the REST API, with details from the response */
+export class ApiError extends Error {
+  method: string
+  endpoint: string
+  status?: number
+  error?: string
+  errorType?: string
+  details?: any
+  result?: any
+  constructor (message: string, details: IApiErrorDetails) {
+    super(message)
+    this.name = 'ApiError'
+    this.method = details.method
+    this.endpoint = details.endpoint
+    this.status = details.status
+    this.error = details.error
+    this.errorType = details.errorType
+    this.details = details.details
+    this.result = details.result
+  }
+}
+
+/** Request failed because the user is not logged in, or login failed */
+export class AuthError extends ApiError {
+  constructor (message: string, details: IApiErrorDetails) {
+    super(message, details)
+    this.name = 'AuthError'
+  }
+}
+
+/**
+ * Request was refused by the server's rate limiter.
+ * @param retryAfter  Time in ms to wait before trying again, if known
+ */
+export class RateLimitError extends ApiError {
+  retryAfter?: number
+  constructor (message: string, details: IApiErrorDetails, retryAfter?: number) {
+    super(message, details)
+    this.name = 'RateLimitError'
+    this.retryAfter = retryAfter
+  }
+}
+
+/**
+ * Response was not JSON, e.g. an HTML error page from a proxy.
+ * @param body  The response body, as text
+ */
+export class ResponseError extends ApiError {
+  body: string
+  constructor (message: string, details: IApiErrorDetails, body: string) {
+    super(message, details)
+    this.name = 'ResponseError'
+    this.body = body
+  }
+}
+
+/**
+ * Request could not be made or no response was received, e.g. the host is
+ * unreachable.
+ * @param cause  The original error from the request
+ */
+export class RequestError extends ApiError {
+  cause: Error
+  constructor (message: string, details: IApiErrorDetails, cause: Error) {
+    super(message, details)
+    this.name = 'RequestError'
+    this.cause = cause
+  }
+}
+
+/** Check if a result or error is from the server's rate limiter */
+export function isRateLimited (result: any, status?: number): boolean {
+  if (status === 429) return true
+  if (!result || typeof result !== 'object') return false
+  return [result.error, result.errorType, result.message].some((value) => (
+    typeof value === 'string' && /too-many-requests/.test(value)
+  ))
+}
+
+/**
+ * Get time to wait (ms) from a rate limited response. Uses the reset header
+ * (ms since epoch) if given, or the seconds to wait in the error message.
+ */
+export function getRetryAfter (result: any, headers: any = {}): number | undefined {
+  const reset = parseInt(headers['x-ratelimit-reset'], 10)
+  if (!isNaN(reset)) return Math.max(reset - Date.now(), 0)
+  if (result && result.details && typeof result.details.timeToReset === 'number') {
+    return result.details.timeToReset
+  }
+  const message = (result) ? (result.error || result.reason || result.message) : undefined
+  const wait = (typeof message === 'string') ? message.match(/wait (\d+) seconds/) : null
+  if (wait) return parseInt(wait[1], 10) * 1000
+  return undefined
+}
+
+/**
+ * Create a typed error from an unsuccessful result (and response).
+ * @param method    HTTP method of the request
+ * @param endpoint  The API endpoint requested
+ * @param result    Result data from the response
+ * @param response  The response (for status and headers), if any
+ */
+export function fromResult (
+  method: string,
+  endpoint: string,
+  result: any,
+  response: any = {}
+): ApiError {
+  const status = response.statusCode
+  const error = result.error || result.message
+  const details: IApiErrorDetails = {
+    method,
+    endpoint,
+    status,
+    error,
+    errorType: result.errorType,
+    details: result.details,
+    result
+  }
+  const message = `[API] ${method} ${endpoint} failed${(status) ? ` (${status})` : ''}: ${error || 'Unknown error'}`
+  if (isRateLimited(result, status)) {
+    return new RateLimitError(message, details, getRetryAfter(result, response.headers))
+  }
+  if (status === 401 || /must be logged in/i.test(error)) {
+    return new AuthError(message, details)
+  }
+  return new ApiError(message, details)
+}
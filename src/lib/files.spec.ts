@@ -0,0 +1,91 @@
+import 'mocha'
+import { expect } from 'chai'
+import { createServer, Server } from 'http'
+import { PassThrough } from 'stream'
+import { getContentType, readSource, encodeForm, sendRaw } from './files'
+
+describe('files', () => {
+  describe('.getContentType', () => {
+    it('returns type for known extensions', () => {
+      expect(getContentType('report.CSV')).to.equal('text/csv')
+      expect(getContentType('chart.png')).to.equal('image/png')
+    })
+    it('returns binary type for others', () => {
+      expect(getContentType('data.bin')).to.equal('application/octet-stream')
+    })
+  })
+  describe('.readSource', () => {
+    it('reads a buffer with given or default filename', async () => {
+      const data = Buffer.from('hello')
+      expect(await readSource(data, 'hello.txt')).to.eql({ data, filename: 'hello.txt' })
+      expect((await readSource(data)).filename).to.equal('file')
+    })
+    it('reads a file path with its basename', async () => {
+      const { data, filename } = await readSource(__filename)
+      expect(filename).to.equal('files.spec.ts')
+      expect(data.toString()).to.contain('describe(\'files\'')
+    })
+    it('reads a stream to the end', async () => {
+      const stream = new PassThrough()
+      const read = readSource(stream, 'stream.txt')
+      stream.write('hello ')
+      stream.end('world')
+      expect((await read).data.toString()).to.equal('hello world')
+    })
+  })
+  describe('.encodeForm', () => {
+    it('encodes fields and file between boundaries', () => {
+      const form = encodeForm({ msg: 'hi', tmid: undefined }, {
+        name: 'file',
+        filename: 'a.txt',
+        contentType: 'text/plain',
+        data: Buffer.from('abc')
+      })
+      const boundary = form.contentType.split('boundary=')[1]
+      expect(form.body.toString()).to.equal([
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="msg"',
+        '',
+        'hi',
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="file"; filename="a.txt"',
+        'Content-Type: text/plain',
+        '',
+        'abc',
+        `--${boundary}--`,
+        ''
+      ].join('\r\n'))
+    })
+  })
+  describe('.sendRaw', () => {
+    let server: Server
+    let url: string
+    before((done) => {
+      server = createServer((req, res) => {
+        if (req.url === '/redirect') {
+          res.writeHead(302, { Location: '/file' })
+          return res.end()
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain' })
+        res.end(`${req.method} ${req.url} ${req.headers['x-auth-token']}`)
+      }).listen(0, () => {
+        url = `http://localhost:${server.address().port}`
+        done()
+      })
+    })
+    after((done) => server.close(done))
+    it('resolves with status and body', async () => {
+      const response = await sendRaw('GET', `${url}/file`, { 'X-Auth-Token': 'TOKEN' })
+      expect(response.status).to.equal(200)
+      expect(response.body.toString()).to.equal('GET /file TOKEN')
+    })
+    it('follows redirects on the same host with headers', async () => {
+      const response = await sendRaw('GET', `${url}/redirect`, { 'X-Auth-Token': 'TOKEN' })
+      expect(response.body.toString()).to.equal('GET /file TOKEN')
+    })
+    it('rejects if request fails', async () => {
+      const err = await sendRaw('GET', 'http://localhost:1/file').catch((err) => err)
+      expect(err).to.be.instanceof(Error)
+    })
+  })
+})
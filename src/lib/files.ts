@@ -0,0 +1,146 @@
+import { readFile } from 'fs'
+import { basename, extname } from 'path'
+import { randomBytes } from 'crypto'
+import { parse, resolve } from 'url'
+import { request as httpRequest, IncomingHttpHeaders } from 'http'
+import { request as httpsRequest } from 'https'
+
+/** A file to upload, as a Buffer, a readable stream or a file path */
+export type IFileSource = Buffer | NodeJS.ReadableStream | string
+
+/**
+ * Upload options for `rooms.upload`
+ * @param msg          Message text to send with the file
+ * @param description  Description of the file, shown with it
+ * @param tmid         ID of a thread's parent message, to upload in the thread
+ * @param filename     Name for the file (default from path, or `file`)
+ * @param contentType  MIME type of the file (default from filename extension)
+ */
+export interface IUploadOptions {
+  msg?: string,
+  description?: string,
+  tmid?: string,
+  filename?: string,
+  contentType?: string
+}
+
+/** Response from a request without parsing, e.g. a downloaded file */
+export interface IRawResponse {
+  status: number,
+  headers: IncomingHttpHeaders,
+  body: Buffer
+}
+
+/** Content types for common file extensions, others are sent as binary */
+export const contentTypes: { [extension: string]: string } = {
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4'
+}
+
+/** Get the content type for a filename from its extension */
+export function getContentType (filename: string): string {
+  return contentTypes[extname(filename).toLowerCase()] || 'application/octet-stream'
+}
+
+/** Read a file source into a Buffer, with a filename for the upload */
+export function readSource (
+  source: IFileSource,
+  filename?: string
+): Promise<{ data: Buffer, filename: string }> {
+  return new Promise((resolve, reject) => {
+    if (Buffer.isBuffer(source)) {
+      resolve({ data: source, filename: filename || 'file' })
+    } else if (typeof source === 'string') {
+      readFile(source, (err, data) => (err)
+        ? reject(err)
+        : resolve({ data, filename: filename || basename(source) }))
+    } else {
+      const chunks: Buffer[] = []
+      const path = (source as any).path // file streams know their path
+      source.on('data', (chunk: Buffer | string) => chunks.push(Buffer.from(chunk as any)))
+      source.on('error', reject)
+      source.on('end', () => resolve({
+        data: Buffer.concat(chunks),
+        filename: filename || ((typeof path === 'string') ? basename(path) : 'file')
+      }))
+    }
+  })
+}
+
+/**
+ * Encode form fields and a file as a `multipart/form-data` body.
+ * Fields with undefined values are left out.
+ */
+export function encodeForm (
+  fields: { [name: string]: string | undefined },
+  file: { name: string, filename: string, contentType: string, data: Buffer }
+): { contentType: string, body: Buffer } {
+  const boundary = `----RocketChatSDK${randomBytes(12).toString('hex')}`
+  const parts: Buffer[] = []
+  for (let name of Object.keys(fields)) {
+    if (fields[name] === undefined) continue
+    parts.push(Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${fields[name]}\r\n`
+    ))
+  }
+  parts.push(Buffer.from(
+    `--${boundary}\r\nContent-Disposition: form-data; name="${file.name}"; ` +
+    `filename="${file.filename.replace(/"/g, '\\"')}"\r\nContent-Type: ${file.contentType}\r\n\r\n`
+  ))
+  parts.push(file.data)
+  parts.push(Buffer.from(`\r\n--${boundary}--\r\n`))
+  return {
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    body: Buffer.concat(parts)
+  }
+}
+
+/**
+ * Send a request with Node's http(s) client, resolving with the response body
+ * as a Buffer (whatever the status). Follows redirects, without the original
+ * headers if redirected to another host (e.g. files kept in cloud storage).
+ * @param method     HTTP method, e.g. `GET` or `POST`
+ * @param url        Full URL of the request
+ * @param headers    Request headers
+ * @param body       Request body, if any
+ * @param redirects  Most redirects to follow
+ */
+export function sendRaw (
+  method: string,
+  url: string,
+  headers: object = {},
+  body?: Buffer,
+  redirects = 5
+): Promise<IRawResponse> {
+  return new Promise((resolvePromise, reject) => {
+    const options = Object.assign(parse(url), { method, headers })
+    const send = (options.protocol === 'https:') ? httpsRequest : httpRequest
+    const req = send(options, (res) => {
+      const status = res.statusCode || 0
+      const location = res.headers.location
+      if (status >= 300 && status < 400 && location && redirects > 0) {
+        res.resume() // discard body
+        const next = resolve(url, location)
+        const sameHost = parse(next).host === options.host
+        return resolvePromise(sendRaw('GET', next, (sameHost) ? headers : {}, undefined, redirects - 1))
+      }
+      const chunks: Buffer[] = []
+      res.on('data', (chunk: Buffer) => chunks.push(chunk))
+      res.on('error', reject)
+      res.on('end', () => resolvePromise({ status, headers: res.headers, body: Buffer.concat(chunks) }))
+    })
+    req.on('error', reject)
+    if (body) req.write(body)
+    req.end()
+  })
+}
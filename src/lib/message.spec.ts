@@ -2,6 +2,7 @@ import 'mocha'
 import sinon from 'sinon'
 import { expect } from 'chai'
 import { Message } from './message'
+import { OutgoingHooks, defaultHooks } from './outgoing'
 
 describe('message', () => {
   describe('constructor', () => {
@@ -44,4 +45,102 @@ describe('message', () => {
       expect(message.setRoomId('111')).to.eql(message)
     })
   })
+  describe('.setThreadId', () => {
+    it('sets tmid property', () => {
+      const message = new Message('hello world', 'test').setThreadId('TMID')
+      expect(message.tmid).to.equal('TMID')
+    })
+  })
+  describe('.setAlias, .setAvatar and .setEmoji', () => {
+    it('set sender display properties', () => {
+      const message = new Message('hello', 'test')
+        .setAlias('Bot')
+        .setAvatar('https://example.com/bot.png')
+        .setEmoji(':robot:')
+      expect(message).to.include({
+        alias: 'Bot',
+        avatar: 'https://example.com/bot.png',
+        emoji: ':robot:'
+      })
+    })
+    it('throw on invalid values', () => {
+      const message = new Message('hello', 'test')
+      expect(() => message.setAlias(' ')).to.throw()
+      expect(() => message.setAvatar('bot.png')).to.throw()
+      expect(() => message.setEmoji('robot')).to.throw()
+    })
+  })
+  describe('.mention, .addText, .addCode and .addQuote', () => {
+    it('append formatted content to text', () => {
+      const message = new Message('hello', 'test')
+        .mention('@bob')
+        .addText('result:')
+        .addCode('x = 1', 'js')
+        .addQuote('one\ntwo')
+      expect(message.msg).to.equal('hello @bob\nresult:\n```js\nx = 1\n```\n> one\n> two')
+    })
+    it('throws if text would exceed max length', () => {
+      const message = new Message('a'.repeat(4999), 'test')
+      expect(() => message.addText('bc')).to.throw(/max length/)
+      expect(message.msg).to.have.lengthOf(4999)
+    })
+    it('appends text over max length with split option, to be split when sent', async () => {
+      const message = new Message('a'.repeat(4999), 'test', { split: true }).addText('bc')
+      expect(message.msg).to.have.lengthOf(5002)
+      expect(Object.keys(message)).to.not.include('options')
+      const parts = await new OutgoingHooks(defaultHooks()).run(message, 'send')
+      expect(parts.map((part) => part.msg)).to.eql(['a'.repeat(4999), 'bc'])
+    })
+  })
+  describe('.addAttachment', () => {
+    it('adds attachments in order', () => {
+      const message = new Message('hello', 'test')
+        .addAttachment({ text: 'one' })
+        .addAttachment({ title: 'two' })
+      expect(message.attachments).to.eql([{ text: 'one' }, { title: 'two' }])
+    })
+    it('throws if attachment has no content', () => {
+      expect(() => new Message('hello', 'test').addAttachment({ color: 'red' })).to.throw()
+    })
+    it('throws if attachment text exceeds max length', () => {
+      expect(() => new Message('hello', 'test').addAttachment({ text: 'a'.repeat(5001) })).to.throw(/text exceeds max length/)
+    })
+  })
+  describe('.addField', () => {
+    it('adds fields to the last attachment', () => {
+      const message = new Message('hello', 'test')
+        .addAttachment({ title: 'one' })
+        .addField('Status', 'ok', true)
+      expect(message.attachments).to.eql([{
+        title: 'one',
+        fields: [{ short: true, title: 'Status', value: 'ok' }]
+      }])
+    })
+    it('throws if field value exceeds max length', () => {
+      expect(() => new Message('hello', 'test').addField('Log', 'a'.repeat(5001))).to.throw(/value exceeds max length/)
+    })
+    it('creates attachment if none', () => {
+      const message = new Message('hello', 'test').addField('Status', 'ok')
+      expect(message.attachments).to.eql([{ fields: [{ short: false, title: 'Status', value: 'ok' }] }])
+    })
+    it('throws without title or value', () => {
+      expect(() => new Message('hello', 'test').addField('', 'ok')).to.throw()
+      expect(() => new Message('hello', 'test').addField('Status', '')).to.throw()
+    })
+  })
+  describe('.addButton', () => {
+    it('adds message buttons, sent in the chat window', () => {
+      const message = new Message('hello', 'test').addButton('Yes', { msg: 'yes' })
+      expect(message.attachments![0].actions).to.eql([{
+        type: 'button', text: 'Yes', msg: 'yes', msg_in_chat_window: true
+      }])
+    })
+    it('adds link buttons', () => {
+      const message = new Message('hello', 'test').addButton('Open', { url: 'https://example.com' })
+      expect(message.attachments![0].actions![0]).to.include({ url: 'https://example.com' })
+    })
+    it('throws without url or msg', () => {
+      expect(() => new Message('hello', 'test').addButton('Yes')).to.throw(/requires url or msg/)
+    })
+  })
 })
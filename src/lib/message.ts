@@ -1,17 +1,46 @@
-import { IMessage } from '../config/messageInterfaces'
+import {
+  IMessage,
+  IMessageAttachment,
+  IAttachmentField,
+  IMessageAction
+} from '../config/messageInterfaces'
+import * as settings from './settings'
 
 // Message class declaration implicitly implements interface
 // https://github.com/Microsoft/TypeScript/issues/340
 export interface Message extends IMessage {}
 
+/**
+ * Options for building a message.
+ * @param split  Allow text over `messageMaxLength`, to be sent as several
+ *               messages by the `split` outgoing hook (can't be edited)
+ */
+export interface IMessageOptions {
+  split?: boolean
+}
+
 /**
  * Rocket.Chat message class.
  * Sets integration param to allow tracing source of automated sends.
+ * Builder methods return the message, so rich messages can be chained, and
+ * throw if given content the server would refuse (or ignore), including text
+ * over `messageMaxLength` unless built with the `split` option.
  * @param content Accepts message text or a preformed message object
+ * @param options Options for building, not sent with the message
  * @todo Potential for SDK usage that isn't bots, bot prop should be optional?
+ * @example
+ *  const message = new Message('Deployed :rocket:', 'my-bot')
+ *    .setRoomId(roomId)
+ *    .setAlias('Deploy Bot')
+ *    .addAttachment({ title: 'v1.2.0', color: 'green' })
+ *    .addField('Environment', 'production', true)
+ *    .addButton('View logs', { url: 'https://ci.example.com/logs' })
  */
 export class Message {
-  constructor (content: string | IMessage, integrationId: string) {
+  private options!: IMessageOptions
+
+  constructor (content: string | IMessage, integrationId: string, options: IMessageOptions = {}) {
+    Object.defineProperty(this, 'options', { value: options }) // not enumerable, so not sent
     if (typeof content === 'string') this.msg = content
     else Object.assign(this, content)
     this.bot = { i: integrationId }
@@ -20,4 +49,143 @@ export class Message {
     this.rid = roomId
     return this
   }
+
+  /** Send the message as a reply in a thread, by its parent message's ID */
+  setThreadId (threadId: string): Message {
+    this.tmid = threadId
+    return this
+  }
+
+  /** Set the name shown as the sender, instead of the user's */
+  setAlias (alias: string): Message {
+    if (!alias.trim()) throw new Error('[message] Alias can not be empty')
+    this.alias = alias
+    return this
+  }
+
+  /** Set an image URL to show as the sender's avatar */
+  setAvatar (url: string): Message {
+    if (!/^https?:\/\/\S+$/.test(url)) {
+      throw new Error(`[message] Avatar must be an http(s) URL, not ${url}`)
+    }
+    this.avatar = url
+    return this
+  }
+
+  /** Set an emoji (e.g. `:robot:`) to show as the sender's avatar */
+  setEmoji (emoji: string): Message {
+    if (!/^:[\w+-]+:$/.test(emoji)) {
+      throw new Error(`[message] Emoji must be a name like :smile:, not ${emoji}`)
+    }
+    this.emoji = emoji
+    return this
+  }
+
+  /** Append text to the message, on a new line */
+  addText (text: string): Message {
+    return this.append(text, '\n')
+  }
+
+  /** Append a mention of a user (or `all` / `here`) to the message text */
+  mention (username: string): Message {
+    const name = username.replace(/^@/, '')
+    if (!/^[\w.-]+$/.test(name)) throw new Error(`[message] Invalid username to mention ${username}`)
+    return this.append(`@${name}`, ' ')
+  }
+
+  /** Append a code block to the message text, with optional language */
+  addCode (code: string, language: string = ''): Message {
+    return this.append('```' + language + '\n' + code + '\n```', '\n')
+  }
+
+  /** Append text to the message as a quote, on a new line */
+  addQuote (text: string): Message {
+    return this.append(text.split('\n').map((line) => `> ${line}`).join('\n'), '\n')
+  }
+
+  /**
+   * Add an attachment, which later fields and buttons are added to.
+   * Requires some content to show, i.e. text, a title, media or fields.
+   */
+  addAttachment (attachment: IMessageAttachment): Message {
+    const { text, title, image_url, audio_url, video_url, fields, actions } = attachment
+    if (!text && !title && !image_url && !audio_url && !video_url && !fields && !actions) {
+      throw new Error('[message] Attachment requires text, title, media, fields or actions')
+    }
+    validateLength('Attachment title', title)
+    validateLength('Attachment text', text)
+    if (fields) fields.forEach((field) => validateField(field))
+    if (actions) actions.forEach((action) => validateAction(action))
+    if (!this.attachments) this.attachments = []
+    this.attachments.push(attachment)
+    return this
+  }
+
+  /**
+   * Add a field (title and value, shown in a table) to the last attachment,
+   * creating one if there are none.
+   * @param short Show the field beside others, instead of on its own line
+   */
+  addField (title: string, value: string, short: boolean = false): Message {
+    const field: IAttachmentField = { short, title, value }
+    validateField(field)
+    const attachment = this.lastAttachment()
+    attachment.fields = (attachment.fields || []).concat(field)
+    return this
+  }
+
+  /**
+   * Add a button to the last attachment, creating one if there are none.
+   * Buttons open a URL or send a message (in the room by default).
+   * @param text    Label of the button
+   * @param action  Attributes for the action, requires `url` or `msg`
+   */
+  addButton (text: string, action: IMessageAction = {}): Message {
+    const button: IMessageAction = Object.assign({ type: 'button', text }, action)
+    if (button.msg && button.msg_in_chat_window === undefined) button.msg_in_chat_window = true
+    validateAction(button)
+    const attachment = this.lastAttachment()
+    attachment.actions = (attachment.actions || []).concat(button)
+    return this
+  }
+
+  /** Get the last attachment, to add fields and buttons to */
+  private lastAttachment (): IMessageAttachment {
+    if (!this.attachments || !this.attachments.length) this.attachments = [{}]
+    return this.attachments[this.attachments.length - 1]
+  }
+
+  /**
+   * Append to message text, with separator if not empty, within max length
+   * (unless built with the `split` option, for the `split` outgoing hook).
+   */
+  private append (text: string, separator: string): Message {
+    const msg = (this.msg) ? this.msg + separator + text : text
+    if (!this.options.split) validateLength('Text', msg)
+    this.msg = msg
+    return this
+  }
+}
+
+/** Check text (if any) is within the max length of message text */
+function validateLength (name: string, text?: string): void {
+  if (text && text.length > settings.messageMaxLength) {
+    throw new Error(`[message] ${name} exceeds max length (${settings.messageMaxLength})`)
+  }
+}
+
+/** Check a field has the title and value it requires to be shown, within max length */
+function validateField (field: IAttachmentField): void {
+  if (!field.title || typeof field.value === 'undefined' || field.value === '') {
+    throw new Error('[message] Attachment field requires title and value')
+  }
+  validateLength('Attachment field title', field.title)
+  validateLength('Attachment field value', field.value)
+}
+
+/** Check an action is a button with a label and something to do */
+function validateAction (action: IMessageAction): void {
+  if (action.type !== 'button') throw new Error(`[message] Unknown action type ${action.type}`)
+  if (!action.text) throw new Error('[message] Button requires text')
+  if (!action.url && !action.msg) throw new Error(`[message] Button "${action.text}" requires url or msg`)
 }
@@ -147,4 +147,23 @@ describe('methodCache', () => {
       expect(mockInstance.call.callCount).to.equal(4)
     })
   })
+  describe('MethodCache', () => {
+    it('keeps its own instance and results', () => {
+      const cache = new methodCache.MethodCache()
+      cache.use(mockInstance)
+      return cache.call('methodTwo', 'key1').then(() => {
+        expect(cache.get('methodTwo', 'key1')).to.equal('value1')
+        expect(methodCache.get('methodTwo', 'key1')).to.equal(undefined)
+      })
+    })
+    it('does not share results between instances', () => {
+      const cacheA = new methodCache.MethodCache()
+      const cacheB = new methodCache.MethodCache()
+      cacheA.use(mockInstance)
+      cacheB.use(mockInstance)
+      cacheA.call('methodTwo', 'key1')
+      cacheB.call('methodTwo', 'key1')
+      expect(mockInstance.call.callCount).to.equal(2)
+    })
+  })
 })
@@ -1,90 +1,147 @@
 import LRU from 'lru-cache'
 import { logger } from './log'
+import { exportLive } from '../utils/exports'
 
-/** @TODO: Remove ! post-fix expression when TypeScript #9619 resolved */
-export let instance: any
-export const results: Map<string, LRU.Cache<string, any>> = new Map()
 export const defaults: LRU.Options = {
   max: 100,
   maxAge: 300 * 1000
 }
 
 /**
- * Set the instance to call methods on, with cached results.
- * @param instanceToUse Instance of a class
+ * Caches results of method calls on an instance (e.g. Asteroid).
+ * Each driver keeps its own cache, so results from one server or user are
+ * never returned for another.
  */
-export function use (instanceToUse: object): void {
-  instance = instanceToUse
+export class MethodCache {
+  /** @TODO: Remove ! post-fix expression when TypeScript #9619 resolved */
+  instance: any
+  results: Map<string, LRU.Cache<string, any>> = new Map()
+
+  /**
+   * Set the instance to call methods on, with cached results.
+   * @param instanceToUse Instance of a class
+   */
+  use (instanceToUse: object): void {
+    this.instance = instanceToUse
+  }
+
+  /**
+   * Setup a cache for a method call.
+   * @param method Method name, for index of cached results
+   * @param options.max Maximum size of cache
+   * @param options.maxAge Maximum age of cache
+   */
+  create (method: string, options: LRU.Options = {}): LRU.Cache<string, any> | undefined {
+    options = Object.assign({}, defaults, options)
+    this.results.set(method, new LRU(options))
+    return this.results.get(method)
+  }
+
+  /**
+   * Get results of a prior method call or call and cache.
+   * @param method Method name, to call on instance in use
+   * @param key Key to pass to method call and save results against
+   */
+  call (method: string, key: string): Promise<any> {
+    if (!this.results.has(method)) this.create(method) // create as needed
+    const methodCache = this.results.get(method)!
+    let callResults
+
+    if (methodCache.has(key)) {
+      logger.debug(`[${method}] Calling (cached): ${key}`)
+      // return from cache if key has been used on method before
+      callResults = methodCache.get(key)
+    } else {
+      // call and cache for next time, returning results
+      logger.debug(`[${method}] Calling (caching): ${key}`)
+      callResults = this.instance.call(method, key).result
+      methodCache.set(key, callResults)
+    }
+    return Promise.resolve(callResults)
+  }
+
+  /**
+   * Proxy for checking if method has been cached.
+   * Cache may exist from manual creation, or prior call.
+   * @param method Method name for cache to get
+   */
+  has (method: string): boolean {
+    return this.results.has(method)
+  }
+
+  /**
+   * Get results of a prior method call.
+   * @param method Method name for cache to get
+   * @param key Key for method result set to return
+   */
+  get (method: string, key: string): LRU.Cache<string, any> | undefined {
+    if (this.results.has(method)) return this.results.get(method)!.get(key)
+  }
+
+  /**
+   * Reset a cached method call's results (all or only for given key).
+   * @param method Method name for cache to clear
+   * @param key Key for method result set to clear
+   */
+  reset (method: string, key?: string): void {
+    if (this.results.has(method)) {
+      if (key) return this.results.get(method)!.del(key)
+      else return this.results.get(method)!.reset()
+    }
+  }
+
+  /**
+   * Reset cached results for all methods.
+   */
+  resetAll (): void {
+    this.results.forEach((cache) => cache.reset())
+  }
 }
 
 /**
- * Setup a cache for a method call.
- * @param method Method name, for index of cached results
- * @param options.max Maximum size of cache
- * @param options.maxAge Maximum age of cache
+ * Default cache, used by the module methods below and the default driver.
  */
+export const defaultCache = new MethodCache()
+
+/** Instance in use by the default cache (read from the default cache) */
+export declare let instance: any
+
+/** Cached results of the default cache */
+export const results = defaultCache.results
+
+exportLive(exports, defaultCache, ['instance'])
+
+/** Set the instance to call methods on, for the default cache. */
+export function use (instanceToUse: object): void {
+  return defaultCache.use(instanceToUse)
+}
+
+/** Setup a cache for a method call, in the default cache. */
 export function create (method: string, options: LRU.Options = {}): LRU.Cache<string, any> | undefined {
-  options = Object.assign(defaults, options)
-  results.set(method, new LRU(options))
-  return results.get(method)
+  return defaultCache.create(method, options)
 }
 
-/**
- * Get results of a prior method call or call and cache.
- * @param method Method name, to call on instance in use
- * @param key Key to pass to method call and save results against
- */
+/** Get results of a prior method call or call and cache (default cache). */
 export function call (method: string, key: string): Promise<any> {
-  if (!results.has(method)) create(method) // create as needed
-  const methodCache = results.get(method)!
-  let callResults
-
-  if (methodCache.has(key)) {
-    logger.debug(`[${method}] Calling (cached): ${key}`)
-    // return from cache if key has been used on method before
-    callResults = methodCache.get(key)
-  } else {
-    // call and cache for next time, returning results
-    logger.debug(`[${method}] Calling (caching): ${key}`)
-    callResults = instance.call(method, key).result
-    methodCache.set(key, callResults)
-  }
-  return Promise.resolve(callResults)
+  return defaultCache.call(method, key)
 }
 
-/**
- * Proxy for checking if method has been cached.
- * Cache may exist from manual creation, or prior call.
- * @param method Method name for cache to get
- */
+/** Proxy for checking if method has been cached (default cache). */
 export function has (method: string): boolean {
-  return results.has(method)
+  return defaultCache.has(method)
 }
 
-/**
- * Get results of a prior method call.
- * @param method Method name for cache to get
- * @param key Key for method result set to return
- */
+/** Get results of a prior method call (default cache). */
 export function get (method: string, key: string): LRU.Cache<string, any> | undefined {
-  if (results.has(method)) return results.get(method)!.get(key)
+  return defaultCache.get(method, key)
 }
 
-/**
- * Reset a cached method call's results (all or only for given key).
- * @param method Method name for cache to clear
- * @param key Key for method result set to clear
- */
+/** Reset a cached method call's results (default cache). */
 export function reset (method: string, key?: string): void {
-  if (results.has(method)) {
-    if (key) return results.get(method)!.del(key)
-    else return results.get(method)!.reset()
-  }
+  return defaultCache.reset(method, key)
 }
 
-/**
- * Reset cached results for all methods.
- */
+/** Reset cached results for all methods (default cache). */
 export function resetAll (): void {
-  results.forEach((cache) => cache.reset())
+  return defaultCache.resetAll()
 }
@@ -0,0 +1,149 @@
+import 'mocha'
+import sinon from 'sinon'
+import { EventEmitter } from 'events'
+import { expect } from 'chai'
+import { silence } from './log'
+import { Pipeline, defaultMiddleware } from './middleware'
+import { ReadTracker } from './catchup'
+import { RoomTracker } from './rooms'
+
+silence() // suppress log during tests (disable this while developing tests)
+
+const pass = (message, meta, next) => next()
+const message = (attributes = {}) => Object.assign({
+  _id: 'MID',
+  rid: 'RID',
+  msg: 'hello',
+  u: { _id: 'UID', username: 'user' },
+  ts: { $date: 2000 }
+}, attributes)
+
+describe('middleware', () => {
+  describe('Pipeline', () => {
+    it('runs steps in order, then the final handler', async () => {
+      const calls: string[] = []
+      const pipeline = new Pipeline()
+        .use('a', (message, meta, next) => { calls.push('a'); return next() })
+        .use('b', async (message, meta, next) => { calls.push('b'); await next() })
+      const reached = await pipeline.run(message(), {}, {}, () => calls.push('final'))
+      expect(reached).to.equal(true)
+      expect(calls).to.eql(['a', 'b', 'final'])
+    })
+    it('stops when a step does not call next', async () => {
+      const final = sinon.spy()
+      const pipeline = new Pipeline().use('stop', () => null).use('after', pass)
+      expect(await pipeline.run(message(), {}, {}, final)).to.equal(false)
+      sinon.assert.notCalled(final)
+    })
+    it('stops when a step throws or rejects', async () => {
+      const final = sinon.spy()
+      const pipeline = new Pipeline().use('fail', () => Promise.reject(new Error('failed')))
+      expect(await pipeline.run(message(), {}, {}, final)).to.equal(false)
+      sinon.assert.notCalled(final)
+    })
+    it('lets steps change the message and meta, with config', async () => {
+      const final = sinon.spy()
+      const pipeline = new Pipeline().use('language', (message, meta, next, config) => {
+        meta.language = config.rooms[0]
+        return next()
+      })
+      await pipeline.run(message(), {}, { rooms: ['en'] }, final)
+      expect(final.firstCall.args[1]).to.eql({ language: 'en' })
+    })
+    it('adds, moves, replaces and removes steps by name', () => {
+      const pipeline = new Pipeline().use('a', pass).use('c', pass)
+      pipeline.before('c', 'b', pass).after('c', 'd', pass).moveBefore('d', 'a')
+      expect(pipeline.names()).to.eql(['d', 'a', 'b', 'c'])
+      pipeline.replace('a', () => null)
+      expect(pipeline.remove('b')).to.equal(pass)
+      expect(pipeline.remove('x')).to.equal(undefined)
+      expect(pipeline.names()).to.eql(['d', 'a', 'c'])
+    })
+    it('throws for unknown or taken step names', () => {
+      const pipeline = new Pipeline().use('a', pass)
+      expect(() => pipeline.use('a', pass)).to.throw()
+      expect(() => pipeline.before('x', 'b', pass)).to.throw()
+    })
+  })
+  describe('defaultMiddleware', () => {
+    let driver
+    let pipeline
+    let final
+    const run = (msg, meta = {}, config = {}) => pipeline.run(msg, Object.assign({
+      roomType: 'c',
+      roomParticipant: true
+    }, meta), config, final)
+    beforeEach(() => {
+      driver = {
+        userId: 'BOT',
+        lastReadTime: new Date(1000),
+        reads: new ReadTracker(),
+        events: new EventEmitter(),
+        rooms: new RoomTracker(),
+        actions: { has: (id) => id === 'ACTION', accepts: (id, value) => id === 'ACTION' && value === 'Yes' },
+        handleAction: sinon.stub().resolves()
+      }
+      pipeline = new Pipeline(defaultMiddleware(driver))
+      final = sinon.spy()
+    })
+    it('has the respond filters in order', () => {
+      expect(pipeline.names()).to.eql(['own', 'actions', 'dm', 'livechat', 'rooms', 'edited', 'threads', 'unread', 'system', 'types'])
+    })
+    it('passes new messages in joined rooms and sets last read time', async () => {
+      expect(await run(message())).to.equal(true)
+      expect(driver.lastReadTime).to.eql(new Date(2000))
+    })
+    it('ignores own and already read messages', async () => {
+      expect(await run(message({ u: { _id: 'BOT' } }))).to.equal(false)
+      expect(await run(message({ ts: { $date: 500 } }))).to.equal(false)
+    })
+    it('checks the user is in the room by tracked rooms, once loaded', async () => {
+      driver.rooms.load([{ rid: 'OTHER', name: 'other', t: 'c' }])
+      expect(await run(message(), { roomParticipant: true })).to.equal(false)
+      expect(await run(message({ rid: 'OTHER' }), { roomParticipant: false })).to.equal(true)
+    })
+    it('tracks last read time by room', async () => {
+      await driver.reads.mark('OTHER', new Date(500))
+      expect(await run(message({ rid: 'OTHER', ts: { $date: 800 } }))).to.equal(true)
+      expect(driver.reads.get('OTHER')).to.equal(800)
+      expect(await run(message({ rid: 'OTHER', ts: { $date: 600 } }))).to.equal(false)
+    })
+    it('filters DMs, livechat, rooms, edits and threads by config', async () => {
+      expect(await run(message(), { roomType: 'd' })).to.equal(false)
+      expect(await run(message(), { roomType: 'l' })).to.equal(false)
+      expect(await run(message(), { roomParticipant: false })).to.equal(false)
+      expect(await run(message({ editedAt: { $date: 3000 } }))).to.equal(false)
+      expect(await run(message({ tmid: 'TMID' }), {}, { threads: 'top' })).to.equal(false)
+      expect(await run(message(), { roomType: 'd' }, { dm: true })).to.equal(true)
+    })
+    it('routes action clicks to their handler, instead of the callback', async () => {
+      expect(await run(message({ msg: 'Yes [#ACTION]' }))).to.equal(false)
+      sinon.assert.calledWith(driver.handleAction, 'ACTION', 'Yes')
+    })
+    it('passes on values for an action not sent by its buttons, as messages', async () => {
+      expect(await run(message({ msg: 'deploy prod [#ACTION]' }))).to.equal(true)
+      sinon.assert.notCalled(driver.handleAction)
+    })
+    it('routes action clicks by last read time in the room', async () => {
+      driver.lastReadTime = new Date(5000)
+      await driver.reads.mark('RID', new Date(1500))
+      expect(await run(message({ msg: 'Yes [#ACTION]' }))).to.equal(false)
+      sinon.assert.calledOnce(driver.handleAction)
+      expect(driver.reads.get('RID')).to.equal(2000)
+      await run(message({ msg: 'Yes [#ACTION]' }))
+      sinon.assert.calledOnce(driver.handleAction)
+    })
+    it('emits events for system messages, then filters them by type', async () => {
+      const joined = sinon.spy()
+      driver.events.on('userJoined', joined)
+      const join = message({ t: 'uj', msg: 'user' })
+      expect(await run(join, {}, { denyTypes: ['uj'] })).to.equal(false)
+      expect(joined.firstCall.args[0]).to.include({ roomId: 'RID', type: 'uj', username: 'user' })
+      expect(await run(message({ t: 'au', ts: { $date: 3000 } }), {}, { allowTypes: ['au'] })).to.equal(true)
+    })
+    it('can be removed to change filtering', async () => {
+      pipeline.remove('edited')
+      expect(await run(message({ editedAt: { $date: 3000 } }))).to.equal(true)
+    })
+  })
+})
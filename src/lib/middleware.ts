@@ -0,0 +1,265 @@
+import { IRespondOptions } from '../config/driverInterfaces'
+import { Driver } from './driver'
+import { logger } from './log'
+import * as actions from './actions'
+import * as threads from './threads'
+import * as systemMessages from './systemMessages'
+import { getTime } from '../utils/time'
+
+/** Call the next middleware, resolving when the rest of the pipeline is done */
+export type INext = () => Promise<void>
+
+/**
+ * Step for incoming messages. Calls `next` to pass the message on, or returns
+ * without calling it to stop the message. May change the message or meta, or
+ * return a promise (e.g. to look something up before calling `next`).
+ * @param message  The message received
+ * @param meta     Meta of the message, such as `roomType`
+ * @param next     Continue with the next middleware
+ * @param config   Options given to `respondToMessages` (with defaults)
+ */
+export type IMiddleware = (message: any, meta: any, next: INext, config: IRespondOptions) => any
+
+/** A step with a name, to find it in a list */
+export interface INamedStep<T> {
+  name: string,
+  handler: T
+}
+
+/** Middleware with a name, to find it in the pipeline */
+export type INamedMiddleware = INamedStep<IMiddleware>
+
+/**
+ * Ordered list of named steps, that can be added around, replaced or removed
+ * by name. Used for middleware of incoming and hooks of outgoing messages.
+ */
+export class StepList<T> {
+  steps: INamedStep<T>[]
+
+  constructor (steps: INamedStep<T>[] = []) {
+    this.steps = steps.slice()
+  }
+
+  /** Get names of the steps, in order */
+  names (): string[] {
+    return this.steps.map((step) => step.name)
+  }
+
+  /** Check if there's a step with a name */
+  has (name: string): boolean {
+    return this.indexOf(name) !== -1
+  }
+
+  /** Add a step at the end (name must not be taken) */
+  use (name: string, handler: T): this {
+    return this.insert(this.steps.length, name, handler)
+  }
+
+  /** Add a step before an existing step */
+  before (existing: string, name: string, handler: T): this {
+    return this.insert(this.find(existing), name, handler)
+  }
+
+  /** Add a step after an existing step */
+  after (existing: string, name: string, handler: T): this {
+    return this.insert(this.find(existing) + 1, name, handler)
+  }
+
+  /** Replace the handler of an existing step */
+  replace (name: string, handler: T): this {
+    this.steps[this.find(name)] = { name, handler }
+    return this
+  }
+
+  /** Remove a step by name, returning its handler if found */
+  remove (name: string): T | undefined {
+    const index = this.indexOf(name)
+    if (index === -1) return undefined
+    return this.steps.splice(index, 1)[0].handler
+  }
+
+  /** Move an existing step before another */
+  moveBefore (name: string, existing: string): this {
+    const handler = this.remove(name)
+    if (handler === undefined) throw new Error(`[middleware] No step named ${name}`)
+    return this.before(existing, name, handler)
+  }
+
+  /** Get the index of a step, or -1 */
+  private indexOf (name: string): number {
+    return this.names().indexOf(name)
+  }
+
+  /** Get the index of a step that must exist */
+  private find (name: string): number {
+    const index = this.indexOf(name)
+    if (index === -1) throw new Error(`[middleware] No step named ${name}`)
+    return index
+  }
+
+  /** Add a step at an index, if its name is not taken */
+  private insert (index: number, name: string, handler: T): this {
+    if (this.has(name)) throw new Error(`[middleware] Step ${name} already exists`)
+    this.steps.splice(index, 0, { name, handler })
+    return this
+  }
+}
+
+/**
+ * Ordered list of middleware, that incoming messages pass through before the
+ * callback given to `respondToMessages`. Steps are named, so they can be
+ * added around, replaced or removed by name.
+ * @example
+ *  driver.middleware.before('dm', 'spam', (message, meta, next) => {
+ *    if (!isSpam(message.msg)) return next()
+ *  })
+ *  driver.middleware.remove('edited') // respond to edits always
+ */
+export class Pipeline extends StepList<IMiddleware> {
+  /**
+   * Pass a message through the steps, then to a final handler if every step
+   * calls `next`. Errors from steps are logged and stop the message.
+   * Resolves true if the message reached the final handler.
+   */
+  async run (
+    message: any,
+    meta: any,
+    config: IRespondOptions,
+    final: (message: any, meta: any) => any
+  ): Promise<boolean> {
+    const steps = this.steps.slice() // changes apply to later messages only
+    let reached = false
+    const dispatch = async (index: number): Promise<void> => {
+      if (index === steps.length) {
+        reached = true
+        return final(message, meta)
+      }
+      let called = false
+      await steps[index].handler(message, meta, () => {
+        if (called) return Promise.reject(new Error(`[middleware] next called twice in ${steps[index].name}`))
+        called = true
+        return dispatch(index + 1)
+      }, config)
+    }
+    try {
+      await dispatch(0)
+    } catch (err) {
+      logger.error(`[middleware] Message ${message._id} stopped by error: ${err.message}`)
+    }
+    return reached
+  }
+}
+
+/**
+ * Built-in middleware, for the filters of `respondToMessages`, in order:
+ * - `own` - ignore the driver user's own messages
+ * - `actions` - route clicks on buttons from `sendActions` to their handler,
+ *   if not read yet (the same as `unread`). Other values tagged for an action
+ *   (e.g. typed by a user) pass on as messages
+ * - `dm` - ignore DMs unless `dm` is configured
+ * - `livechat` - ignore Livechat unless `livechat` is configured
+ * - `rooms` - ignore rooms the user is not in (by `driver.rooms` once loaded),
+ *   unless `allPublic` is configured
+ * - `edited` - ignore edited messages unless `edited` is configured
+ * - `threads` - ignore thread replies or top-level messages, by `threads`
+ * - `unread` - ignore messages (or edits) not newer than the last one read in
+ *   the room (or than `lastReadTime` in rooms not read yet), recording reads
+ *   (unless `meta.readLater`, for the caller to record with `markRead`)
+ * - `system` - emit driver events for system messages, e.g. `userJoined`
+ * - `types` - ignore system messages by `allowTypes` and `denyTypes`
+ */
+export function defaultMiddleware (driver: Driver): INamedMiddleware[] {
+  return [
+    {
+      name: 'own',
+      handler: (message, meta, next) => {
+        if (message.u._id !== driver.userId) return next()
+      }
+    },
+    {
+      name: 'actions',
+      handler: (message, meta, next) => {
+        const action = actions.parseAction(message.msg)
+        if (!action || !driver.actions.has(action.id)) return next()
+        if (!driver.actions.accepts(action.id, action.value)) {
+          logger.debug(`[actions] Value for ${action.id} not sent by its buttons, passed on as a message`)
+          return next()
+        }
+        const clickTime = getTime(message.ts)
+        if (message.editedAt || clickTime <= lastRead(driver, message.rid)) return
+        markRead(driver, message.rid, clickTime, meta.roomType)
+        driver.handleAction(action.id, action.value, message, meta).catch(() => null)
+      }
+    },
+    {
+      name: 'dm',
+      handler: (message, meta, next, config) => {
+        if (meta.roomType !== 'd' || config.dm) return next()
+      }
+    },
+    {
+      name: 'livechat',
+      handler: (message, meta, next, config) => {
+        if (meta.roomType !== 'l' || config.livechat) return next()
+      }
+    },
+    {
+      name: 'rooms',
+      handler: (message, meta, next, config) => {
+        const participant = (driver.rooms.loaded) ? driver.rooms.has(message.rid) : meta.roomParticipant
+        if (config.allPublic || meta.roomType === 'd' || participant) return next()
+      }
+    },
+    {
+      name: 'edited',
+      handler: (message, meta, next, config) => {
+        if (config.edited || !message.editedAt) return next()
+      }
+    },
+    {
+      name: 'threads',
+      handler: (message, meta, next, config) => {
+        if (threads.matchesThread(message, config.threads)) return next()
+      }
+    },
+    {
+      name: 'unread',
+      handler: (message, meta, next) => {
+        const readTime = getTime(message.editedAt || message.ts)
+        if (readTime <= lastRead(driver, message.rid)) return
+        if (!meta.readLater) markRead(driver, message.rid, readTime, meta.roomType)
+        return next()
+      }
+    },
+    {
+      name: 'system',
+      handler: (message, meta, next) => {
+        const event = systemMessages.parseSystemMessage(message, meta)
+        if (event) driver.events.emit(event.name, event.data)
+        return next()
+      }
+    },
+    {
+      name: 'types',
+      handler: (message, meta, next, config) => {
+        if (systemMessages.matchesType(message, config.allowTypes, config.denyTypes)) return next()
+      }
+    }
+  ]
+}
+
+/**
+ * Get time (ms) of the last message read in a room, or the driver's last read
+ * time if none read in the room yet.
+ */
+function lastRead (driver: Driver, roomId: string): number {
+  const roomTime = driver.reads.get(roomId)
+  return (roomTime !== undefined) ? roomTime : driver.lastReadTime.getTime()
+}
+
+/** Record a message read in a room, and as the driver's last if later */
+export function markRead (driver: Driver, roomId: string, time: number, roomType?: string): void {
+  if (time > driver.lastReadTime.getTime()) driver.lastReadTime = new Date(time)
+  driver.reads.mark(roomId, new Date(time), roomType)
+    .catch((err: Error) => logger.error(`[catchup] Failed to save read time: ${err.message}`))
+}
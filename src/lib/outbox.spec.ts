@@ -0,0 +1,113 @@
+import 'mocha'
+import sinon from 'sinon'
+import { expect } from 'chai'
+import { existsSync, mkdtempSync, readFileSync, writeFileSync, unlinkSync, rmdirSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { silence } from './log'
+import { Outbox, MemoryStore, FileStore, generateId, isDuplicate } from './outbox'
+
+silence() // suppress log during tests (disable this while developing tests)
+
+describe('outbox', () => {
+  describe('.generateId', () => {
+    it('returns random IDs of server ID characters', () => {
+      const id = generateId()
+      expect(id).to.match(/^[23456789A-HJ-NP-TW-Za-km-z]{17}$/)
+      expect(generateId()).to.not.equal(id)
+    })
+  })
+  describe('.isDuplicate', () => {
+    it('returns true for errors from an existing message ID', () => {
+      expect(isDuplicate({ error: 'error-message-already-exists' })).to.equal(true)
+      expect(isDuplicate(new Error('E11000 duplicate key error collection: rocketchat_message'))).to.equal(true)
+    })
+    it('returns false for other errors', () => {
+      expect(isDuplicate({ error: 'error-not-allowed' })).to.equal(false)
+      expect(isDuplicate(undefined)).to.equal(false)
+    })
+  })
+  describe('FileStore', () => {
+    let dir: string
+    let path: string
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'outbox-'))
+      path = join(dir, 'outbox.json')
+    })
+    afterEach(() => {
+      if (existsSync(path)) unlinkSync(path)
+      rmdirSync(dir)
+    })
+    it('loads nothing if file does not exist', async () => {
+      expect(await new FileStore(path).load()).to.eql([])
+    })
+    it('saves messages to file as JSON', async () => {
+      await new FileStore(path).save([{ rid: 'RID', _id: 'MID', msg: 'hello' }])
+      expect(JSON.parse(readFileSync(path, 'utf8'))).to.eql([{ rid: 'RID', _id: 'MID', msg: 'hello' }])
+    })
+    it('loads messages saved to file', async () => {
+      writeFileSync(path, JSON.stringify([{ rid: 'RID', _id: 'MID', msg: 'hello' }]))
+      expect(await new FileStore(path).load()).to.eql([{ rid: 'RID', _id: 'MID', msg: 'hello' }])
+    })
+  })
+  describe('Outbox', () => {
+    it('queues messages until flushed, sending in order', async () => {
+      const outbox = new Outbox()
+      const send = sinon.spy((message) => Promise.resolve({ _id: message._id }))
+      const results = Promise.all([
+        outbox.add({ rid: 'RID', _id: 'one' }),
+        outbox.add({ rid: 'RID', _id: 'two' })
+      ])
+      await outbox.restore()
+      expect(outbox.pending()).to.equal(2)
+      await outbox.flush(send)
+      expect(send.args.map((args) => args[0]._id)).to.eql(['one', 'two'])
+      expect(await results).to.eql([{ _id: 'one' }, { _id: 'two' }])
+      expect(outbox.pending()).to.equal(0)
+    })
+    it('saves queue to store on each change', async () => {
+      const store = new MemoryStore()
+      const outbox = new Outbox(store)
+      const sent = outbox.add({ rid: 'RID', _id: 'one' })
+      await new Promise((resolve) => setImmediate(resolve)) // let save run
+      expect(await store.load()).to.eql([{ rid: 'RID', _id: 'one' }])
+      await outbox.flush(() => Promise.resolve())
+      await sent
+      expect(await store.load()).to.eql([])
+    })
+    it('restores messages from store before those added since', async () => {
+      const store = new MemoryStore()
+      await store.save([{ rid: 'RID', _id: 'old' }])
+      const outbox = new Outbox(store)
+      const send = sinon.stub().resolves()
+      outbox.add({ rid: 'RID', _id: 'new' })
+      await outbox.flush(send)
+      expect(send.args.map((args) => args[0]._id)).to.eql(['old', 'new'])
+    })
+    it('stops and keeps message queued if retry accepts error', async () => {
+      const outbox = new Outbox()
+      const send = sinon.stub()
+      send.onFirstCall().rejects(new Error('Disconnected'))
+      send.onSecondCall().resolves('sent')
+      const sent = outbox.add({ rid: 'RID', _id: 'one' })
+      await outbox.flush(send, () => true)
+      expect(outbox.pending()).to.equal(1)
+      await outbox.flush(send)
+      expect(await sent).to.equal('sent')
+    })
+    it('resolves with message if already delivered', async () => {
+      const outbox = new Outbox()
+      const sent = outbox.add({ rid: 'RID', _id: 'one', msg: 'hello' })
+      await outbox.flush(() => Promise.reject({ error: 'error-message-already-exists' }))
+      expect(await sent).to.eql({ rid: 'RID', _id: 'one', msg: 'hello' })
+    })
+    it('rejects and removes message on other errors', async () => {
+      const outbox = new Outbox()
+      const sent = outbox.add({ rid: 'RID', _id: 'one' }).catch((err) => err)
+      const send = sinon.stub().rejects(new Error('error-not-allowed'))
+      await outbox.flush(send, () => false)
+      expect((await sent).message).to.equal('error-not-allowed')
+      expect(outbox.pending()).to.equal(0)
+    })
+  })
+})
@@ -0,0 +1,196 @@
+import { randomBytes } from 'crypto'
+import { logger } from './log'
+import { IMessage } from '../config/messageInterfaces'
+import { readJson, writeJson } from '../utils/json'
+
+/** Characters for message IDs, same as Meteor's `Random.id` */
+const _idChars = '23456789ABCDEFGHJKLMNPQRSTWXYZabcdefghijkmnopqrstuvwxyz'
+
+/**
+ * Generate a random message ID (17 chars, like the server's own), so a message
+ * sent again after a lost connection can't be delivered twice.
+ */
+export function generateId (length = 17): string {
+  return Array.from(randomBytes(length))
+    .map((byte) => _idChars[byte % _idChars.length])
+    .join('')
+}
+
+/**
+ * Check if an error from sending is because a message with the same ID exists,
+ * i.e. an earlier attempt was delivered before the connection was lost. Only
+ * errors naming it are detected, the server may hide them as internal errors
+ * (see driver `findDelivered`, which gets the message by ID instead).
+ */
+export function isDuplicate (err: any): boolean {
+  if (!err || typeof err !== 'object') return false
+  return [err.error, err.reason, err.message].some((value) => (
+    typeof value === 'string' && /duplicate|already[- ]exists|E11000/i.test(value)
+  ))
+}
+
+/**
+ * Persistence backend for queued messages. The whole queue is saved on each
+ * change, in order, then loaded once when the outbox is first used.
+ */
+export interface IOutboxStore {
+  load: () => Promise<IMessage[]>,
+  save: (messages: IMessage[]) => Promise<void>
+}
+
+/** Keeps queued messages in memory only (lost when the process exits) */
+export class MemoryStore implements IOutboxStore {
+  messages: IMessage[] = []
+  load (): Promise<IMessage[]> {
+    return Promise.resolve(this.messages.slice())
+  }
+  save (messages: IMessage[]): Promise<void> {
+    this.messages = messages.slice()
+    return Promise.resolve()
+  }
+}
+
+/**
+ * Keeps queued messages in a JSON file, so they survive a process restart.
+ * Writes to a temp file then renames, so a crash can't leave it half written.
+ * @param path  Location of the file, created when first saved
+ */
+export class FileStore implements IOutboxStore {
+  path: string
+  constructor (path: string) {
+    this.path = path
+  }
+  load (): Promise<IMessage[]> {
+    return readJson(this.path, [])
+  }
+  save (messages: IMessage[]): Promise<void> {
+    return writeJson(this.path, messages)
+  }
+}
+
+/** A queued message, to settle the promise from sending if still waiting */
+interface IQueued {
+  message: IMessage,
+  resolve?: (result: any) => void,
+  reject?: (err: any) => void
+}
+
+/**
+ * Queue of messages waiting to be sent, held while disconnected then sent in
+ * order when flushed. Messages restored from the store (after a restart) are
+ * sent before any added since.
+ * @example
+ *  const outbox = new Outbox(new FileStore('./outbox.json'))
+ *  const driver = new Driver({ outbox })
+ */
+export class Outbox {
+  store: IOutboxStore
+  queue: IQueued[] = []
+  private restored?: Promise<void>
+  private flushing?: Promise<void>
+  private saving: Promise<void> = Promise.resolve()
+
+  constructor (store: IOutboxStore = new MemoryStore()) {
+    this.store = store
+  }
+
+  /** Count of messages waiting to be sent */
+  pending (): number {
+    return this.queue.length
+  }
+
+  /**
+   * Load messages left in the store by a previous process, once, putting them
+   * before any already queued (unless queued again with the same ID).
+   */
+  restore (): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.store.load()
+        .then((messages) => {
+          const ids = this.queue.map((queued) => queued.message._id)
+          const restored = messages
+            .filter((message) => ids.indexOf(message._id) === -1)
+            .map((message) => ({ message }))
+          if (restored.length) logger.info(`[outbox] Restored ${restored.length} messages`)
+          this.queue.unshift(...restored)
+        })
+        .catch((err: Error) => logger.error(`[outbox] Failed to restore: ${err.message}`))
+    }
+    return this.restored
+  }
+
+  /**
+   * Add a message to the queue, resolving with the result of sending it when
+   * the queue is flushed (or rejecting if it fails for reasons other than the
+   * connection).
+   */
+  add (message: IMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.restore().then(() => {
+        logger.info(`[outbox] Queued message ${message._id}`)
+        this.queue.push({ message, resolve, reject })
+        return this.save()
+      }).catch(reject)
+    })
+  }
+
+  /**
+   * Send queued messages in order, removing each when sent. Stops (keeping the
+   * message at the front) if it fails and `retry` accepts the error, e.g. the
+   * connection was lost again. Resolves when done, calls during a flush share it.
+   * @param send   Function to send a message, returning a promise
+   * @param retry  Check if a failed send should be kept to try again later
+   */
+  flush (
+    send: (message: IMessage) => Promise<any>,
+    retry: (err: any) => boolean = () => false
+  ): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendAll(send, retry)
+        .then(() => {
+          this.flushing = undefined
+        }, (err) => {
+          this.flushing = undefined
+          throw err
+        })
+    }
+    return this.flushing
+  }
+
+  /** Send messages from the front of the queue until empty or told to retry */
+  private async sendAll (
+    send: (message: IMessage) => Promise<any>,
+    retry: (err: any) => boolean
+  ): Promise<void> {
+    await this.restore()
+    while (this.queue.length) {
+      const queued = this.queue[0]
+      let result: any
+      let error: any
+      try {
+        result = await send(queued.message)
+      } catch (err) {
+        if (isDuplicate(err)) result = queued.message // delivered by an earlier attempt
+        else if (retry(err)) break
+        else error = err
+      }
+      this.queue.shift()
+      await this.save()
+      if (error) {
+        logger.error(`[outbox] Failed to send message ${queued.message._id}`, error)
+        if (queued.reject) queued.reject(error)
+      } else if (queued.resolve) {
+        queued.resolve(result)
+      }
+    }
+  }
+
+  /** Save the current queue to the store, after any save in progress */
+  private save (): Promise<void> {
+    const messages = this.queue.map((queued) => queued.message)
+    this.saving = this.saving
+      .then(() => this.store.save(messages))
+      .catch((err: Error) => logger.error(`[outbox] Failed to save: ${err.message}`))
+    return this.saving
+  }
+}
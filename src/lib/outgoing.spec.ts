@@ -0,0 +1,65 @@
+import 'mocha'
+import { expect } from 'chai'
+import * as outgoing from './outgoing'
+
+const message = (msg: string, attributes = {}) => Object.assign({ _id: 'MID', rid: 'RID', msg }, attributes)
+
+describe('outgoing', () => {
+  describe('.splitText', () => {
+    it('returns text within max length as is', () => {
+      expect(outgoing.splitText('hello world', 20)).to.eql(['hello world'])
+    })
+    it('splits at line breaks, within max length', () => {
+      expect(outgoing.splitText('one\ntwo\nthree', 9)).to.eql(['one\ntwo', 'three'])
+    })
+    it('splits long lines at whitespace, or at max length if none', () => {
+      expect(outgoing.splitText('the quick brown fox', 10)).to.eql(['the quick', 'brown fox'])
+      expect(outgoing.splitText('abcdefghij', 4)).to.eql(['abcd', 'efgh', 'ij'])
+    })
+    it('closes and reopens code blocks split between parts', () => {
+      const text = 'Log:\n```js\nline 1\nline 2\nline 3\n```\ndone'
+      const parts = outgoing.splitText(text, 23)
+      expect(parts).to.eql(['Log:\n```js\nline 1\n```', '```js\nline 2\nline 3\n```', 'done'])
+      parts.forEach((part) => expect(part.length).to.be.at.most(23))
+    })
+  })
+  describe('.splitMessages', () => {
+    it('sends text over max length as several messages, last with attributes', async () => {
+      const parts = await outgoing.splitMessages(9)(message('one\ntwo\nthree', {
+        tmid: 'TMID',
+        attachments: [{ text: 'details' }]
+      }), 'send') as any[]
+      expect(parts.map((part) => part.msg)).to.eql(['one\ntwo', 'three'])
+      expect(parts[0]).to.include({ rid: 'RID', tmid: 'TMID' }).and.not.have.property('attachments')
+      expect(parts[0]._id).to.have.lengthOf(17)
+      expect(parts[1]).to.include({ _id: 'MID', tmid: 'TMID' }).and.have.property('attachments')
+    })
+    it('does not split edits', async () => {
+      const edit = message('one\ntwo\nthree')
+      expect(await outgoing.splitMessages(9)(edit, 'edit')).to.equal(edit)
+    })
+  })
+  describe('OutgoingHooks', () => {
+    it('passes messages through hooks in order', async () => {
+      const hooks = new outgoing.OutgoingHooks(outgoing.defaultHooks())
+        .before('split', 'shout', (message) => Object.assign(message, { msg: message.msg!.toUpperCase() }))
+      expect(hooks.names()).to.eql(['shout', 'split'])
+      expect(await hooks.run(message('hi'), 'send')).to.eql([message('HI')])
+    })
+    it('does not change the given message', async () => {
+      const original = message('hi')
+      await new outgoing.OutgoingHooks().use('shout', (message) => Object.assign(message, { msg: 'HI' })).run(original, 'send')
+      expect(original.msg).to.equal('hi')
+    })
+    it('rejects when a hook vetoes the message', async () => {
+      const hooks = new outgoing.OutgoingHooks().use('quiet', () => null)
+      const err = await hooks.run(message('hi'), 'send').catch((err) => err)
+      expect(err).to.be.instanceof(outgoing.MessageVetoedError).and.have.property('hook', 'quiet')
+    })
+    it('rejects when a hook splits an edit', async () => {
+      const hooks = new outgoing.OutgoingHooks().use('double', (message) => [message, message])
+      const err = await hooks.run(message('hi'), 'edit').catch((err) => err)
+      expect(err.message).to.contain('can not be split')
+    })
+  })
+})
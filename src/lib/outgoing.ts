@@ -0,0 +1,139 @@
+import { IMessage } from '../config/messageInterfaces'
+import { StepList, INamedStep } from './middleware'
+import { generateId } from './outbox'
+import * as settings from './settings'
+
+/** Kind of outgoing message: `send` for new messages, `edit` for updates */
+export type IOutgoingAction = 'send' | 'edit'
+
+/**
+ * Hook for outgoing messages, returning the message to send instead. May
+ * return a changed message, an array of messages (to send in order), or null
+ * (or an empty array) to veto it, or a promise of any of those.
+ * @param message  The message to send (a copy, so it can be changed)
+ * @param action   `send` or `edit`, edits can't be split
+ */
+export type IOutgoingHook = (
+  message: IMessage,
+  action: IOutgoingAction
+) => IMessage | IMessage[] | null | undefined | Promise<IMessage | IMessage[] | null | undefined>
+
+/** Message was vetoed by an outgoing hook */
+export class MessageVetoedError extends Error {
+  hook: string
+  constructor (hook: string) {
+    super(`[send] Message vetoed by hook ${hook}`)
+    this.name = 'MessageVetoedError'
+    this.hook = hook
+  }
+}
+
+/**
+ * Ordered list of hooks that outgoing messages pass through before they're
+ * sent or edited, to change, split or veto them.
+ * @example
+ *  driver.outgoing.before('split', 'footer', (message) => {
+ *    return Object.assign(message, { msg: `${message.msg}\n_sent by deploy bot_` })
+ *  })
+ *  driver.outgoing.use('redact', (message) => {
+ *    return Object.assign(message, { msg: message.msg!.replace(/token=\w+/g, 'token=***') })
+ *  })
+ */
+export class OutgoingHooks extends StepList<IOutgoingHook> {
+  /**
+   * Pass a message through the hooks, resolving with the messages to send.
+   * Rejects with `MessageVetoedError` if a hook vetoes every message.
+   */
+  async run (message: IMessage, action: IOutgoingAction): Promise<IMessage[]> {
+    let messages = [Object.assign({}, message)]
+    for (let step of this.steps.slice()) {
+      const results: IMessage[] = []
+      for (let current of messages) {
+        const result = await step.handler(current, action)
+        if (Array.isArray(result)) results.push(...result)
+        else if (result) results.push(result)
+      }
+      if (!results.length) throw new MessageVetoedError(step.name)
+      if (action === 'edit' && results.length > 1) {
+        throw new Error(`[send] Edit can not be split, by hook ${step.name}`)
+      }
+      messages = results
+    }
+    return messages
+  }
+}
+
+/** Find where to cut text to fit a length, at whitespace if there's some */
+function cutIndex (text: string, length: number): number {
+  const space = text.slice(0, length + 1).search(/\s\S*$/)
+  return (space > length / 2) ? space : length
+}
+
+/**
+ * Split text into parts within a max length, at line breaks where possible.
+ * Code blocks cut between parts are closed at the end of one part and opened
+ * again (with their language) at the start of the next.
+ */
+export function splitText (text: string, max: number): string[] {
+  if (text.length <= max) return [text]
+  const close = '\n```'
+  const parts: string[] = []
+  let fence: string | null = null // opening line of the code block the part is in
+  let part = ''
+  const isEmpty = () => !part || part === fence
+  const push = () => {
+    if (!isEmpty()) parts.push((fence) ? part + close : part)
+    part = fence || ''
+  }
+  for (let line of text.split('\n')) {
+    const nextFence: string | null = (/^\s*```/.test(line)) ? ((fence) ? null : line.trim()) : fence
+    const reserve = (nextFence) ? close.length : 0
+    let rest = line
+    while (true) {
+      const prefix = (part) ? part + '\n' : ''
+      const room = Math.max(max - prefix.length - reserve, 1)
+      if (rest.length <= room) {
+        part = prefix + rest
+        break
+      }
+      if (!isEmpty()) {
+        push()
+        continue
+      }
+      const cut = cutIndex(rest, room)
+      part = prefix + rest.slice(0, cut)
+      rest = rest.slice(cut).replace(/^\s+/, '')
+      push()
+    }
+    fence = nextFence
+  }
+  if (!isEmpty()) parts.push(part)
+  return parts
+}
+
+/**
+ * Hook to split messages with text over a max length into several messages.
+ * Earlier parts are sent as plain text, the last keeps the message's other
+ * attributes (e.g. attachments) and its ID, so it can be edited later.
+ * @param max  Max length of text (default `messageMaxLength` setting)
+ */
+export function splitMessages (max?: number): IOutgoingHook {
+  return (message, action) => {
+    const limit = max || settings.messageMaxLength
+    if (action !== 'send' || !message.msg || message.msg.length <= limit) return message
+    const texts = splitText(message.msg, limit)
+    return texts.map((text, index) => (index === texts.length - 1)
+      ? Object.assign({}, message, { msg: text })
+      : { _id: generateId(), rid: message.rid, tmid: message.tmid, msg: text, bot: message.bot })
+  }
+}
+
+/**
+ * Built-in hooks for outgoing messages, in order:
+ * - `split` - split text over the server's max length into several messages
+ */
+export function defaultHooks (): INamedStep<IOutgoingHook>[] {
+  return [
+    { name: 'split', handler: splitMessages() }
+  ]
+}
@@ -0,0 +1,116 @@
+import 'mocha'
+import sinon from 'sinon'
+import { expect } from 'chai'
+import { paginate, paginateHistory, getAll, collect } from './pagination'
+
+/** Mock list endpoint, with items numbered 0 to total */
+function listClient (total: number) {
+  return {
+    get: sinon.spy((endpoint: string, query: any) => {
+      const users = []
+      for (let i = query.offset; i < Math.min(total, query.offset + query.count); i++) {
+        users.push({ _id: `${i}` })
+      }
+      return Promise.resolve({ users, count: users.length, offset: query.offset, total, success: true })
+    }),
+    post: sinon.stub()
+  }
+}
+
+/** Mock history endpoint, with messages given newest first */
+function historyClient (messages: any[]) {
+  return {
+    get: sinon.spy((endpoint: string, query: any) => {
+      const inRange = messages.filter((message) => {
+        if (!query.latest) return true
+        return (query.inclusive) ? message.ts <= query.latest : message.ts < query.latest
+      })
+      return Promise.resolve({ messages: inRange.slice(0, query.count), success: true })
+    }),
+    post: sinon.stub()
+  }
+}
+
+describe('pagination', () => {
+  describe('.paginate', () => {
+    it('iterates items from all pages', async () => {
+      const client = listClient(25)
+      const users = await collect(paginate(client, 'users.list', 'users', {}, { pageSize: 10 }))
+      expect(users).to.have.lengthOf(25)
+      expect(users[24]._id).to.equal('24')
+      sinon.assert.calledThrice(client.get)
+    })
+    it('requests pages with count and offset', async () => {
+      const client = listClient(15)
+      await collect(paginate(client, 'users.list', 'users', { fields: { _id: 1 } }, { pageSize: 10 }))
+      expect(client.get.firstCall.args).to.eql(['users.list', { fields: { _id: 1 }, count: 10, offset: 0 }])
+      expect(client.get.secondCall.args).to.eql(['users.list', { fields: { _id: 1 }, count: 10, offset: 10 }])
+    })
+    it('stops at total without requesting an empty page', async () => {
+      const client = listClient(20)
+      await collect(paginate(client, 'users.list', 'users', {}, { pageSize: 10 }))
+      sinon.assert.calledTwice(client.get)
+    })
+    it('stops requests at limit', async () => {
+      const client = listClient(100)
+      const users = await collect(paginate(client, 'users.list', 'users', {}, { pageSize: 10, limit: 15 }))
+      expect(users).to.have.lengthOf(15)
+      sinon.assert.calledTwice(client.get)
+    })
+    it('stops requests when consumer breaks', async () => {
+      const client = listClient(100)
+      for await (const user of paginate(client, 'users.list', 'users', {}, { pageSize: 10 })) {
+        if (user._id === '5') break
+      }
+      sinon.assert.calledOnce(client.get)
+    })
+    it('stops if result is missing', async () => {
+      const client = { get: sinon.stub().resolves(undefined), post: sinon.stub() }
+      const users = await collect(paginate(client, 'users.list', 'users'))
+      expect(users).to.eql([])
+    })
+  })
+  describe('.getAll', () => {
+    it('gets items from all pages as an array', async () => {
+      const client = listClient(25)
+      const users = await getAll(client, 'users.list', 'users', {}, { pageSize: 10 })
+      expect(users.map((user) => user._id)).to.eql(Array.from(Array(25).keys()).map(String))
+      sinon.assert.calledThrice(client.get)
+    })
+    it('stops requests at limit', async () => {
+      const client = listClient(100)
+      const users = await getAll(client, 'users.list', 'users', {}, { pageSize: 10, limit: 15 })
+      expect(users).to.have.lengthOf(15)
+      sinon.assert.calledTwice(client.get)
+    })
+  })
+  describe('.paginateHistory', () => {
+    const messages = [
+      { _id: 'e', ts: '2018-01-05' },
+      { _id: 'd', ts: '2018-01-04' },
+      { _id: 'c2', ts: '2018-01-03' },
+      { _id: 'c1', ts: '2018-01-03' },
+      { _id: 'b', ts: '2018-01-02' },
+      { _id: 'a', ts: '2018-01-01' }
+    ]
+    it('iterates all messages, newest first', async () => {
+      const client = historyClient(messages)
+      const result = await collect(paginateHistory(client, 'channels.history', { roomId: 'RID' }, { pageSize: 3 }))
+      expect(result.map((message) => message._id)).to.eql(['e', 'd', 'c2', 'c1', 'b', 'a'])
+    })
+    it('continues from timestamp of oldest message', async () => {
+      const client = historyClient(messages)
+      await collect(paginateHistory(client, 'channels.history', { roomId: 'RID' }, { pageSize: 3 }))
+      expect(client.get.firstCall.args).to.eql(['channels.history', { roomId: 'RID', count: 3 }])
+      expect(client.get.secondCall.args).to.eql(['channels.history', {
+        roomId: 'RID', count: 3, latest: '2018-01-03', inclusive: true
+      }])
+    })
+    it('stops requests at limit', async () => {
+      const client = historyClient(messages)
+      const result = await collect(paginateHistory(client, 'im.history', { roomId: 'RID' }, { pageSize: 2, limit: 2 }))
+      expect(result).to.have.lengthOf(2)
+      sinon.assert.calledOnce(client.get)
+    })
+  })
+})
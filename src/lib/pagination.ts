@@ -0,0 +1,158 @@
+import { IRequestClient } from './endpoints'
+import { IHistoryQueryAPI, IMessageReceiptAPI } from '../utils/interfaces'
+
+// Async iterators compiled for ES2015 need the symbol, which Node < 10 lacks
+if (!(Symbol as any).asyncIterator) {
+  (Symbol as any).asyncIterator = Symbol.for('Symbol.asyncIterator')
+}
+
+/**
+ * Options for paginated requests.
+ * @param pageSize  Number of items to request at a time
+ * @param limit     Stop after this many items (default no limit)
+ */
+export interface IPageOptions {
+  pageSize?: number,
+  limit?: number
+}
+
+/** Default number of items per request, the same as the server's default */
+export const defaultPageSize = 50
+
+/**
+ * Iterate all items from a `count`/`offset` endpoint, e.g. `users.list`,
+ * requesting the next page as the last is consumed. Stops at the end of the
+ * results, the limit, or when the consumer breaks from the loop.
+ * @param client    Client to make requests with
+ * @param endpoint  The list endpoint, e.g. `channels.list`
+ * @param key       Key of the item array in the result, e.g. `channels`
+ * @param query     Other query params, e.g. `fields` or `sort` (and `offset`)
+ * @param options   Page size and limit
+ * @example
+ *  for await (const user of paginate(api, 'users.list', 'users')) {
+ *    console.log(user.username)
+ *  }
+ */
+export async function * paginate<T = any> (
+  client: IRequestClient,
+  endpoint: string,
+  key: string,
+  query: object = {},
+  options: IPageOptions = {}
+): AsyncIterableIterator<T> {
+  const pageSize = options.pageSize || defaultPageSize
+  let offset = (query as { offset?: number }).offset || 0
+  let yielded = 0
+  let done = false
+  while (!done) {
+    const { items, total } = await getPage<T>(client, endpoint, key, query, offset, pageSize)
+    for (let item of items) {
+      yield item
+      if (options.limit && ++yielded >= options.limit) break
+    }
+    offset += items.length
+    done = isLastPage(items.length, offset, total, pageSize) ||
+      (!!options.limit && yielded >= options.limit)
+  }
+}
+
+/**
+ * Get all items from a `count`/`offset` endpoint as an array, requesting each
+ * page in turn, without async iterators (e.g. for the `api.users` helpers).
+ * Params are the same as `paginate`.
+ */
+export async function getAll<T = any> (
+  client: IRequestClient,
+  endpoint: string,
+  key: string,
+  query: object = {},
+  options: IPageOptions = {}
+): Promise<T[]> {
+  const pageSize = options.pageSize || defaultPageSize
+  let offset = (query as { offset?: number }).offset || 0
+  let all: T[] = []
+  let done = false
+  while (!done) {
+    const { items, total } = await getPage<T>(client, endpoint, key, query, offset, pageSize)
+    all = all.concat(items)
+    offset += items.length
+    done = isLastPage(items.length, offset, total, pageSize) ||
+      (!!options.limit && all.length >= options.limit)
+  }
+  return (options.limit) ? all.slice(0, options.limit) : all
+}
+
+/** Request a page of items from a `count`/`offset` endpoint */
+async function getPage<T> (
+  client: IRequestClient,
+  endpoint: string,
+  key: string,
+  query: object,
+  offset: number,
+  pageSize: number
+): Promise<{ items: T[], total?: number }> {
+  const result = await client.get(endpoint, Object.assign({}, query, { count: pageSize, offset }))
+  const items: T[] = (result && Array.isArray(result[key])) ? result[key] : []
+  const total = (result && typeof result.total === 'number') ? result.total : undefined
+  return { items, total }
+}
+
+/** Check if a page is the last, being short or reaching the total */
+function isLastPage (count: number, offset: number, total: number | undefined, pageSize: number): boolean {
+  return count < pageSize || (typeof total === 'number' && offset >= total)
+}
+
+/**
+ * Iterate all messages from a `latest`/`oldest` history endpoint, e.g.
+ * `channels.history`, newest first. Each request continues from the timestamp
+ * of the oldest message so far (inclusive, skipping duplicates), back to the
+ * `oldest` param if given, or the start of the room.
+ * @param client    Client to make requests with
+ * @param endpoint  The history endpoint, e.g. `im.history`
+ * @param query     Room ID and optional time range
+ * @param options   Page size and limit
+ */
+export async function * paginateHistory (
+  client: IRequestClient,
+  endpoint: string,
+  query: IHistoryQueryAPI,
+  options: IPageOptions = {}
+): AsyncIterableIterator<IMessageReceiptAPI> {
+  const pageSize = options.pageSize || defaultPageSize
+  let latest = query.latest
+  let inclusive = query.inclusive
+  let lastIds: string[] = []
+  let yielded = 0
+  let done = false
+  while (!done) {
+    const pageQuery: IHistoryQueryAPI = Object.assign({}, query, { count: pageSize })
+    if (latest) pageQuery.latest = latest
+    if (typeof inclusive !== 'undefined') pageQuery.inclusive = inclusive
+    const result = await client.get(endpoint, pageQuery)
+    const messages: IMessageReceiptAPI[] = (result && Array.isArray(result.messages))
+      ? result.messages
+      : []
+    const newMessages = messages.filter((message) => lastIds.indexOf(message._id) === -1)
+    for (let message of newMessages) {
+      yield message
+      if (options.limit && ++yielded >= options.limit) break
+    }
+    done = (
+      (!!options.limit && yielded >= options.limit) ||
+      messages.length < pageSize ||
+      !newMessages.length
+    )
+    if (!done) {
+      latest = messages[messages.length - 1].ts
+      inclusive = true
+      lastIds = messages.map((message) => message._id)
+    }
+  }
+}
+
+/** Collect all items from an async iterator into an array */
+export async function collect<T> (iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterator) items.push(item)
+  return items
+}
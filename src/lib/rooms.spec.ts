@@ -0,0 +1,70 @@
+import 'mocha'
+import { expect } from 'chai'
+import * as rooms from './rooms'
+
+/** Recorded `subscriptions/get` results */
+const subscriptions = [
+  {
+    _id: 'v2D5qCJ8iWXyDYbMh',
+    rid: 'kTYgbSqKEDNBFMy8R',
+    name: 'release-team',
+    fname: 'release-team',
+    t: 'p',
+    u: { _id: 'hbRpJzy5BW4wgTAr4', username: 'bot' },
+    roles: ['owner', 'moderator'],
+    open: true,
+    unread: 0,
+    _updatedAt: { $date: 1555590300000 }
+  },
+  {
+    _id: 'G8pZuYBG7xqWHdCbD',
+    rid: 'GENERAL',
+    name: 'general',
+    t: 'c',
+    u: { _id: 'hbRpJzy5BW4wgTAr4', username: 'bot' },
+    ro: true,
+    open: true,
+    unread: 2,
+    _updatedAt: { $date: 1555590100000 }
+  }
+]
+
+describe('rooms', () => {
+  describe('.parseSubscription', () => {
+    it('gets room details and the highest role', () => {
+      expect(rooms.parseSubscription(subscriptions[0])).to.eql({
+        id: 'kTYgbSqKEDNBFMy8R',
+        name: 'release-team',
+        type: 'p',
+        readOnly: false,
+        role: 'owner'
+      })
+      expect(rooms.parseSubscription(subscriptions[1])).to.include({ readOnly: true, role: 'member' })
+    })
+  })
+  describe('RoomTracker', () => {
+    let tracker: rooms.RoomTracker
+    beforeEach(() => {
+      tracker = new rooms.RoomTracker()
+      tracker.load(subscriptions)
+    })
+    it('loads rooms by ID, replacing any before', () => {
+      tracker.load(subscriptions.slice(1))
+      expect(tracker.loaded).to.equal(true)
+      expect(tracker.ids()).to.eql(['GENERAL'])
+    })
+    it('finds rooms by ID or name', () => {
+      expect(tracker.find('GENERAL')).to.have.property('name', 'general')
+      expect(tracker.find('release-team')).to.have.property('id', 'kTYgbSqKEDNBFMy8R')
+      expect(tracker.find('random')).to.equal(undefined)
+    })
+    it('adds, updates and removes rooms by subscription changes', () => {
+      tracker.update('inserted', { rid: 'RID', name: 'random', t: 'c' })
+      tracker.update('updated', { rid: 'GENERAL', roles: ['moderator'] })
+      const removed = tracker.update('removed', { rid: 'kTYgbSqKEDNBFMy8R' })
+      expect(removed).to.have.property('name', 'release-team')
+      expect(tracker.ids()).to.eql(['GENERAL', 'RID'])
+      expect(tracker.get('GENERAL')).to.include({ name: 'general', readOnly: true, role: 'moderator' })
+    })
+  })
+})
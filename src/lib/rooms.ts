@@ -0,0 +1,113 @@
+/** Roles the user can have in a room, highest first */
+const _roles = ['owner', 'moderator', 'leader']
+
+/**
+ * A room the user is in, from their subscription to it.
+ * @param id        ID of the room
+ * @param name      Name of the room (username of the other user for DMs)
+ * @param type      `c` channel, `p` private group, `d` DM or `l` livechat
+ * @param readOnly  True if only users with permission can post
+ * @param role      User's highest role in the room: `owner`, `moderator`,
+ *                  `leader` or `member`
+ */
+export interface IRoom {
+  id: string,
+  name: string,
+  type: string,
+  readOnly: boolean,
+  role: string
+}
+
+/** Get a room from a subscription, as given by `subscriptions/get` or streams */
+export function parseSubscription (subscription: any): IRoom {
+  const roles: string[] = subscription.roles || []
+  return {
+    id: subscription.rid,
+    name: subscription.name,
+    type: subscription.t,
+    readOnly: !!subscription.ro,
+    role: _roles.find((role) => roles.indexOf(role) !== -1) || 'member'
+  }
+}
+
+/**
+ * Rooms the user is in, by ID. Loaded from the user's subscriptions on login,
+ * then updated by subscription changes from the user stream and by joining or
+ * leaving rooms.
+ * @example
+ *  const room = driver.rooms.get(message.rid)
+ *  if (room && room.readOnly && room.role === 'member') return // can't reply
+ */
+export class RoomTracker {
+  rooms: Map<string, IRoom> = new Map()
+
+  /** Flag for rooms loaded, membership is unknown until then */
+  loaded = false
+
+  /** Replace all rooms with those of the user's subscriptions */
+  load (subscriptions: any[]): IRoom[] {
+    this.rooms.clear()
+    subscriptions.forEach((subscription) => this.add(parseSubscription(subscription)))
+    this.loaded = true
+    return this.all()
+  }
+
+  /**
+   * Update rooms from a subscription change, returning the room changed.
+   * @param action        `inserted`, `updated` or `removed`
+   * @param subscription  The subscription changed
+   */
+  update (action: string, subscription: any): IRoom | undefined {
+    if (!subscription || !subscription.rid) return undefined
+    if (action === 'removed') {
+      const room = this.get(subscription.rid)
+      this.remove(subscription.rid)
+      return room
+    }
+    const room = parseSubscription(Object.assign({}, this.subscriptionOf(subscription.rid), subscription))
+    this.add(room)
+    return room
+  }
+
+  /** Add (or replace) a room */
+  add (room: IRoom): void {
+    this.rooms.set(room.id, room)
+  }
+
+  /** Remove a room by ID, returning true if it was found */
+  remove (roomId: string): boolean {
+    return this.rooms.delete(roomId)
+  }
+
+  /** Check if the user is in a room, by ID */
+  has (roomId: string): boolean {
+    return this.rooms.has(roomId)
+  }
+
+  /** Get a room by ID */
+  get (roomId: string): IRoom | undefined {
+    return this.rooms.get(roomId)
+  }
+
+  /** Find a room by name (or ID) */
+  find (name: string): IRoom | undefined {
+    return this.get(name) || this.all().find((room) => room.name === name)
+  }
+
+  /** Get all rooms */
+  all (): IRoom[] {
+    return Array.from(this.rooms.values())
+  }
+
+  /** Get IDs of all rooms */
+  ids (): string[] {
+    return Array.from(this.rooms.keys())
+  }
+
+  /** Get a known room as subscription fields, to apply partial updates to */
+  private subscriptionOf (roomId: string): any {
+    const room = this.get(roomId)
+    if (!room) return {}
+    return { rid: room.id, name: room.name, t: room.type, ro: room.readOnly, roles: [room.role] }
+  }
+}
@@ -0,0 +1,169 @@
+import 'mocha'
+import sinon from 'sinon'
+import { expect } from 'chai'
+import { silence } from './log'
+import * as router from './router'
+
+silence() // suppress log during tests (disable this while developing tests)
+
+const deploy = {
+  name: 'deploy',
+  description: 'Deploy a build',
+  args: [
+    { name: 'env' },
+    { name: 'version', type: 'number' as 'number', optional: true }
+  ],
+  handler: () => null
+}
+const message = (msg, rid = 'RID') => ({ _id: 'MID', rid, msg, u: { _id: 'UID', username: 'user' } })
+
+describe('router', () => {
+  describe('.nextWord', () => {
+    it('splits first word from rest', () => {
+      expect(router.nextWord(' deploy  prod 2 ')).to.eql({ word: 'deploy', rest: 'prod 2' })
+    })
+    it('keeps words in quotes together', () => {
+      expect(router.nextWord('"release notes" now')).to.eql({ word: 'release notes', rest: 'now' })
+    })
+    it('returns null without words', () => {
+      expect(router.nextWord('  ')).to.equal(null)
+    })
+  })
+  describe('.getUsage', () => {
+    it('shows required, optional and rest arguments', () => {
+      const command = Object.assign({}, deploy, { args: deploy.args.concat({ name: 'note', rest: true } as any) })
+      expect(router.getUsage(command, '!')).to.equal('!deploy <env> [version] <note...>')
+    })
+  })
+  describe('.parseArgs', () => {
+    it('parses arguments by schema, with types', () => {
+      expect(router.parseArgs(deploy, 'prod 2')).to.eql({ args: { env: 'prod', version: 2 } })
+    })
+    it('leaves out missing optional arguments', () => {
+      expect(router.parseArgs(deploy, 'prod')).to.eql({ args: { env: 'prod' } })
+    })
+    it('gives rest of text to rest argument', () => {
+      const command = Object.assign({}, deploy, { args: [{ name: 'text', rest: true }] })
+      expect(router.parseArgs(command, 'all the "words"').args).to.eql({ text: 'all the "words"' })
+    })
+    it('throws usage error for missing, invalid or extra arguments', () => {
+      expect(() => router.parseArgs(deploy, '')).to.throw(router.CommandUsageError, /Missing argument env/)
+      expect(() => router.parseArgs(deploy, 'prod latest')).to.throw(router.CommandUsageError, /must be a number/)
+      expect(() => router.parseArgs(deploy, 'prod 2 now')).to.throw(router.CommandUsageError, /Too many/)
+    })
+    it('matches pattern instead of schema', () => {
+      const command = { name: 'tell', pattern: /^everyone (.+)$/, handler: () => null }
+      expect(router.parseArgs(command, 'everyone hello').match![1]).to.equal('hello')
+      expect(() => router.parseArgs(command, 'nobody')).to.throw(router.CommandUsageError)
+    })
+    it('accepts any text without schema or pattern', () => {
+      expect(router.parseArgs({ name: 'ping', handler: () => null }, 'any text')).to.eql({ args: {} })
+    })
+  })
+  describe('CommandRouter', () => {
+    let driver
+    let instance
+    let handler
+    beforeEach(() => {
+      driver = {
+        getUsername: () => 'bot',
+        sendToRoomId: sinon.stub().resolves({}),
+        respondToMessages: sinon.stub().resolves()
+      }
+      handler = sinon.stub().resolves()
+      instance = new router.CommandRouter(driver, { prefix: '!' })
+      instance.add(Object.assign({}, deploy, { aliases: ['ship'], handler }))
+    })
+    it('.add throws if name or alias is taken', () => {
+      expect(() => instance.add({ name: 'ship', handler })).to.throw()
+    })
+    it('.handle routes prefixed commands with parsed args', async () => {
+      expect(await instance.handle(message('!deploy prod 3'), {})).to.equal(true)
+      expect(handler.firstCall.args[0].args).to.eql({ env: 'prod', version: 3 })
+    })
+    it('.handle routes commands addressed by mention or alias', async () => {
+      await instance.handle(message('@bot: ship staging'), {})
+      expect(handler.firstCall.args[0].command.name).to.equal('deploy')
+    })
+    it('.handle routes unaddressed commands in DMs only', async () => {
+      expect(await instance.handle(message('deploy prod'), { roomType: 'c' })).to.equal(false)
+      expect(await instance.handle(message('deploy prod'), { roomType: 'd' })).to.equal(true)
+      sinon.assert.calledOnce(handler)
+    })
+    it('.handle ignores unknown commands and other mentions', async () => {
+      expect(await instance.handle(message('!unknown'), {})).to.equal(false)
+      expect(await instance.handle(message('@other deploy prod'), {})).to.equal(false)
+    })
+    it('.handle replies with usage for invalid arguments', async () => {
+      await instance.handle(message('!deploy'), {})
+      sinon.assert.notCalled(handler)
+      expect(driver.sendToRoomId.firstCall.args[0]).to.match(/Usage: !deploy <env> \[version\]$/)
+    })
+    it('.handle reports handler errors to the room (or thread)', async () => {
+      handler.rejects(new Error('build not found'))
+      await instance.handle(message('!deploy prod'), { threadId: 'TMID' })
+      sinon.assert.calledWithExactly(driver.sendToRoomId, 'Error in deploy: build not found', 'RID', 'TMID')
+    })
+    it('.handle checks command is allowed in room', async () => {
+      instance.add({ name: 'release', rooms: ['releases'], handler })
+      await instance.handle(message('!release'), { roomName: 'general' })
+      await instance.handle(message('!release'), { roomName: 'releases' })
+      sinon.assert.calledOnce(handler)
+    })
+    it('.handle checks user has a role the command requires', async () => {
+      const getRoles = sinon.stub().resolves(['user', 'owner'])
+      instance.options.getRoles = getRoles
+      instance.add({ name: 'admin', roles: ['admin'], handler })
+      instance.add({ name: 'archive', roles: ['owner'], handler })
+      await instance.handle(message('!admin'), {})
+      await instance.handle(message('!archive'), {})
+      sinon.assert.calledOnce(handler)
+      sinon.assert.calledWith(getRoles, 'UID', 'RID')
+      expect(driver.sendToRoomId.firstCall.args[0]).to.match(/not allowed/)
+    })
+    it('.getRoles combines server and room roles', async () => {
+      driver.asyncCall = sinon.stub()
+      driver.asyncCall.withArgs('getUserRoles').resolves([{ _id: 'UID', roles: ['admin'] }])
+      driver.asyncCall.withArgs('getRoomRoles').resolves([{ u: { _id: 'UID' }, roles: ['owner'] }])
+      expect(await instance.getRoles('UID', 'RID')).to.eql(['user', 'admin', 'owner'])
+    })
+    it('.getRoles caches roles, by room', async () => {
+      driver.asyncCall = sinon.stub()
+      driver.asyncCall.withArgs('getUserRoles').resolves([{ _id: 'UID', roles: ['admin'] }])
+      driver.asyncCall.withArgs('getRoomRoles').resolves([])
+      await instance.getRoles('UID', 'RID')
+      await instance.getRoles('OTHER', 'RID')
+      await instance.getRoles('UID', 'ROOM')
+      sinon.assert.calledOnce(driver.asyncCall.withArgs('getUserRoles'))
+      sinon.assert.calledTwice(driver.asyncCall.withArgs('getRoomRoles'))
+      instance.resetRoles()
+      await instance.getRoles('UID', 'RID')
+      sinon.assert.calledTwice(driver.asyncCall.withArgs('getUserRoles'))
+    })
+    it('.getRoles does not cache failed requests', async () => {
+      driver.asyncCall = sinon.stub()
+      driver.asyncCall.withArgs('getUserRoles').onFirstCall().rejects(new Error('timeout'))
+      driver.asyncCall.withArgs('getUserRoles').resolves([{ _id: 'UID', roles: ['admin'] }])
+      driver.asyncCall.withArgs('getRoomRoles').resolves([])
+      const err = await instance.getRoles('UID', 'RID').catch((err) => err)
+      expect(err.message).to.equal('timeout')
+      expect(await instance.getRoles('UID', 'RID')).to.eql(['user', 'admin'])
+    })
+    it('.help lists commands with usage and descriptions', async () => {
+      instance.add({ name: 'ping', handler })
+      await instance.handle(message('!help'), {})
+      expect(driver.sendToRoomId.firstCall.args[0]).to.equal([
+        'Commands:',
+        '`!deploy <env> [version]` - Deploy a build',
+        '`!ping`'
+      ].join('\n'))
+    })
+    it('.help shows a command by name or alias', () => {
+      expect(instance.help('ship')).to.equal('`!deploy <env> [version]` - Deploy a build\nAliases: ship')
+    })
+    it('.listen responds to messages with options', async () => {
+      await instance.listen({ dm: true })
+      sinon.assert.calledWithMatch(driver.respondToMessages, sinon.match.func, { dm: true })
+    })
+  })
+})
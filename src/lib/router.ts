@@ -0,0 +1,399 @@
+import LRU from 'lru-cache'
+import { IMessage } from '../config/messageInterfaces'
+import { IRespondOptions } from '../config/driverInterfaces'
+import { IMessageReceiptAPI } from '../utils/interfaces'
+import { Driver, defaultDriver } from './driver'
+import { logger } from './log'
+import * as settings from './settings'
+
+/**
+ * Argument in a command's schema, parsed from words after the command name.
+ * Words in quotes are parsed as one argument.
+ * @param name      Name of the argument, as key in the handler's `args`
+ * @param type      Type to convert to: `string` (default), `number` or `boolean`
+ * @param optional  Argument can be left out
+ * @param rest      Argument takes the rest of the text (must be last)
+ */
+export interface ICommandArg {
+  name: string,
+  type?: 'string' | 'number' | 'boolean',
+  optional?: boolean,
+  rest?: boolean
+}
+
+/**
+ * A command the router responds to.
+ * @param name         Name of the command, the first word after addressing
+ * @param description  Description shown in help
+ * @param aliases      Other names for the command
+ * @param args         Schema to parse the text after the name into `args`
+ *                     (without a schema or pattern, any text is accepted)
+ * @param pattern      Alternative to `args`, a pattern the text after the
+ *                     name must match, given to the handler as `match`
+ * @param rooms        Rooms (names or IDs) where the command is allowed
+ * @param roles        Roles a user needs one of to use the command, from
+ *                     their server or room roles, e.g. `admin` or `owner`
+ * @param handler      Function called with the command, may return a promise
+ */
+export interface ICommand {
+  name: string,
+  description?: string,
+  aliases?: string[],
+  args?: ICommandArg[],
+  pattern?: RegExp,
+  rooms?: string[],
+  roles?: string[],
+  handler: ICommandHandler
+}
+
+/**
+ * A command sent by a user, given to its handler.
+ * @param command  The command
+ * @param args     Arguments parsed with the command's schema
+ * @param match    Result of matching the command's pattern
+ * @param text     Text after the command name
+ * @param message  The message with the command
+ * @param meta     Meta of the message, such as `roomType` and `threadId`
+ * @param reply    Send a message to the room (or thread) of the command
+ */
+export interface ICommandContext {
+  command: ICommand,
+  args: { [name: string]: any },
+  match?: RegExpMatchArray,
+  text: string,
+  message: IMessage,
+  meta: any,
+  reply: (content: string | string[] | IMessage) => Promise<IMessageReceiptAPI[] | IMessageReceiptAPI>
+}
+
+/** Function called with a command, may return a promise */
+export type ICommandHandler = (context: ICommandContext) => any
+
+/**
+ * Command router options.
+ * @param prefix        Prefix to address commands to the bot, e.g. `!deploy`
+ * @param mention       Accept commands addressed by mention, e.g. `@bot deploy`
+ * @param direct        Accept commands without addressing in DMs
+ * @param help          Name of the help command, or false to not add one
+ * @param reportErrors  Reply with the error if a handler fails
+ * @param getRoles      Get roles of a user in a room, for permission checks
+ *                      (default from the server, with the driver)
+ */
+export interface IRouterOptions {
+  prefix?: string,
+  mention?: boolean,
+  direct?: boolean,
+  help?: string | false,
+  reportErrors?: boolean,
+  getRoles?: (userId: string, roomId: string) => Promise<string[]>
+}
+
+/** Command was used with arguments that don't fit its schema or pattern */
+export class CommandUsageError extends Error {
+  command: ICommand
+  constructor (message: string, command: ICommand) {
+    super(message)
+    this.name = 'CommandUsageError'
+    this.command = command
+  }
+}
+
+/** Get the first word of text (whole if in quotes) and the text after it */
+export function nextWord (text: string): { word: string, rest: string } | null {
+  const match = text.trim().match(/^(?:"([^"]*)"|'([^']*)'|(\S+))\s*([\s\S]*)$/)
+  if (!match) return null
+  const groups: Array<string | undefined> = match.slice(1, 4) // quoted or bare
+  return { word: groups.find((group) => group !== undefined) || '', rest: match[4] }
+}
+
+/** Get the usage of a command, e.g. `deploy <env> [version]` */
+export function getUsage (command: ICommand, prefix = ''): string {
+  const args = (command.args || []).map((arg) => {
+    const name = (arg.rest) ? `${arg.name}...` : arg.name
+    return (arg.optional) ? `[${name}]` : `<${name}>`
+  })
+  return [prefix + command.name].concat(args).join(' ')
+}
+
+/**
+ * Parse the text after a command's name with its schema or pattern.
+ * Throws `CommandUsageError` if the text doesn't fit.
+ */
+export function parseArgs (
+  command: ICommand,
+  text: string
+): { args: { [name: string]: any }, match?: RegExpMatchArray } {
+  if (command.pattern) {
+    const match = text.match(command.pattern)
+    if (!match) throw new CommandUsageError(`Invalid arguments for ${command.name}`, command)
+    return { args: {}, match }
+  }
+  const args: { [name: string]: any } = {}
+  if (!command.args) return { args } // any text, as given
+  let rest = text.trim()
+  for (let arg of command.args) {
+    let value: string | undefined
+    if (arg.rest) {
+      value = rest || undefined
+      rest = ''
+    } else {
+      const next = nextWord(rest)
+      value = (next) ? next.word : undefined
+      rest = (next) ? next.rest : ''
+    }
+    if (value === undefined) {
+      if (arg.optional) continue
+      throw new CommandUsageError(`Missing argument ${arg.name} for ${command.name}`, command)
+    }
+    args[arg.name] = convertArg(command, arg, value)
+  }
+  if (rest) throw new CommandUsageError(`Too many arguments for ${command.name}`, command)
+  return { args }
+}
+
+/** Convert an argument to the type in its schema */
+function convertArg (command: ICommand, arg: ICommandArg, value: string): any {
+  if (arg.type === 'number') {
+    const parsed = Number(value)
+    if (isNaN(parsed)) throw new CommandUsageError(`Argument ${arg.name} must be a number`, command)
+    return parsed
+  }
+  if (arg.type === 'boolean') {
+    if (/^(true|yes|on|1)$/i.test(value)) return true
+    if (/^(false|no|off|0)$/i.test(value)) return false
+    throw new CommandUsageError(`Argument ${arg.name} must be yes or no`, command)
+  }
+  return value
+}
+
+/**
+ * Routes commands in messages to handlers, on top of `respondToMessages`.
+ * Commands are addressed to the bot with a prefix (`!deploy x`), a mention
+ * (`@bot deploy x`) or in DMs without either, and replies go to the room
+ * (or thread) of the command with `sendToRoomId`.
+ * @example
+ *  const router = new CommandRouter(driver)
+ *  router.add({
+ *    name: 'deploy',
+ *    description: 'Deploy a build',
+ *    args: [{ name: 'env' }, { name: 'version', optional: true }],
+ *    roles: ['admin'],
+ *    handler: async ({ args, reply }) => reply(await deploy(args.env, args.version))
+ *  })
+ *  await router.listen({ dm: true })
+ */
+export class CommandRouter {
+  /** Commands by (lower case) name */
+  commands: Map<string, ICommand> = new Map()
+
+  /** Driver to receive commands from and reply with */
+  driver: Driver
+
+  /** Router options, with defaults */
+  options: IRouterOptions
+
+  /**
+   * Server roles of all users, and roles in each room, by `server` or room ID,
+   * so permission checks don't request them for every command
+   */
+  roles: LRU.Cache<string, Promise<any[]>> = new LRU({
+    max: settings.roleCacheMaxSize,
+    maxAge: settings.roleCacheMaxAge
+  })
+
+  constructor (driver: Driver = defaultDriver, options: IRouterOptions = {}) {
+    this.driver = driver
+    this.options = Object.assign({
+      prefix: settings.commandPrefix,
+      mention: true,
+      direct: true,
+      help: 'help',
+      reportErrors: true
+    }, options)
+  }
+
+  /** Add a command (name and aliases must not be taken) */
+  add (command: ICommand): CommandRouter {
+    const names = [command.name].concat(command.aliases || [])
+    for (let name of names) {
+      if (this.find(name)) throw new Error(`[router] Command ${name} already exists`)
+    }
+    this.commands.set(command.name.toLowerCase(), command)
+    return this
+  }
+
+  /** Remove a command by name, returning it if found */
+  remove (name: string): ICommand | undefined {
+    const command = this.find(name)
+    if (command) this.commands.delete(command.name.toLowerCase())
+    return command
+  }
+
+  /** Find a command by name or alias */
+  find (name: string): ICommand | undefined {
+    const lower = name.toLowerCase()
+    if (this.commands.has(lower)) return this.commands.get(lower)
+    for (let command of Array.from(this.commands.values())) {
+      if ((command.aliases || []).some((alias) => alias.toLowerCase() === lower)) return command
+    }
+    return undefined
+  }
+
+  /** Respond to commands in messages, with filters for `respondToMessages` */
+  listen (options?: IRespondOptions): Promise<void | void[]> {
+    return this.driver.respondToMessages((err, message, meta) => {
+      if (err) return
+      return this.handle(message, meta)
+    }, options)
+  }
+
+  /**
+   * Get the command text of a message addressed to the bot, without the
+   * prefix or mention, or null if not addressed to the bot.
+   */
+  getCommandText (message: IMessage, meta: any = {}): string | null {
+    const text = (message.msg || '').trim()
+    const { prefix, mention, direct } = this.options
+    if (prefix && text.startsWith(prefix)) return text.slice(prefix.length).trim()
+    const username = this.driver.getUsername()
+    if (mention && username) {
+      const match = text.match(/^@([\w.-]+)[:,]?\s*([\s\S]*)$/)
+      if (match && match[1] === username) return match[2]
+    }
+    if (direct && meta.roomType === 'd') return text
+    return null
+  }
+
+  /**
+   * Handle a message with a command, if addressed to the bot. Resolves true if
+   * a command was found (even if not allowed or failed).
+   */
+  async handle (message: IMessage, meta: any = {}): Promise<boolean> {
+    const next = nextWord(this.getCommandText(message, meta) || '')
+    if (!next) return false
+    const { word: name, rest: text } = next
+    const reply = (content: string | string[] | IMessage) => {
+      return this.driver.sendToRoomId(content, message.rid!, meta.threadId)
+    }
+    if (this.options.help && name.toLowerCase() === this.options.help) {
+      await reply(this.help(text || undefined, message, meta))
+      return true
+    }
+    const command = this.find(name)
+    if (!command) return false
+    if (!this.inRoom(command, message, meta)) return true
+    if (!await this.hasRole(command, message)) {
+      logger.info(`[router] ${message.u!.username} not allowed to use ${command.name}`)
+      await reply(`Sorry, you're not allowed to use ${command.name}`)
+      return true
+    }
+    logger.info(`[router] Command ${command.name} from ${message.u!.username}`)
+    try {
+      const { args, match } = parseArgs(command, text)
+      await command.handler({ command, args, match, text, message, meta, reply })
+    } catch (err) {
+      logger.error(`[router] Command ${command.name} failed: ${err.message}`)
+      if (err instanceof CommandUsageError) {
+        await reply(`${err.message}. Usage: ${getUsage(command, this.options.prefix)}`)
+      } else if (this.options.reportErrors) {
+        await reply(`Error in ${command.name}: ${err.message}`)
+      }
+    }
+    return true
+  }
+
+  /**
+   * Get help text, listing commands allowed in the message's room with their
+   * usage and descriptions, or for a single command by name.
+   */
+  help (name?: string, message?: IMessage, meta: any = {}): string {
+    const prefix = this.options.prefix || ''
+    const describe = (command: ICommand) => {
+      const usage = '`' + getUsage(command, prefix) + '`'
+      return (command.description) ? `${usage} - ${command.description}` : usage
+    }
+    if (name) {
+      const command = this.find(name)
+      if (!command) return `Unknown command ${name}`
+      const aliases = (command.aliases && command.aliases.length)
+        ? `\nAliases: ${command.aliases.join(', ')}`
+        : ''
+      return describe(command) + aliases
+    }
+    const commands = Array.from(this.commands.values())
+      .filter((command) => !message || this.inRoom(command, message, meta))
+    return ['Commands:'].concat(commands.map(describe)).join('\n')
+  }
+
+  /** Check if a command is allowed in the room of a message */
+  inRoom (command: ICommand, message: IMessage, meta: any = {}): boolean {
+    if (!command.rooms || !command.rooms.length) return true
+    return command.rooms.some((room) => room === message.rid || room === meta.roomName)
+  }
+
+  /** Check if the sender of a message has a role the command requires */
+  async hasRole (command: ICommand, message: IMessage): Promise<boolean> {
+    if (!command.roles || !command.roles.length) return true
+    const getRoles = this.options.getRoles || ((userId, roomId) => this.getRoles(userId, roomId))
+    const roles = await getRoles(message.u!._id, message.rid!)
+      .catch((err: Error) => {
+        logger.error(`[router] Failed to get roles: ${err.message}`)
+        return [] as string[]
+      })
+    return command.roles.some((role) => roles.indexOf(role) !== -1)
+  }
+
+  /**
+   * Get a user's server roles and their roles in a room, from the server.
+   * Results of each request are cached (for `roleCacheMaxAge`), by room.
+   */
+  async getRoles (userId: string, roomId: string): Promise<string[]> {
+    const [users, roomUsers] = await Promise.all([
+      this.cachedRoles('server', () => this.driver.asyncCall('getUserRoles', [])),
+      this.cachedRoles(roomId, () => this.driver.asyncCall('getRoomRoles', roomId))
+    ])
+    const user = users.find((user: any) => user._id === userId)
+    const roomUser = roomUsers.find((roomUser: any) => roomUser.u && roomUser.u._id === userId)
+    return ['user']
+      .concat((user && user.roles) || [])
+      .concat((roomUser && roomUser.roles) || [])
+  }
+
+  /** Clear cached roles, e.g. after changing a user's roles */
+  resetRoles (): void {
+    this.roles.reset()
+  }
+
+  /** Get users with roles from the cache, or request them (not caching errors) */
+  private cachedRoles (key: string, request: () => Promise<any[]>): Promise<any[]> {
+    const cached = this.roles.get(key)
+    if (cached) return cached
+    const result = request().then((users) => users || [])
+    this.roles.set(key, result)
+    result.catch(() => this.roles.del(key))
+    return result
+  }
+}
+
+/** Command router for the default driver */
+export const defaultRouter = new CommandRouter()
+
+/** Add a command to the default router. */
+export function addCommand (command: ICommand): CommandRouter {
+  return defaultRouter.add(command)
+}
+
+/** Remove a command from the default router. */
+export function removeCommand (name: string): ICommand | undefined {
+  return defaultRouter.remove(name)
+}
+
+/** Respond to commands with the default router. */
+export function listen (options?: IRespondOptions): Promise<void | void[]> {
+  return defaultRouter.listen(options)
+}
+
+/** Get help text for commands of the default router. */
+export function help (name?: string): string {
+  return defaultRouter.help(name)
+}
@@ -0,0 +1,130 @@
+import 'mocha'
+import sinon from 'sinon'
+import { expect } from 'chai'
+import { silence } from './log'
+import { Scheduler } from './scheduler'
+
+silence() // suppress log during tests (disable this while developing tests)
+
+/** Let pending promise callbacks run (timers are faked) */
+async function flush () {
+  for (let i = 0; i < 20; i++) await Promise.resolve()
+}
+
+/** Task that settles when resolved by the test, counting calls */
+function deferredTask () {
+  const task: any = sinon.spy(() => new Promise((resolve) => task.resolvers.push(resolve)))
+  task.resolvers = []
+  return task
+}
+
+describe('scheduler', () => {
+  let clock: sinon.SinonFakeTimers
+  beforeEach(() => {
+    clock = sinon.useFakeTimers()
+  })
+  afterEach(() => clock.restore())
+  describe('Scheduler', () => {
+    it('runs requests immediately without limits', async () => {
+      const scheduler = new Scheduler()
+      const results = await Promise.all([
+        scheduler.schedule('foo', () => Promise.resolve(1)),
+        scheduler.schedule('foo', () => Promise.resolve(2))
+      ])
+      expect(results).to.eql([1, 2])
+    })
+    it('limits requests in progress by concurrency', async () => {
+      const scheduler = new Scheduler({ limits: { foo: { concurrency: 2 } } })
+      const task = deferredTask()
+      scheduler.schedule('foo', task)
+      scheduler.schedule('foo', task)
+      scheduler.schedule('foo', task)
+      await flush()
+      sinon.assert.calledTwice(task)
+      expect(scheduler.pending('foo')).to.equal(3)
+      task.resolvers[0]()
+      await flush()
+      sinon.assert.calledThrice(task)
+    })
+    it('does not limit other keys', async () => {
+      const scheduler = new Scheduler({ limits: { foo: { concurrency: 1 } } })
+      const task = deferredTask()
+      scheduler.schedule('foo', task)
+      scheduler.schedule('foo', task)
+      scheduler.schedule('bar', task)
+      await flush()
+      sinon.assert.calledTwice(task)
+    })
+    it('limits requests by rate, refilling over interval', async () => {
+      const scheduler = new Scheduler({ defaults: { rate: 2, interval: 1000 } })
+      const task = sinon.stub().resolves()
+      for (let i = 0; i < 4; i++) scheduler.schedule('foo', task)
+      await flush()
+      sinon.assert.calledTwice(task)
+      clock.tick(500)
+      await flush()
+      sinon.assert.calledThrice(task)
+      clock.tick(500)
+      await flush()
+      expect(task.callCount).to.equal(4)
+    })
+    it('updates limits with setLimit', async () => {
+      const scheduler = new Scheduler()
+      scheduler.setLimit('foo', { concurrency: 1 })
+      const task = deferredTask()
+      scheduler.schedule('foo', task)
+      scheduler.schedule('foo', task)
+      await flush()
+      sinon.assert.calledOnce(task)
+    })
+    it('requeues rate limited requests after retry hint', async () => {
+      const scheduler = new Scheduler()
+      const task = sinon.stub()
+      task.onFirstCall().rejects({ error: 'too-many-requests', details: { timeToReset: 2000 } })
+      task.onSecondCall().resolves('done')
+      const result = scheduler.schedule('sendMessage', task)
+      await flush()
+      sinon.assert.calledOnce(task)
+      clock.tick(1999)
+      await flush()
+      sinon.assert.calledOnce(task)
+      clock.tick(1)
+      await flush()
+      sinon.assert.calledTwice(task)
+      expect(await result).to.equal('done')
+    })
+    it('pauses other queued requests with same key while rate limited', async () => {
+      const scheduler = new Scheduler({ retryDelay: 1000 })
+      const limited = sinon.stub()
+      limited.onFirstCall().rejects({ status: 429 })
+      limited.onSecondCall().resolves()
+      const other = sinon.stub().resolves()
+      scheduler.schedule('chat.postMessage', limited)
+      await flush()
+      scheduler.schedule('chat.postMessage', other)
+      await flush()
+      sinon.assert.notCalled(other)
+      clock.tick(1000)
+      await flush()
+      sinon.assert.calledOnce(other)
+      expect(limited.secondCall.calledBefore(other.firstCall)).to.equal(true)
+    })
+    it('rejects rate limited requests after max retries', async () => {
+      const scheduler = new Scheduler({ maxRetries: 1, retryDelay: 100 })
+      const task = sinon.stub().rejects({ error: 'too-many-requests' })
+      const result = scheduler.schedule('foo', task).catch((err) => err)
+      await flush()
+      clock.tick(100)
+      await flush()
+      sinon.assert.calledTwice(task)
+      expect(await result).to.eql({ error: 'too-many-requests' })
+    })
+    it('rejects other errors without retry', async () => {
+      const scheduler = new Scheduler()
+      const task = sinon.stub().rejects(new Error('failed'))
+      const err = await scheduler.schedule('foo', task).catch((err) => err)
+      expect(err.message).to.equal('failed')
+      sinon.assert.calledOnce(task)
+    })
+  })
+})
@@ -0,0 +1,203 @@
+import { logger } from './log'
+import { isRateLimited, getRetryAfter } from './errors'
+
+/**
+ * Limits for requests with the same key (a REST endpoint or DDP method).
+ * @param concurrency  Most requests in progress at once (default no limit)
+ * @param rate         Requests per interval, as a token bucket that refills
+ *                     over time (default no limit)
+ * @param interval     Time in ms to refill the rate of tokens (default 1000)
+ * @param burst        Most tokens saved while idle (default same as rate)
+ */
+export interface ILimitOptions {
+  concurrency?: number,
+  rate?: number,
+  interval?: number,
+  burst?: number
+}
+
+/**
+ * Scheduler options type
+ * @param limits      Limits by key, e.g. `{ 'chat.postMessage': { rate: 5 } }`
+ * @param defaults    Limits for keys without their own
+ * @param maxRetries  Times to requeue a request refused by the rate limiter
+ * @param retryDelay  Time in ms to wait if the server gives no retry hint
+ */
+export interface ISchedulerOptions {
+  limits?: { [key: string]: ILimitOptions },
+  defaults?: ILimitOptions,
+  maxRetries?: number,
+  retryDelay?: number
+}
+
+/** A request waiting in a queue, to settle its promise when run */
+interface ITask {
+  run: () => Promise<any>,
+  resolve: (result: any) => void,
+  reject: (err: any) => void,
+  retries: number
+}
+
+/** State of requests and limits for a key */
+interface IQueue {
+  limits: ILimitOptions,
+  tasks: ITask[],
+  active: number,
+  tokens: number,
+  refilled: number,
+  pausedUntil: number,
+  timer?: NodeJS.Timer
+}
+
+/**
+ * Schedules requests to stay within limits, queuing by key (REST endpoint or
+ * DDP method name). Requests refused by the server's rate limiter (errors with
+ * `too-many-requests`) pause their queue for the time hinted by the server,
+ * then are requeued to try again.
+ * @example
+ *  const scheduler = new Scheduler({ limits: { sendMessage: { rate: 5 } } })
+ *  const result = await scheduler.schedule('sendMessage', () => send(message))
+ */
+export class Scheduler {
+  options: ISchedulerOptions
+  queues: Map<string, IQueue> = new Map()
+
+  constructor (options: ISchedulerOptions = {}) {
+    this.options = Object.assign({
+      limits: {},
+      defaults: {},
+      maxRetries: 3,
+      retryDelay: 1000
+    }, options)
+  }
+
+  /**
+   * Set limits for a key, replacing any existing limits.
+   * @param key     REST endpoint or DDP method, e.g. `chat.postMessage`
+   * @param limits  Concurrency and/or rate limits
+   */
+  setLimit (key: string, limits: ILimitOptions): void {
+    this.options.limits![key] = limits
+    const queue = this.queues.get(key)
+    if (queue) {
+      queue.limits = limits
+      queue.tokens = Math.min(queue.tokens, this.getBurst(limits))
+    }
+  }
+
+  /** Get limits for a key, its own or the defaults */
+  getLimits (key: string): ILimitOptions {
+    return this.options.limits![key] || this.options.defaults!
+  }
+
+  /**
+   * Run a request when within limits for its key, resolving or rejecting with
+   * its result. Requeues the request if refused by the server's rate limiter.
+   * @param key  REST endpoint or DDP method, to queue and limit by
+   * @param run  Function to make the request, returning a promise
+   */
+  schedule<T> (key: string, run: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.getQueue(key).tasks.push({ run, resolve, reject, retries: 0 })
+      this.next(key)
+    })
+  }
+
+  /** Count of requests waiting in queue (and in progress) for a key */
+  pending (key: string): number {
+    const queue = this.queues.get(key)
+    return (queue) ? queue.tasks.length + queue.active : 0
+  }
+
+  /** Get or create the queue for a key */
+  private getQueue (key: string): IQueue {
+    if (!this.queues.has(key)) {
+      const limits = this.getLimits(key)
+      this.queues.set(key, {
+        limits,
+        tasks: [],
+        active: 0,
+        tokens: this.getBurst(limits),
+        refilled: Date.now(),
+        pausedUntil: 0
+      })
+    }
+    return this.queues.get(key)!
+  }
+
+  /** Most tokens that can be saved for limits (infinite if no rate limit) */
+  private getBurst (limits: ILimitOptions): number {
+    return (limits.rate) ? (limits.burst || limits.rate) : Infinity
+  }
+
+  /** Run queued requests for a key while within limits, or wait until they are */
+  private next (key: string): void {
+    const queue = this.queues.get(key)!
+    if (queue.timer) return // already waiting to continue
+    while (queue.tasks.length) {
+      const now = Date.now()
+      const { concurrency, rate, interval = 1000 } = queue.limits
+      if (queue.pausedUntil > now) return this.wait(key, queue.pausedUntil - now)
+      if (concurrency && queue.active >= concurrency) return // continues after a request settles
+      if (rate) {
+        queue.tokens = Math.min(
+          this.getBurst(queue.limits),
+          queue.tokens + (now - queue.refilled) * rate / interval
+        )
+        queue.refilled = now
+        if (queue.tokens < 1) return this.wait(key, Math.ceil((1 - queue.tokens) * interval / rate))
+        queue.tokens--
+      }
+      this.run(key, queue, queue.tasks.shift()!)
+    }
+  }
+
+  /** Continue running requests for a key after a delay */
+  private wait (key: string, delay: number): void {
+    const queue = this.queues.get(key)!
+    queue.timer = setTimeout(() => {
+      queue.timer = undefined
+      this.next(key)
+    }, delay)
+  }
+
+  /** Run a request, requeuing it at the front if refused by the rate limiter */
+  private run (key: string, queue: IQueue, task: ITask): void {
+    queue.active++
+    Promise.resolve().then(() => task.run()).then((result) => {
+      queue.active--
+      task.resolve(result)
+      this.next(key)
+    }, (err) => {
+      queue.active--
+      if (isRateLimited(err, err && err.status) && task.retries < this.options.maxRetries!) {
+        const hint = (err && typeof err.retryAfter === 'number')
+          ? err.retryAfter
+          : getRetryAfter(err)
+        const delay = (typeof hint === 'number') ? hint : this.options.retryDelay!
+        logger.info(`[scheduler] ${key} rate limited, trying again in ${delay}ms`)
+        queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + delay)
+        task.retries++
+        queue.tasks.unshift(task)
+      } else {
+        task.reject(err)
+      }
+      this.next(key)
+    })
+  }
+}
+
+/**
+ * Default scheduler, shared by the default driver and API client.
+ */
+export const defaultScheduler = new Scheduler()
+
+/** Set limits for a key (default scheduler) */
+export function setLimit (key: string, limits: ILimitOptions): void {
+  return defaultScheduler.setLimit(key, limits)
+}
+
+/** Run a request when within limits for its key (default scheduler) */
+export function schedule<T> (key: string, run: () => Promise<T>): Promise<T> {
+  return defaultScheduler.schedule(key, run)
+}
@@ -68,6 +68,29 @@ describe('settings', () => {
       edited: true
     })
   })
+  it('does not manage reconnect if env undefined', () => {
+    delete process.env.ROCKETCHAT_RECONNECT
+    const settings = require('./settings')
+    expect(settings).to.deep.include({
+      reconnect: false,
+      reconnectDelay: 1000,
+      reconnectMaxDelay: 60000,
+      reconnectFactor: 2,
+      reconnectMaxAttempts: 0
+    })
+  })
+  it('sets TOTP secret from env if defined', () => {
+    process.env.ROCKETCHAT_TOTP_SECRET = 'GEZDGNBV'
+    const settings = require('./settings')
+    expect(settings.totpSecret).to.equal('GEZDGNBV')
+  })
+  it('rejects API errors unless legacy mode set in env', () => {
+    delete process.env.API_LEGACY_ERRORS
+    expect(require('./settings').legacyErrors).to.equal(false)
+    delete require.cache[require.resolve('./settings')]
+    process.env.API_LEGACY_ERRORS = 'true'
+    expect(require('./settings').legacyErrors).to.equal(true)
+  })
   it('creates room array from csv list', () => {
     process.env.ROCKETCHAT_ROOM = `general, foo`
     const settings = require('./settings')
@@ -4,6 +4,13 @@ export let username = process.env.ROCKETCHAT_USER || 'bot'
 export let password = process.env.ROCKETCHAT_PASSWORD || 'pass'
 export let ldap = (process.env.ROCKETCHAT_AUTH === 'ldap')
 
+// Token login settings - a personal access token is used instead of password
+export let userId = process.env.ROCKETCHAT_USER_ID || ''
+export let authToken = process.env.ROCKETCHAT_AUTH_TOKEN || ''
+
+// Two-factor auth settings - a shared secret to generate TOTP codes at login
+export let totpSecret = process.env.ROCKETCHAT_TOTP_SECRET || ''
+
 // Connection settings - Enable SSL by default if Rocket.Chat URL contains https
 export let host = process.env.ROCKETCHAT_URL || 'localhost:3000'
 export let useSsl = (process.env.ROCKETCHAT_USE_SSL)
@@ -11,6 +18,16 @@ export let useSsl = (process.env.ROCKETCHAT_USE_SSL)
   : ((process.env.ROCKETCHAT_URL || '').toString().toLowerCase().startsWith('https'))
 export let timeout = 20 * 1000 // 20 seconds
 
+// API settings - Resolve undefined on REST request errors, instead of rejecting
+export let legacyErrors = (process.env.API_LEGACY_ERRORS || 'false').toLowerCase() === 'true'
+
+// Reconnect settings - managed reconnect with exponential backoff (off by default)
+export let reconnect = (process.env.ROCKETCHAT_RECONNECT || 'false').toLowerCase() === 'true'
+export let reconnectDelay = parseInt(process.env.RECONNECT_DELAY || '1000', 10)
+export let reconnectMaxDelay = parseInt(process.env.RECONNECT_MAX_DELAY || '60000', 10)
+export let reconnectFactor = parseFloat(process.env.RECONNECT_FACTOR || '2')
+export let reconnectMaxAttempts = parseInt(process.env.RECONNECT_MAX_ATTEMPTS || '0', 10) // 0 is unlimited
+
 // Respond settings - reactive callback filters for .respondToMessages
 export let rooms = (process.env.ROCKETCHAT_ROOM)
   ? (process.env.ROCKETCHAT_ROOM || '').split(',').map((room) => room.trim())
@@ -19,12 +36,32 @@ export let allPublic = (process.env.LISTEN_ON_ALL_PUBLIC || 'false').toLowerCase
 export let dm = (process.env.RESPOND_TO_DM || 'false').toLowerCase() === 'true'
 export let livechat = (process.env.RESPOND_TO_LIVECHAT || 'false').toLowerCase() === 'true'
 export let edited = (process.env.RESPOND_TO_EDITED || 'false').toLowerCase() === 'true'
+export let typing = (process.env.RESPOND_WITH_TYPING || 'false').toLowerCase() === 'true'
+export let markRead = (process.env.RESPOND_MARK_READ || 'false').toLowerCase() === 'true'
+export let allowTypes = (process.env.RESPOND_ALLOW_TYPES) // system message types, all if not set
+  ? (process.env.RESPOND_ALLOW_TYPES || '').split(',').map((type) => type.trim())
+  : undefined
+export let denyTypes = (process.env.RESPOND_DENY_TYPES || '')
+  .split(',').map((type) => type.trim()).filter((type) => type)
+export let catchUp = (process.env.RESPOND_CATCH_UP || 'false').toLowerCase() === 'true'
+export let typingInterval = parseInt(process.env.TYPING_INTERVAL || '10000', 10) // resend before clients time out
+export let typingMaxDuration = parseInt(process.env.TYPING_MAX_DURATION || '120000', 10) // stop typing for tasks that never settle
+export let catchUpLimit = parseInt(process.env.CATCH_UP_LIMIT || '100', 10) // max missed messages replayed per room
+export let commandPrefix = process.env.COMMAND_PREFIX || '!' // address commands to the router
+
+// Dialog settings - time to wait for replies to prompts, and words to cancel
+export let dialogTimeout = 1000 * parseInt(process.env.DIALOG_TIMEOUT || '300', 10)
+export let dialogCancelWords = (process.env.DIALOG_CANCEL_WORDS || 'cancel,quit')
+  .split(',').map((word) => word.trim())
 
 // Message attribute settings
 export let integrationId = process.env.INTEGRATION_ID || 'js.SDK'
+export let messageMaxLength = parseInt(process.env.MESSAGE_MAX_LENGTH || '5000', 10) // server's Message_MaxAllowedSize
 
 // Cache settings
 export let roomCacheMaxSize = parseInt(process.env.ROOM_CACHE_SIZE || '10', 10)
 export let roomCacheMaxAge = 1000 * parseInt(process.env.ROOM_CACHE_MAX_AGE || '300', 10)
 export let dmCacheMaxSize = parseInt(process.env.DM_ROOM_CACHE_SIZE || '10', 10)
 export let dmCacheMaxAge = 1000 * parseInt(process.env.DM_ROOM_CACHE_MAX_AGE || '100', 10)
+export let roleCacheMaxSize = parseInt(process.env.ROLE_CACHE_SIZE || '50', 10)
+export let roleCacheMaxAge = 1000 * parseInt(process.env.ROLE_CACHE_MAX_AGE || '60', 10)
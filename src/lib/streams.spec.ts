@@ -0,0 +1,106 @@
+import 'mocha'
+import { expect } from 'chai'
+import * as streams from './streams'
+
+/** Recorded stream DDP payloads (`changed` message fields) */
+const payloads = {
+  typing: {
+    eventName: 'GENERAL/typing',
+    args: ['alice', true]
+  },
+  deleteMessage: {
+    eventName: 'GENERAL/deleteMessage',
+    args: [{ _id: 'Aj4v6ZSxFzqBGcJ8K' }]
+  },
+  roomsChanged: {
+    eventName: 'hbRpJzy5BW4wgTAr4/rooms-changed',
+    args: ['updated', {
+      _id: 'GENERAL',
+      name: 'general',
+      t: 'c',
+      lastMessage: { _id: 'Aj4v6ZSxFzqBGcJ8K', msg: 'Hello' },
+      _updatedAt: { $date: 1555590200000 }
+    }]
+  },
+  subscriptionsChanged: {
+    eventName: 'hbRpJzy5BW4wgTAr4/subscriptions-changed',
+    args: ['inserted', {
+      _id: 'v2D5qCJ8iWXyDYbMh',
+      rid: 'kTYgbSqKEDNBFMy8R',
+      name: 'release-team',
+      t: 'p',
+      u: { _id: 'hbRpJzy5BW4wgTAr4', username: 'bot' },
+      open: true,
+      unread: 0,
+      _updatedAt: { $date: 1555590300000 }
+    }]
+  },
+  notification: {
+    eventName: 'hbRpJzy5BW4wgTAr4/notification',
+    args: [{
+      title: '@alice',
+      text: 'hey @bot, are you there?',
+      payload: {
+        _id: 'sNFh3xRRJbDNcaLn4',
+        rid: 'GENERAL',
+        sender: { _id: 'Pn8XuNFcxD2DXpTjQ', username: 'alice' },
+        type: 'c',
+        message: { msg: 'hey @bot, are you there?' }
+      }
+    }]
+  },
+  userStatus: {
+    eventName: 'user-status',
+    args: [['Pn8XuNFcxD2DXpTjQ', 'alice', 2, 'At lunch']]
+  }
+}
+
+describe('streams', () => {
+  describe('.parseStreamEvent', () => {
+    it('parses typing events', () => {
+      expect(streams.parseStreamEvent('stream-notify-room', payloads.typing)).to.eql({
+        name: 'typing',
+        data: { roomId: 'GENERAL', username: 'alice', typing: true }
+      })
+    })
+    it('parses deleted message events', () => {
+      expect(streams.parseStreamEvent('stream-notify-room', payloads.deleteMessage)).to.eql({
+        name: 'messageDeleted',
+        data: { roomId: 'GENERAL', messageId: 'Aj4v6ZSxFzqBGcJ8K' }
+      })
+    })
+    it('parses room and subscription changes with their action', () => {
+      const room = streams.parseStreamEvent('stream-notify-user', payloads.roomsChanged)
+      const subscription = streams.parseStreamEvent('stream-notify-user', payloads.subscriptionsChanged)
+      expect(room).to.have.property('name', 'roomChanged')
+      expect(room!.data).to.include({ action: 'updated' })
+      expect(subscription).to.have.property('name', 'subscriptionChanged')
+      expect(subscription!.data).to.have.nested.property('data.rid', 'kTYgbSqKEDNBFMy8R')
+      expect(subscription!.data).to.include({ action: 'inserted' })
+    })
+    it('parses notifications', () => {
+      const event = streams.parseStreamEvent('stream-notify-user', payloads.notification)
+      expect(event).to.have.property('name', 'notification')
+      expect(event!.data).to.include({ title: '@alice', text: 'hey @bot, are you there?' })
+      expect(event!.data).to.have.nested.property('payload.rid', 'GENERAL')
+    })
+    it('parses presence, with status numbers as names', () => {
+      expect(streams.parseStreamEvent('stream-notify-logged', payloads.userStatus)).to.eql({
+        name: 'presence',
+        data: { userId: 'Pn8XuNFcxD2DXpTjQ', username: 'alice', status: 'away', statusText: 'At lunch' }
+      })
+    })
+    it('keeps status names from older servers', () => {
+      const event = streams.parseStreamEvent('stream-notify-logged', {
+        eventName: 'user-status',
+        args: [['Pn8XuNFcxD2DXpTjQ', 'alice', 'busy']]
+      })
+      expect(event!.data).to.include({ status: 'busy' })
+    })
+    it('returns null for unknown streams, events or payloads', () => {
+      expect(streams.parseStreamEvent('stream-room-messages', payloads.typing)).to.equal(null)
+      expect(streams.parseStreamEvent('stream-notify-room', { eventName: 'GENERAL/other', args: [] })).to.equal(null)
+      expect(streams.parseStreamEvent('stream-notify-room', { eventName: 'GENERAL/typing' })).to.equal(null)
+    })
+  })
+})
@@ -0,0 +1,119 @@
+/** Stream names (Meteor collections the events are sent on) */
+export const notifyRoomStream = 'stream-notify-room'
+export const notifyUserStream = 'stream-notify-user'
+export const notifyLoggedStream = 'stream-notify-logged'
+
+/** User status by number, as sent in presence events by newer servers */
+const _statuses = ['offline', 'online', 'away', 'busy']
+
+/**
+ * Typing event, from `stream-notify-room` (`<roomId>/typing`)
+ * @param roomId    ID of the room
+ * @param username  User who started or stopped typing
+ * @param typing    True if started, false if stopped
+ */
+export interface ITypingEvent {
+  roomId: string,
+  username: string,
+  typing: boolean
+}
+
+/**
+ * Message deleted event, from `stream-notify-room` (`<roomId>/deleteMessage`)
+ * @param roomId     ID of the room
+ * @param messageId  ID of the deleted message
+ */
+export interface IMessageDeletedEvent {
+  roomId: string,
+  messageId: string
+}
+
+/**
+ * Change to a room or subscription, from `stream-notify-user`
+ * (`<userId>/rooms-changed` or `<userId>/subscriptions-changed`).
+ * A subscription is `inserted` when the user is added to a room.
+ * @param action  `inserted`, `updated` or `removed`
+ * @param data    The room or subscription
+ */
+export interface IChangeEvent {
+  action: 'inserted' | 'updated' | 'removed',
+  data: any
+}
+
+/**
+ * Notification (e.g. mention or DM) for the user, from `stream-notify-user`
+ * (`<userId>/notification`)
+ * @param title    Title of the notification, e.g. sender's name
+ * @param text     Text of the notification
+ * @param payload  Details of the message, e.g. `_id`, `rid`, `sender`, `type`
+ */
+export interface INotificationEvent {
+  title: string,
+  text: string,
+  payload: any
+}
+
+/**
+ * User presence event, from `stream-notify-logged` (`user-status`)
+ * @param userId      ID of the user
+ * @param username    Username of the user
+ * @param status      `online`, `away`, `busy` or `offline`
+ * @param statusText  Custom status text, if any
+ */
+export interface IPresenceEvent {
+  userId: string,
+  username: string,
+  status: string,
+  statusText?: string
+}
+
+/**
+ * Name of the driver event and its data, for an event from a stream.
+ * Events are `typing`, `messageDeleted`, `roomChanged`, `subscriptionChanged`,
+ * `notification` and `presence`.
+ */
+export interface IStreamEvent {
+  name: string,
+  data: ITypingEvent | IMessageDeletedEvent | IChangeEvent | INotificationEvent | IPresenceEvent
+}
+
+/**
+ * Get the driver event for a DDP `changed` message from a stream, or null if
+ * it's not from a known stream and event.
+ * @param collection  Name of the stream, e.g. `stream-notify-room`
+ * @param fields      Fields of the change, with `eventName` and `args`
+ */
+export function parseStreamEvent (collection: string, fields: any): IStreamEvent | null {
+  if (!fields || typeof fields.eventName !== 'string' || !Array.isArray(fields.args)) return null
+  const [id, type] = fields.eventName.split('/')
+  const args = fields.args
+  if (collection === notifyRoomStream && type === 'typing') {
+    return { name: 'typing', data: { roomId: id, username: args[0], typing: !!args[1] } }
+  }
+  if (collection === notifyRoomStream && type === 'deleteMessage' && args[0]) {
+    return { name: 'messageDeleted', data: { roomId: id, messageId: args[0]._id } }
+  }
+  if (collection === notifyUserStream && type === 'rooms-changed') {
+    return { name: 'roomChanged', data: { action: args[0], data: args[1] } }
+  }
+  if (collection === notifyUserStream && type === 'subscriptions-changed') {
+    return { name: 'subscriptionChanged', data: { action: args[0], data: args[1] } }
+  }
+  if (collection === notifyUserStream && type === 'notification' && args[0]) {
+    const { title, text, payload } = args[0]
+    return { name: 'notification', data: { title, text, payload } }
+  }
+  if (collection === notifyLoggedStream && id === 'user-status' && Array.isArray(args[0])) {
+    const [userId, username, status, statusText] = args[0]
+    return {
+      name: 'presence',
+      data: {
+        userId,
+        username,
+        status: (typeof status === 'number') ? _statuses[status] : status,
+        statusText
+      }
+    }
+  }
+  return null
+}
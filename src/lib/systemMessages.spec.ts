@@ -0,0 +1,100 @@
+import 'mocha'
+import { expect } from 'chai'
+import * as systemMessages from './systemMessages'
+
+/** Recorded `stream-room-messages` DDP payloads (`changed` message fields) */
+const payloads = {
+  userJoined: {
+    eventName: 'GENERAL',
+    args: [{
+      _id: 'oQwGjyDu2xcNuWHjE',
+      rid: 'GENERAL',
+      t: 'uj',
+      msg: 'carol',
+      ts: { $date: 1555590300000 },
+      u: { _id: 'Zx2SXe7TnXaAWqHy5', username: 'carol' },
+      groupable: false,
+      _updatedAt: { $date: 1555590300000 }
+    }, { roomParticipant: true, roomType: 'c', roomName: 'general' }]
+  },
+  userAdded: {
+    eventName: 'kTYgbSqKEDNBFMy8R',
+    args: [{
+      _id: 'fG7nDJRBW2cWmP3qE',
+      rid: 'kTYgbSqKEDNBFMy8R',
+      t: 'au',
+      msg: 'dave',
+      ts: { $date: 1555590400000 },
+      u: { _id: 'hbRpJzy5BW4wgTAr4', username: 'alice' },
+      groupable: false,
+      _updatedAt: { $date: 1555590400000 }
+    }, { roomParticipant: true, roomType: 'p', roomName: 'release-team' }]
+  },
+  topicChanged: {
+    eventName: 'GENERAL',
+    args: [{
+      _id: 'RqBbpsh8b9rKHC6sz',
+      rid: 'GENERAL',
+      t: 'room_changed_topic',
+      msg: 'Release on Friday',
+      ts: { $date: 1555590500000 },
+      u: { _id: 'hbRpJzy5BW4wgTAr4', username: 'alice' },
+      groupable: false,
+      _updatedAt: { $date: 1555590500000 }
+    }, { roomParticipant: true, roomType: 'c', roomName: 'general' }]
+  },
+  messageRemoved: {
+    eventName: 'GENERAL',
+    args: [{
+      _id: 'Aj4v6ZSxFzqBGcJ8K',
+      rid: 'GENERAL',
+      t: 'rm',
+      msg: '',
+      ts: { $date: 1555590200000 },
+      u: { _id: 'hbRpJzy5BW4wgTAr4', username: 'alice' },
+      _updatedAt: { $date: 1555590600000 }
+    }, { roomParticipant: true, roomType: 'c', roomName: 'general' }]
+  }
+}
+const [joined, joinedMeta]: any[] = payloads.userJoined.args
+const added: any = payloads.userAdded.args[0]
+const topicChanged: any = payloads.topicChanged.args[0]
+const removed: any = payloads.messageRemoved.args[0]
+const user = { _id: 'MID', rid: 'GENERAL', msg: 'Hello', u: { _id: 'UID', username: 'bob' } }
+
+describe('systemMessages', () => {
+  describe('.matchesType', () => {
+    it('passes messages from users, whatever the lists', () => {
+      expect(systemMessages.matchesType(user, [], ['uj'])).to.equal(true)
+    })
+    it('passes system messages by allow and deny lists', () => {
+      expect(systemMessages.matchesType(joined)).to.equal(true)
+      expect(systemMessages.matchesType(joined, ['uj', 'au'])).to.equal(true)
+      expect(systemMessages.matchesType(joined, [])).to.equal(false)
+      expect(systemMessages.matchesType(joined, undefined, ['uj'])).to.equal(false)
+    })
+  })
+  describe('.parseSystemMessage', () => {
+    it('parses joins with the joined user', () => {
+      expect(systemMessages.parseSystemMessage(joined, joinedMeta)).to.eql({
+        name: 'userJoined',
+        data: { roomId: 'GENERAL', type: 'uj', username: 'carol', by: joined.u, message: joined, meta: joinedMeta }
+      })
+    })
+    it('parses adds with the added user and who added them', () => {
+      const event = systemMessages.parseSystemMessage(added)!
+      expect(event.name).to.equal('userAdded')
+      expect(event.data).to.include({ roomId: 'kTYgbSqKEDNBFMy8R', username: 'dave' })
+      expect(event.data.by).to.have.property('username', 'alice')
+    })
+    it('parses topic changes with the new topic', () => {
+      const event = systemMessages.parseSystemMessage(topicChanged)!
+      expect(event.name).to.equal('topicChanged')
+      expect(event.data.topic).to.equal('Release on Friday')
+    })
+    it('returns null for messages without an event', () => {
+      expect(systemMessages.parseSystemMessage(removed)).to.equal(null)
+      expect(systemMessages.parseSystemMessage(user)).to.equal(null)
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { IMessage, IUser } from '../config/messageInterfaces'
+
+/**
+ * Driver event names by system message type (`t`), emitted by
+ * `respondToMessages` for system messages in rooms it listens to:
+ * - `uj` - `userJoined`, a user joined the room
+ * - `ul` - `userLeft`, a user left the room
+ * - `au` - `userAdded`, a user was added to the room
+ * - `ru` - `userRemoved`, a user was removed from the room
+ * - `room_changed_topic` - `topicChanged`, the room's topic was changed
+ * - `r` - `roomRenamed`, the room was renamed
+ */
+export const systemEvents: { [type: string]: string } = {
+  uj: 'userJoined',
+  ul: 'userLeft',
+  au: 'userAdded',
+  ru: 'userRemoved',
+  room_changed_topic: 'topicChanged',
+  r: 'roomRenamed'
+}
+
+/**
+ * Event for a system message, e.g. a user joined or the topic changed.
+ * @param roomId    ID of the room
+ * @param type      Type of the system message, e.g. `uj`
+ * @param username  User joined, left, added or removed (for those events)
+ * @param by        User who caused the event, e.g. who added a user
+ * @param topic     New topic, for `topicChanged`
+ * @param name      New room name, for `roomRenamed`
+ * @param message   The system message
+ * @param meta      Meta of the message, such as `roomType`
+ */
+export interface ISystemEvent {
+  roomId: string,
+  type: string,
+  username?: string,
+  by?: IUser,
+  topic?: string,
+  name?: string,
+  message: IMessage,
+  meta: any
+}
+
+/** Check if a message is a system message (has a type), not a user's */
+export function isSystemMessage (message: IMessage): boolean {
+  return typeof message.t === 'string' && message.t !== ''
+}
+
+/**
+ * Check if a message passes allow and deny lists of system message types.
+ * Messages from users (without a type) always pass.
+ * @param allow  Only these types pass, if given (an empty list allows none)
+ * @param deny   These types don't pass
+ */
+export function matchesType (message: IMessage, allow?: string[], deny?: string[]): boolean {
+  if (!isSystemMessage(message)) return true
+  if (allow && allow.indexOf(message.t!) === -1) return false
+  return !(deny && deny.indexOf(message.t!) !== -1)
+}
+
+/**
+ * Get the driver event for a system message, or null if it's not a system
+ * message with an event (see `systemEvents`).
+ * @param message  The system message
+ * @param meta     Meta of the message, given with the event
+ */
+export function parseSystemMessage (
+  message: IMessage,
+  meta: any = {}
+): { name: string, data: ISystemEvent } | null {
+  if (!isSystemMessage(message) || !systemEvents.hasOwnProperty(message.t!)) return null
+  const data: ISystemEvent = { roomId: message.rid!, type: message.t!, by: message.u, message, meta }
+  switch (message.t) {
+    case 'uj':
+    case 'ul':
+      data.username = (message.u) ? message.u.username : message.msg
+      break
+    case 'au':
+    case 'ru':
+      data.username = message.msg
+      break
+    case 'room_changed_topic':
+      data.topic = message.msg
+      break
+    case 'r':
+      data.name = message.msg
+      break
+  }
+  return { name: systemEvents[message.t!], data }
+}
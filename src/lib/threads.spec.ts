@@ -0,0 +1,99 @@
+import 'mocha'
+import { expect } from 'chai'
+import * as threads from './threads'
+
+/** Recorded `stream-room-messages` DDP payloads (`changed` message fields) */
+const payloads = {
+  topLevel: {
+    eventName: 'GENERAL',
+    args: [{
+      _id: 'Aj4v6ZSxFzqBGcJ8K',
+      rid: 'GENERAL',
+      msg: 'Who can review the release notes?',
+      ts: { $date: 1555590200000 },
+      u: { _id: 'hbRpJzy5BW4wgTAr4', username: 'alice', name: 'Alice' },
+      mentions: [],
+      channels: [],
+      _updatedAt: { $date: 1555590200000 }
+    }, { roomParticipant: true, roomType: 'c', roomName: 'general' }]
+  },
+  threadReply: {
+    eventName: 'GENERAL',
+    args: [{
+      _id: 'sNFh3xRRJbDNcaLn4',
+      rid: 'GENERAL',
+      tmid: 'Aj4v6ZSxFzqBGcJ8K',
+      msg: 'I can, after lunch',
+      ts: { $date: 1555590240000 },
+      u: { _id: 'Pn8XuNFcxD2DXpTjQ', username: 'bob', name: 'Bob' },
+      mentions: [],
+      channels: [],
+      _updatedAt: { $date: 1555590240000 }
+    }, { roomParticipant: true, roomType: 'c', roomName: 'general' }]
+  },
+  threadParent: {
+    eventName: 'GENERAL',
+    args: [{
+      _id: 'Aj4v6ZSxFzqBGcJ8K',
+      rid: 'GENERAL',
+      msg: 'Who can review the release notes?',
+      ts: { $date: 1555590200000 },
+      u: { _id: 'hbRpJzy5BW4wgTAr4', username: 'alice', name: 'Alice' },
+      mentions: [],
+      channels: [],
+      tcount: 1,
+      tlm: { $date: 1555590240000 },
+      replies: ['Pn8XuNFcxD2DXpTjQ'],
+      _updatedAt: { $date: 1555590240000 }
+    }, { roomParticipant: true, roomType: 'c', roomName: 'general' }]
+  }
+}
+const topLevel: any = payloads.topLevel.args[0]
+const threadReply: any = payloads.threadReply.args[0]
+const threadParent: any = payloads.threadParent.args[0]
+
+describe('threads', () => {
+  describe('.isThreadReply', () => {
+    it('returns true for replies in a thread', () => {
+      expect(threads.isThreadReply(threadReply)).to.equal(true)
+    })
+    it('returns false for top-level messages and thread parents', () => {
+      expect(threads.isThreadReply(topLevel)).to.equal(false)
+      expect(threads.isThreadReply(threadParent)).to.equal(false)
+    })
+  })
+  describe('.isThreadParent', () => {
+    it('returns true for messages with replies', () => {
+      expect(threads.isThreadParent(threadParent)).to.equal(true)
+    })
+    it('returns false for other messages', () => {
+      expect(threads.isThreadParent(topLevel)).to.equal(false)
+      expect(threads.isThreadParent(threadReply)).to.equal(false)
+    })
+  })
+  describe('.getThreadId', () => {
+    it('returns parent ID for thread replies', () => {
+      expect(threads.getThreadId(threadReply)).to.equal('Aj4v6ZSxFzqBGcJ8K')
+    })
+    it('returns own ID for top-level messages, to start a thread', () => {
+      expect(threads.getThreadId(topLevel)).to.equal('Aj4v6ZSxFzqBGcJ8K')
+    })
+    it('throws for messages without ID', () => {
+      expect(() => threads.getThreadId({ rid: 'GENERAL', msg: 'unsent' })).to.throw()
+    })
+  })
+  describe('.matchesThread', () => {
+    it('matches all messages by default', () => {
+      expect(threads.matchesThread(topLevel)).to.equal(true)
+      expect(threads.matchesThread(threadReply)).to.equal(true)
+    })
+    it('matches only thread replies', () => {
+      expect(threads.matchesThread(topLevel, 'replies')).to.equal(false)
+      expect(threads.matchesThread(threadReply, 'replies')).to.equal(true)
+    })
+    it('matches only top-level messages', () => {
+      expect(threads.matchesThread(threadParent, 'top')).to.equal(true)
+      expect(threads.matchesThread(threadReply, 'top')).to.equal(false)
+    })
+  })
+})
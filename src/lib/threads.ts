@@ -0,0 +1,46 @@
+import { IMessage } from '../config/messageInterfaces'
+
+/**
+ * Filter for responding to messages by thread:
+ * - `any` - thread replies and top-level messages (default)
+ * - `replies` - only replies in threads
+ * - `top` - only top-level messages (not in threads)
+ */
+export type IThreadFilter = 'any' | 'replies' | 'top'
+
+/**
+ * Options for getting a thread's messages.
+ * @param limit  Most messages to get
+ * @param skip   Count of messages to skip, from the oldest
+ */
+export interface IThreadOptions {
+  limit?: number,
+  skip?: number
+}
+
+/** Check if a message is a reply in a thread */
+export function isThreadReply (message: IMessage): boolean {
+  return typeof message.tmid === 'string' && message.tmid !== ''
+}
+
+/** Check if a message is the parent (first message) of a thread */
+export function isThreadParent (message: IMessage): boolean {
+  return !isThreadReply(message) && (!!message.tcount || !!message.tlm)
+}
+
+/**
+ * Get the thread ID to reply to a message in its thread, which is its parent's
+ * ID for replies, or its own to start a thread from a top-level message.
+ */
+export function getThreadId (message: IMessage): string {
+  if (isThreadReply(message)) return message.tmid!
+  if (!message._id) throw new Error('[threads] Message requires an ID to reply in thread')
+  return message._id
+}
+
+/** Check if a message passes a thread filter */
+export function matchesThread (message: IMessage, filter: IThreadFilter = 'any'): boolean {
+  if (filter === 'replies') return isThreadReply(message)
+  if (filter === 'top') return !isThreadReply(message)
+  return true
+}
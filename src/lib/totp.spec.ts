@@ -0,0 +1,92 @@
+import 'mocha'
+import sinon from 'sinon'
+import { expect } from 'chai'
+import * as totp from './totp'
+const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ' // RFC 6238 test secret (base32)
+
+describe('totp', () => {
+  describe('.decodeSecret', () => {
+    it('decodes base32 secret to bytes', () => {
+      expect(totp.decodeSecret(secret).toString()).to.equal('12345678901234567890')
+    })
+    it('ignores case, spaces and padding', () => {
+      expect(totp.decodeSecret('gezd gnbv====').toString()).to.equal('12345')
+    })
+    it('throws on invalid characters', () => {
+      expect(() => totp.decodeSecret('GEZD1')).to.throw()
+    })
+  })
+  describe('.generateCode', () => {
+    it('generates codes matching RFC 6238 test values', () => {
+      expect(totp.generateCode(secret, 59 * 1000, 30, 8)).to.equal('94287082')
+      expect(totp.generateCode(secret, 1111111109 * 1000, 30, 8)).to.equal('07081804')
+      expect(totp.generateCode(secret, 20000000000 * 1000, 30, 8)).to.equal('65353130')
+    })
+    it('generates 6 digit codes by default', () => {
+      expect(totp.generateCode(secret, 1111111109 * 1000)).to.equal('081804')
+    })
+  })
+  describe('.isTotpRequired', () => {
+    it('returns true for required or invalid code errors', () => {
+      expect(totp.isTotpRequired({ error: 'totp-required' })).to.equal(true)
+      expect(totp.isTotpRequired({ error: 'totp-invalid' })).to.equal(true)
+    })
+    it('returns false for other errors', () => {
+      expect(totp.isTotpRequired({ error: 403 })).to.equal(false)
+      expect(totp.isTotpRequired(new Error('totp-required'))).to.equal(false)
+      expect(totp.isTotpRequired(undefined)).to.equal(false)
+    })
+  })
+  describe('.getCode', () => {
+    it('returns code as given', async () => {
+      expect(await totp.getCode({ code: '123456', secret })).to.equal('123456')
+    })
+    it('returns code from callback', async () => {
+      const callback = () => Promise.resolve('654321')
+      expect(await totp.getCode({ callback, secret })).to.equal('654321')
+    })
+    it('generates code from secret', async () => {
+      expect(await totp.getCode({ secret })).to.match(/^\d{6}$/)
+    })
+    it('returns undefined without options', async () => {
+      expect(await totp.getCode()).to.equal(undefined)
+    })
+  })
+  describe('.loginWithCode', () => {
+    const required = { error: 'totp-required', details: { method: 'totp' } }
+    it('does not get a code if not required', async () => {
+      const attempt = sinon.stub().resolves('ID')
+      const callback = sinon.stub().returns('123456')
+      expect(await totp.loginWithCode(attempt, { callback })).to.equal('ID')
+      sinon.assert.calledOnce(attempt)
+      sinon.assert.notCalled(callback)
+    })
+    it('attempts again with code if required', async () => {
+      const attempt = sinon.stub()
+      attempt.onFirstCall().rejects(required)
+      attempt.onSecondCall().resolves('ID')
+      expect(await totp.loginWithCode(attempt, { code: '123456' })).to.equal('ID')
+      sinon.assert.calledWithExactly(attempt.secondCall, '123456')
+    })
+    it('rejects with required error if no code given', async () => {
+      const attempt = sinon.stub().rejects(required)
+      const err = await totp.loginWithCode(attempt).catch((err) => err)
+      expect(err).to.be.instanceof(totp.TotpRequiredError)
+      expect(err.error).to.equal('totp-required')
+      sinon.assert.calledOnce(attempt)
+    })
+    it('rejects with invalid error if code rejected', async () => {
+      const attempt = sinon.stub()
+      attempt.onFirstCall().rejects(required)
+      attempt.onSecondCall().rejects({ error: 'totp-invalid' })
+      const err = await totp.loginWithCode(attempt, { code: '000000' }).catch((err) => err)
+      expect(err).to.be.instanceof(totp.TotpRequiredError)
+      expect(err.error).to.equal('totp-invalid')
+    })
+    it('rejects with other errors as given', async () => {
+      const attempt = sinon.stub().rejects({ error: 403 })
+      const err = await totp.loginWithCode(attempt, { code: '123456' }).catch((err) => err)
+      expect(err).to.eql({ error: 403 })
+    })
+  })
+})
@@ -0,0 +1,123 @@
+import { createHmac } from 'crypto'
+import { ITotpOptions } from '../config/asteroidInterfaces'
+
+/** Characters of the base32 alphabet (RFC 4648), as used for shared secrets */
+const base32Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/**
+ * Error for login to an account with two-factor auth, when no code could be
+ * given or the code given was rejected by the server.
+ * @param error   Server error, `totp-required` or `totp-invalid`
+ * @param method  Two-factor method requested by the server, e.g. `totp`
+ */
+export class TotpRequiredError extends Error {
+  error: string
+  method: string
+  constructor (error = 'totp-required', method = 'totp') {
+    super((error === 'totp-invalid')
+      ? '[login] Two-factor code was rejected'
+      : '[login] Two-factor code required but none given')
+    this.name = 'TotpRequiredError'
+    this.error = error
+    this.method = method
+  }
+}
+
+/**
+ * Check if a login error (DDP) or result (REST) is the server asking for a
+ * two-factor code, i.e. has error `totp-required` or `totp-invalid`.
+ */
+export function isTotpRequired (err: any): boolean {
+  return (
+    !!err &&
+    typeof err === 'object' &&
+    (err.error === 'totp-required' || err.error === 'totp-invalid')
+  )
+}
+
+/** Decode a base32 shared secret (ignoring case, spaces and padding) */
+export function decodeSecret (secret: string): Buffer {
+  const chars = secret.toUpperCase().replace(/[\s=]/g, '')
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+  for (let char of chars) {
+    const index = base32Chars.indexOf(char)
+    if (index === -1) throw new Error(`[totp] Invalid character in secret: ${char}`)
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+/**
+ * Generate a TOTP code from a base32 shared secret (RFC 6238, SHA-1).
+ * @param secret  Base32 shared secret, as shown when 2FA was setup
+ * @param time    Time to generate the code for, in ms (default now)
+ * @param step    Seconds each code is valid for
+ * @param digits  Length of the code
+ */
+export function generateCode (
+  secret: string,
+  time: number = Date.now(),
+  step: number = 30,
+  digits: number = 6
+): string {
+  const counter = Math.floor(time / 1000 / step)
+  const message = Buffer.alloc(8)
+  message.writeUInt32BE(Math.floor(counter / 0x100000000), 0)
+  message.writeUInt32BE(counter % 0x100000000, 4)
+  const hmac = createHmac('sha1', decodeSecret(secret)).update(message).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % Math.pow(10, digits)
+  return ('0'.repeat(digits) + binary).slice(-digits)
+}
+
+/** Get a code from options, as given, from the callback or from the secret */
+export async function getCode (options?: ITotpOptions): Promise<string | undefined> {
+  if (!options) return undefined
+  if (options.code) return options.code
+  if (options.callback) return options.callback()
+  if (options.secret) return generateCode(options.secret)
+  return undefined
+}
+
+/** Wrap DDP login method parameters with a two-factor code */
+export function ddpPayload (payload: object, code: string): object {
+  return { totp: { login: payload, code } }
+}
+
+/** Add a two-factor code to the body for the REST login endpoint */
+export function restPayload (payload: object, code: string): object {
+  return Object.assign({}, payload, { code })
+}
+
+/**
+ * Attempt login, then again with a two-factor code if the server requires it.
+ * Rejects with `TotpRequiredError` if no code is available or it's rejected.
+ * @param attempt  Login, with a code if given, rejecting on error
+ * @param options  Two-factor options to get a code from
+ */
+export async function loginWithCode<T> (
+  attempt: (code?: string) => Promise<T>,
+  options?: ITotpOptions
+): Promise<T> {
+  try {
+    return await attempt()
+  } catch (err) {
+    if (!isTotpRequired(err)) throw err
+    const method = (err.details && err.details.method) ? err.details.method : 'totp'
+    const code = await getCode(options)
+    if (!code) throw new TotpRequiredError('totp-required', method)
+    try {
+      return await attempt(code)
+    } catch (retryErr) {
+      if (isTotpRequired(retryErr)) throw new TotpRequiredError('totp-invalid', method)
+      throw retryErr
+    }
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Define module exports that read fields of an instance live, so module-level
+ * facades stay current as the default instance changes. Declare the exports
+ * for typings with `export declare let <name>: <type>` in the module.
+ * @param target  The module's `exports` object
+ * @param source  Instance to read the fields from
+ * @param keys    Names of fields to export
+ * @example
+ *  export declare let userId: string
+ *  exportLive(exports, defaultDriver, ['userId'])
+ */
+export function exportLive<T> (target: object, source: T, keys: (keyof T)[]): void {
+  keys.forEach((key) => Object.defineProperty(target, key, {
+    enumerable: true,
+    get: () => source[key]
+  }))
+}
@@ -7,6 +7,7 @@ export interface IMessageAPI {
   emoji?: string       // If provided, this will make the avatar on this message be an emoji
   avatar?: string      // If provided, this will make the avatar use the provided image url
   attachments?: IAttachmentAPI[] // See attachment interface below
+  tmid?: string        // ID of a thread's parent message, to reply in the thread
 }
 
 /** Payload structure for `chat.update` endpoint */
@@ -35,6 +36,15 @@ export interface IMessageReceiptAPI {
     _id: string
     username: string
   }
+  attachments?: IAttachmentAPI[] // Attachments of message, if any
+  file?: IFileAPI       // File uploaded with message, if any
+  tmid?: string         // ID of the thread's parent, for thread replies
+  tcount?: number       // Count of replies, for thread parents
+  tlm?: string          // Time of the last reply, for thread parents
+  replies?: string[]    // IDs of users who replied, for thread parents
+  reactions?: {         // Reactions to message, by emoji
+    [emoji: string]: { usernames: string[] }
+  }
 }
 
 /** Payload structure for message attachments */
@@ -166,3 +176,109 @@ export interface IGroupResultAPI {
   group: IGroupAPI
   success: boolean
 }
+
+/** Query for a room by ID or name, e.g. for `channels.info` endpoint */
+export interface IRoomQueryAPI {
+  roomId?: string      // Room ID (takes precedence over name)
+  roomName?: string    // Room name without prefix
+}
+
+/** Query structure for list endpoints, e.g. `channels.list` */
+export interface IListQueryAPI {
+  count?: number       // Number of items to return (server default 50)
+  offset?: number      // Number of items to skip
+  sort?: object        // Mongo sort, e.g. `{ name: 1 }`
+  query?: object       // Mongo query to filter items
+  fields?: object      // Fields to include or exclude
+}
+
+/** Query structure for history endpoints, e.g. `channels.history` */
+export interface IHistoryQueryAPI {
+  roomId: string       // Room ID to get messages from
+  latest?: string      // ISO timestamp, end of time range (default now)
+  oldest?: string      // ISO timestamp, start of time range
+  inclusive?: boolean  // Include messages at latest and oldest timestamps
+  count?: number       // Number of messages to return (server default 20)
+  offset?: number      // Number of messages to skip
+  unreads?: boolean    // Include unread count for the user
+}
+
+/** Query structure for `chat.getThreadMessages` endpoint */
+export interface IThreadQueryAPI {
+  tmid: string         // ID of the thread's parent message
+  count?: number       // Number of messages to return
+  offset?: number      // Number of messages to skip
+  sort?: object        // Mongo sort, e.g. `{ ts: 1 }`
+}
+
+/** Result structure for endpoints returning only success */
+export interface ISuccessResultAPI {
+  success: boolean
+}
+
+/** Result structure for history endpoints */
+export interface IHistoryResultAPI {
+  messages: IMessageReceiptAPI[]
+  unreadNotLoaded?: number
+  success: boolean
+}
+
+/** Result structure for thread messages */
+export interface IThreadResultAPI {
+  messages: IMessageReceiptAPI[]
+  count: number
+  offset: number
+  total: number
+  success: boolean
+}
+
+/** Result structure for channel list */
+export interface IChannelListResultAPI {
+  channels: IChannelAPI[]
+  offset: number
+  count: number
+  total: number
+  success: boolean
+}
+
+/** Result structure for group list */
+export interface IGroupListResultAPI {
+  groups: IGroupAPI[]
+  offset: number
+  count: number
+  total: number
+  success: boolean
+}
+
+/** Payload structure for `chat.delete` endpoint */
+export interface IMessageDeleteAPI {
+  roomId: string       // The room id of where the message is
+  msgId: string        // The message id to delete
+  asUser?: boolean     // Delete as the sender, not the logged in user (admin)
+}
+
+/** Result structure for message deletion */
+export interface IMessageDeleteResultAPI {
+  _id: string          // ID of deleted message
+  ts: number           // Seconds since unix epoch
+  success: boolean
+}
+
+/** Result structure for message pin */
+export interface IMessagePinResultAPI {
+  message: IMessageReceiptAPI // The pinned message notice
+  success: boolean
+}
+
+/** File details of an uploaded file, on its message */
+export interface IFileAPI {
+  _id: string          // ID of the uploaded file
+  name: string         // Name of the file
+  type: string         // MIME type of the file
+}
+
+/** Result structure for file upload */
+export interface IUploadResultAPI {
+  message?: IMessageReceiptAPI // The message with the file (newer servers)
+  success: boolean
+}
@@ -0,0 +1,26 @@
+import { readFile, writeFile, rename } from 'fs'
+
+/** Read data from a JSON file, or a default if the file doesn't exist */
+export function readJson<T> (path: string, empty: T): Promise<T> {
+  return new Promise((resolve, reject) => {
+    readFile(path, 'utf8', (err, data) => {
+      if (err) return (err.code === 'ENOENT') ? resolve(empty) : reject(err)
+      try {
+        resolve(JSON.parse(data))
+      } catch (err) {
+        reject(err)
+      }
+    })
+  })
+}
+
+/** Write data to a JSON file, via a temp file so it can't be half written */
+export function writeJson (path: string, data: any): Promise<void> {
+  const temp = `${path}.tmp`
+  return new Promise((resolve, reject) => {
+    writeFile(temp, JSON.stringify(data), 'utf8', (err) => {
+      if (err) return reject(err)
+      rename(temp, path, (err) => (err) ? reject(err) : resolve())
+    })
+  })
+}
@@ -1,4 +1,12 @@
-import { get, post, login, logout } from '../lib/api'
+import {
+  ApiClient,
+  get,
+  post,
+  login,
+  logout,
+  channels,
+  groups
+} from '../lib/api'
 import { apiUser, botUser, mockUser } from './config'
 import {
   IMessageAPI,
@@ -7,16 +15,20 @@ import {
   INewUserAPI,
   IUserResultAPI,
   IRoomResultAPI,
+  IRoomQueryAPI,
   IChannelResultAPI,
   IGroupResultAPI,
   IMessageReceiptAPI
 } from './interfaces'
-import { IMessage } from '../config/messageInterfaces'
 
 /** Define common attributes for DRY tests */
 export const testChannelName = 'tests'
 export const testPrivateName = 'p-tests'
 
+/** API clients for the mock and admin users, so they don't swap logins */
+export const mockApi = new ApiClient(mockUser)
+export const adminApi = new ApiClient(apiUser)
+
 /** Get information about a user */
 export async function userInfo (username: string): Promise<IUserResultAPI> {
   return get('users.info', { username }, true)
@@ -28,21 +40,21 @@ export async function createUser (user: INewUserAPI): Promise<IUserResultAPI> {
 }
 
 /** Get information about a channel */
-export async function channelInfo (query: { roomName?: string, roomId?: string }): Promise<IChannelResultAPI> {
-  return get('channels.info', query, true)
+export async function channelInfo (query: IRoomQueryAPI): Promise<IChannelResultAPI> {
+  return channels.info(query)
 }
 
 /** Get information about a private group */
-export async function privateInfo (query: { roomName?: string, roomId?: string }): Promise<IGroupResultAPI> {
-  return get('groups.info', query, true)
+export async function privateInfo (query: IRoomQueryAPI): Promise<IGroupResultAPI> {
+  return groups.info(query)
 }
 
 /** Get the last messages sent to a channel (in last 10 minutes) */
-export async function lastMessages (roomId: string, count: number = 1): Promise<IMessage[]> {
+export async function lastMessages (roomId: string, count: number = 1): Promise<IMessageReceiptAPI[]> {
   const now = new Date()
   const latest = now.toISOString()
   const oldest = new Date(now.setMinutes(now.getMinutes() - 10)).toISOString()
-  return (await get('channels.history', { roomId, latest, oldest, count })).messages
+  return (await channels.history({ roomId, latest, oldest, count })).messages
 }
 
 /** Create a room for tests and catch the error if it exists already */
@@ -51,7 +63,7 @@ export async function createChannel (
   members: string[] = [],
   readOnly: boolean = false
 ): Promise<IChannelResultAPI> {
-  return post('channels.create', { name, members, readOnly }, true)
+  return channels.create(name, members, readOnly)
 }
 
 /** Create a private group / room and catch if exists already */
@@ -60,7 +72,7 @@ export async function createPrivate (
   members: string[] = [],
   readOnly: boolean = false
 ): Promise<IGroupResultAPI> {
-  return post('groups.create', { name, members, readOnly }, true)
+  return groups.create(name, members, readOnly)
 }
 
 /** Send message from mock user to channel for tests to listen and respond */
@@ -70,7 +82,7 @@ export async function createPrivate (
  *        server side handling is complete. Would require PR to core.
  */
 export async function sendFromUser (payload: any): Promise<IMessageResultAPI> {
-  const user = await login({ username: mockUser.username, password: mockUser.password })
+  const user = await mockApi.login()
   const endpoint = (payload.roomId && payload.roomId.indexOf(user.data.userId) !== -1)
     ? 'dm.history'
     : 'channels.history'
@@ -80,11 +92,11 @@ export async function sendFromUser (payload: any): Promise<IMessageResultAPI> {
   const messageDefaults: IMessageAPI = { roomId }
   const data: IMessageAPI = Object.assign({}, messageDefaults, payload)
   const oldest = new Date().toISOString()
-  const result = await post('chat.postMessage', data, true)
+  const result = await mockApi.chat.postMessage(data)
   const proof = new Promise((resolve, reject) => {
     let looked = 0
     const look = setInterval(async () => {
-      const { messages } = await get(endpoint, { roomId, oldest })
+      const { messages } = await mockApi.get(endpoint, { roomId, oldest })
       const found = messages.some((message: IMessageReceiptAPI) => {
         return result.message._id === message._id
       })
@@ -102,37 +114,33 @@ export async function sendFromUser (payload: any): Promise<IMessageResultAPI> {
 
 /** Leave user from room, to generate `ul` message (test channel by default) */
 export async function leaveUser (room: { id?: string, name?: string } = {}): Promise<Boolean> {
-  await login({ username: mockUser.username, password: mockUser.password })
   if (!room.id && !room.name) room.name = testChannelName
   const roomId = (room.id)
     ? room.id
     : (await channelInfo({ roomName: room.name })).channel._id
-  return post('channels.leave', { roomId })
+  return mockApi.post('channels.leave', { roomId })
 }
 
 /** Invite user to room, to generate `au` message (test channel by default) */
-export async function inviteUser (room: { id?: string, name?: string } = {}): Promise<Boolean> {
+export async function inviteUser (room: { id?: string, name?: string } = {}): Promise<IChannelResultAPI> {
   let mockInfo = await userInfo(mockUser.username)
-  await login({ username: apiUser.username, password: apiUser.password })
   if (!room.id && !room.name) room.name = testChannelName
   const roomId = (room.id)
     ? room.id
     : (await channelInfo({ roomName: room.name })).channel._id
-  return post('channels.invite', { userId: mockInfo.user._id, roomId })
+  return adminApi.channels.invite(roomId, mockInfo.user._id)
 }
 
 /** @todo : Join user into room (enter) to generate `uj` message type. */
 
 /** Update message sent from mock user */
 export async function updateFromUser (payload: IMessageUpdateAPI): Promise<IMessageResultAPI> {
-  await login({ username: mockUser.username, password: mockUser.password })
-  return post('chat.update', payload, true)
+  return mockApi.chat.update(payload)
 }
 
 /** Create a direct message session with the mock user */
 export async function setupDirectFromUser (): Promise<IRoomResultAPI> {
-  await login({ username: mockUser.username, password: mockUser.password })
-  return post('im.create', { username: botUser.username }, true)
+  return mockApi.im.create(botUser.username)
 }
 
 /** Initialise testing instance with the required users for SDK/bot tests */
@@ -148,7 +156,7 @@ export async function setup () {
     }
 
     // Verify or create user for bot
-    let botInfo = await userInfo(botUser.username)
+    let botInfo = await userInfo(botUser.username).catch(() => undefined)
     if (!botInfo || !botInfo.success) {
       console.log(`Bot user (${botUser.username}) not found`)
       botInfo = await createUser(botUser)
@@ -162,7 +170,7 @@ export async function setup () {
     }
 
     // Verify or create mock user for talking to bot
-    let mockInfo = await userInfo(mockUser.username)
+    let mockInfo = await userInfo(mockUser.username).catch(() => undefined)
     if (!mockInfo || !mockInfo.success) {
       console.log(`Mock user (${mockUser.username}) not found`)
       mockInfo = await createUser(mockUser)
@@ -176,7 +184,7 @@ export async function setup () {
     }
 
     // Verify or create channel for tests
-    let testChannelInfo = await channelInfo({ roomName: testChannelName })
+    let testChannelInfo = await channelInfo({ roomName: testChannelName }).catch(() => undefined)
     if (!testChannelInfo || !testChannelInfo.success) {
       console.log(`Test channel (${testChannelName}) not found`)
       testChannelInfo = await createChannel(testChannelName, [
@@ -192,7 +200,7 @@ export async function setup () {
     }
 
     // Verify or create private room for tests
-    let testPrivateInfo = await privateInfo({ roomName: testPrivateName })
+    let testPrivateInfo = await privateInfo({ roomName: testPrivateName }).catch(() => undefined)
     if (!testPrivateInfo || !testPrivateInfo.success) {
       console.log(`Test private room (${testPrivateName}) not found`)
       testPrivateInfo = await createPrivate(testPrivateName, [
@@ -0,0 +1,4 @@
+/** Get time in ms from a message timestamp, as a Date or EJSON date */
+export function getTime (ts: any): number {
+  return new Date((ts && ts.$date !== undefined) ? ts.$date : ts).getTime()
+}